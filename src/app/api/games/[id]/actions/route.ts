@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { createServerClient } from "@/lib/supabase";
+import { submitGameAction, GameActionInput } from "@/lib/game-server";
+
+/**
+ * Applies a game action on behalf of the signed-in player.
+ * The action is validated against the stored state before it is saved
+ * and broadcast to the other players.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: gameId } = await params;
+
+  const supabase = await createServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  let input: GameActionInput;
+  try {
+    input = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  if (!input || typeof input.type !== "string") {
+    return NextResponse.json({ error: "Missing action type" }, { status: 400 });
+  }
+
+  const result = await submitGameAction(gameId, user.id, input);
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 400 });
+  }
+
+  return NextResponse.json(result.data);
+}
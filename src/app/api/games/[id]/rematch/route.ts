@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { createServerClient } from "@/lib/supabase";
+import { reopenLobbyForRematch } from "@/lib/game-server";
+
+/**
+ * Reopens the lobby of a finished game for a rematch with the same
+ * seats and decks. Responds with the lobby, or the rematch game if the
+ * host already started it.
+ */
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: gameId } = await params;
+
+  const supabase = await createServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const result = await reopenLobbyForRematch(gameId, user.id);
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 400 });
+  }
+
+  return NextResponse.json(result.data);
+}
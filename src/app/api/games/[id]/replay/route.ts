@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { createServerClient } from "@/lib/supabase";
+import { getGameReplay } from "@/lib/game-server";
+
+/**
+ * Returns the initial state and action log of a finished game,
+ * for the replay viewer.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: gameId } = await params;
+
+  const supabase = await createServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const result = await getGameReplay(gameId, user.id);
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 400 });
+  }
+
+  return NextResponse.json(result.data);
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { createServerClient } from "@/lib/supabase";
+import { spectateGame } from "@/lib/game-server";
+
+/**
+ * Signs the user up to watch a game they are not playing in,
+ * if its lobby allows spectators.
+ */
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: gameId } = await params;
+
+  const supabase = await createServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const result = await spectateGame(gameId, user.id);
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 400 });
+  }
+
+  return NextResponse.json({ success: true });
+}
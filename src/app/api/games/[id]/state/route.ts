@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { createServerClient } from "@/lib/supabase";
+import { getGameStateForViewer } from "@/lib/game-server";
+
+/**
+ * Returns the game state as seen by the signed-in player or spectator.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: gameId } = await params;
+
+  const supabase = await createServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const result = await getGameStateForViewer(gameId, user.id);
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 400 });
+  }
+
+  return NextResponse.json(result.data);
+}
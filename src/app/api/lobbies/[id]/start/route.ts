@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { createServerClient } from "@/lib/supabase";
+import { startGameFromLobby } from "@/lib/game-server";
+
+/**
+ * Starts the game for a lobby on behalf of its host.
+ * The game state is fully set up before the lobby switches to in_game.
+ */
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: lobbyId } = await params;
+
+  const supabase = await createServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const result = await startGameFromLobby(lobbyId, user.id);
+
+  if (!result.success) {
+    return NextResponse.json({ error: result.error }, { status: result.status || 400 });
+  }
+
+  return NextResponse.json(result.data);
+}
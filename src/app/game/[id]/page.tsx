@@ -1,156 +1,43 @@
 "use client";
 
-import { useEffect, useState, useCallback, useRef } from "react";
+import { useEffect, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
-import { useAuth } from "@/hooks";
+import { useAuth, useGameLog, useGameSync } from "@/hooks";
+import { getCardImageUrl, parseCardType, ScryfallCard } from "@/lib/scryfall";
 import {
+  AfkVoteKind,
+  ArrowEndpoint,
+  CardPosition,
   getGame,
-  subscribeToGame,
-  sendGameAction,
-  GameAction,
   GameActionTypes,
+  GamePhase,
   GamePlayerRecord,
   Game,
-  GameState,
-  GameCard,
-  initializeGameState,
-  updateGameState,
+  PlayerCounterType,
+  spectateGame,
+  Zone,
 } from "@/lib/game";
-import { getDeck } from "@/lib/decks";
-import { RealtimeChannel } from "@supabase/supabase-js";
-
-// ============================================
-// Player Position Layout
-// ============================================
-// Position 0 = Bottom (current player)
-// Position 1 = Right
-// Position 2 = Top
-// Position 3 = Left
-
-interface PlayerBattlefieldProps {
-  player: GamePlayerRecord;
-  gameState: GameState | null;
-  isCurrentPlayer: boolean;
-  position: "bottom" | "right" | "top" | "left";
-  onCardMove?: (cardId: string, x: number, y: number) => void;
-}
-
-function PlayerBattlefield({
-  player,
-  gameState,
-  isCurrentPlayer,
-  position,
-}: PlayerBattlefieldProps) {
-  const playerState = gameState?.players[player.user_id];
-  const commandZone = playerState?.zones.command || [];
-  const battlefield = playerState?.zones.battlefield || [];
-  const libraryCount = playerState?.zones.library.length || 0;
-
-  // Position-based styling
-  const positionStyles: Record<string, string> = {
-    bottom: "flex-row",
-    top: "flex-row-reverse rotate-180",
-    left: "flex-col-reverse -rotate-90",
-    right: "flex-col rotate-90",
-  };
-
-  const isRotated = position === "left" || position === "right";
-
-  return (
-    <div
-      className={`relative flex ${positionStyles[position]} items-end gap-4 p-4 ${
-        isCurrentPlayer ? "bg-[var(--accent-primary)]/5" : ""
-      }`}
-      style={{
-        transformOrigin: "center center",
-      }}
-    >
-      {/* Battlefield area */}
-      <div
-        className={`flex-grow min-h-[120px] ${isRotated ? "min-w-[200px]" : ""} 
-          bg-[var(--surface)]/30 rounded-lg border border-[var(--border)]/50 
-          relative overflow-hidden`}
-      >
-        {/* Battlefield cards */}
-        {battlefield.map((card) => (
-          <div
-            key={card.id}
-            className="absolute w-16 h-22 cursor-move"
-            style={{
-              left: card.position?.x || 0,
-              top: card.position?.y || 0,
-              transform: card.tapped ? "rotate(90deg)" : "none",
-            }}
-          >
-            <img
-              src={card.imageUrl}
-              alt={card.name}
-              className="w-full h-full object-cover rounded-md shadow-lg"
-            />
-          </div>
-        ))}
-
-        {/* Empty battlefield indicator */}
-        {battlefield.length === 0 && (
-          <div className="absolute inset-0 flex items-center justify-center text-[var(--foreground-subtle)] text-sm">
-            {isCurrentPlayer ? "Your Battlefield" : `${player.deck_name}`}
-          </div>
-        )}
-      </div>
-
-      {/* Deck and Command Zone area */}
-      <div className="flex flex-col gap-2 items-center">
-        {/* Commander(s) - Command Zone */}
-        <div className="flex gap-1">
-          {player.commander_image_url && (
-            <div className="relative group">
-              <img
-                src={player.commander_image_url}
-                alt={player.commander_name}
-                className="w-14 h-20 object-cover rounded-md shadow-lg border-2 border-amber-500/50"
-              />
-              {/* Commander indicator */}
-              <div className="absolute -top-1 -right-1 w-4 h-4 bg-amber-500 rounded-full flex items-center justify-center">
-                <CrownIcon className="w-2.5 h-2.5 text-black" />
-              </div>
-            </div>
-          )}
-          {player.commander2_image_url && (
-            <div className="relative group">
-              <img
-                src={player.commander2_image_url}
-                alt={player.commander2_name || "Commander"}
-                className="w-14 h-20 object-cover rounded-md shadow-lg border-2 border-amber-500/50"
-              />
-              <div className="absolute -top-1 -right-1 w-4 h-4 bg-amber-500 rounded-full flex items-center justify-center">
-                <CrownIcon className="w-2.5 h-2.5 text-black" />
-              </div>
-            </div>
-          )}
-        </div>
-
-        {/* Library (Deck) */}
-        <div className="relative">
-          <div className="w-14 h-20 bg-gradient-to-br from-[var(--accent-primary)] to-[var(--accent-secondary)] rounded-md shadow-lg flex items-center justify-center">
-            <span className="text-white font-bold text-lg">{libraryCount}</span>
-          </div>
-          <div className="absolute -bottom-1 left-1 w-14 h-20 bg-[var(--surface)] rounded-md -z-10" />
-          <div className="absolute -bottom-2 left-2 w-14 h-20 bg-[var(--surface)]/50 rounded-md -z-20" />
-        </div>
-
-        {/* Player info */}
-        <div className="text-center mt-1">
-          <div className="text-2xl font-bold text-[var(--foreground)]">
-            {playerState?.lifeTotal || 40}
-          </div>
-          <div className="text-xs text-[var(--foreground-muted)] truncate max-w-[80px]">
-            {player.deck_name}
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}
+import { countSpectators } from "@/lib/game-presence";
+import {
+  AfkVoteOverlay,
+  ArrowLayer,
+  CommanderDamageMatrix,
+  CommanderReturnPrompt,
+  CreateTokenModal,
+  DrawOfferOverlay,
+  GameLog,
+  GameSummary,
+  GameTable,
+  LibraryViewer,
+  MulliganOverlay,
+  PhaseTracker,
+  StackZone,
+  UndoRequestButton,
+  UndoRequestOverlay,
+  ZoneBrowser,
+} from "@/components/game";
+import type { CardDestination } from "@/components/game/card-drag";
+import { isSameEndpoint, Targeting } from "@/components/game/targeting";
 
 // ============================================
 // Main Game Page
@@ -164,120 +51,23 @@ export default function GamePage() {
 
   const [game, setGame] = useState<Game | null>(null);
   const [players, setPlayers] = useState<GamePlayerRecord[]>([]);
-  const [gameState, setGameState] = useState<GameState | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-
-  const channelRef = useRef<RealtimeChannel | null>(null);
-
-  // Determine player positions relative to current user
-  const getRelativePosition = useCallback(
-    (playerPosition: number): "bottom" | "right" | "top" | "left" => {
-      const currentPlayer = players.find((p) => p.user_id === user?.id);
-      if (!currentPlayer) return "bottom";
-
-      const currentPos = currentPlayer.position;
-      const relativePos = (playerPosition - currentPos + 4) % 4;
-
-      const positions: ("bottom" | "right" | "top" | "left")[] = [
-        "bottom",
-        "right",
-        "top",
-        "left",
-      ];
-      return positions[relativePos];
-    },
-    [players, user?.id]
+  const [showCommanderDamage, setShowCommanderDamage] = useState(false);
+  const [showCreateToken, setShowCreateToken] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [browsedZone, setBrowsedZone] = useState<{ playerId: string; zone: Zone } | null>(null);
+  const [targeting, setTargeting] = useState<Targeting | null>(null);
+
+  const { entries: logEntries, addAction: addLogAction } = useGameLog(gameId);
+  const { gameState, presence, delaySeconds, applyView, sendAction } = useGameSync(
+    gameId,
+    user?.id,
+    addLogAction
   );
 
-  // Handle incoming game actions
-  const handleGameAction = useCallback((action: GameAction) => {
-    console.log("Received game action:", action);
-
-    setGameState((prevState) => {
-      if (!prevState) return prevState;
-
-      // Handle different action types
-      switch (action.type) {
-        case GameActionTypes.UPDATE_LIFE: {
-          const { playerId, lifeTotal } = action.payload as {
-            playerId: string;
-            lifeTotal: number;
-          };
-          return {
-            ...prevState,
-            players: {
-              ...prevState.players,
-              [playerId]: {
-                ...prevState.players[playerId],
-                lifeTotal,
-              },
-            },
-          };
-        }
-
-        case GameActionTypes.MOVE_CARD: {
-          const { playerId, cardId, x, y } = action.payload as {
-            playerId: string;
-            cardId: string;
-            x: number;
-            y: number;
-          };
-          const player = prevState.players[playerId];
-          if (!player) return prevState;
-
-          const updatedBattlefield = player.zones.battlefield.map((card) =>
-            card.id === cardId ? { ...card, position: { x, y } } : card
-          );
-
-          return {
-            ...prevState,
-            players: {
-              ...prevState.players,
-              [playerId]: {
-                ...player,
-                zones: {
-                  ...player.zones,
-                  battlefield: updatedBattlefield,
-                },
-              },
-            },
-          };
-        }
-
-        case GameActionTypes.TAP_CARD: {
-          const { playerId, cardId, tapped } = action.payload as {
-            playerId: string;
-            cardId: string;
-            tapped: boolean;
-          };
-          const player = prevState.players[playerId];
-          if (!player) return prevState;
-
-          const updatedBattlefield = player.zones.battlefield.map((card) =>
-            card.id === cardId ? { ...card, tapped } : card
-          );
-
-          return {
-            ...prevState,
-            players: {
-              ...prevState.players,
-              [playerId]: {
-                ...player,
-                zones: {
-                  ...player.zones,
-                  battlefield: updatedBattlefield,
-                },
-              },
-            },
-          };
-        }
-
-        default:
-          return prevState;
-      }
-    });
-  }, []);
+  // Anyone who is not seated is watching
+  const isSpectator = !!user && players.length > 0 && !players.some((p) => p.user_id === user.id);
 
   // Initialize game
   useEffect(() => {
@@ -292,7 +82,19 @@ export default function GamePage() {
       setLoading(true);
       setError(null);
 
-      const result = await getGame(gameId);
+      let result = await getGame(gameId);
+
+      // Not a player: sign up to watch, if the lobby allows it
+      if (!result) {
+        const spectate = await spectateGame(gameId);
+        if (!spectate.success) {
+          setError(spectate.error || "Game not found");
+          setLoading(false);
+          return;
+        }
+
+        result = await getGame(gameId);
+      }
 
       if (!result) {
         setError("Game not found");
@@ -303,75 +105,133 @@ export default function GamePage() {
       setGame(result.game);
       setPlayers(result.players);
 
-      // Initialize game state if empty
-      if (
-        !result.game.gameState ||
-        Object.keys(result.game.gameState).length === 0
-      ) {
-        // Load deck cards for each player
-        const deckCards: Record<string, GameCard[]> = {};
-
-        for (const player of result.players) {
-          if (player.deck_id) {
-            const deck = await getDeck(player.deck_id);
-            if (deck) {
-              deckCards[player.user_id] = deck.cards.map((card, index) => ({
-                id: `${player.user_id}-${card.id}-${index}`,
-                cardId: card.id,
-                name: card.name,
-                imageUrl: card.image_url,
-                zone: card.is_commander ? "command" : "library",
-                ownerId: player.user_id,
-                controllerId: player.user_id,
-                tapped: false,
-                faceDown: true,
-                counters: {},
-                isCommander: card.is_commander || false,
-              }));
-            }
-          }
-        }
-
-        const initialState = initializeGameState(result.players, deckCards);
-        setGameState(initialState);
-
-        // Save initial state
-        await updateGameState(gameId, initialState);
-      } else {
-        setGameState(result.game.gameState as GameState);
-      }
+      // The state is set up on the server before anyone is redirected here
+      applyView({
+        version: result.game.stateVersion,
+        gameState: result.game.gameState,
+        delaySeconds: result.delaySeconds,
+      });
 
       setLoading(false);
     }
 
     loadGame();
-  }, [gameId, user, authLoading, router]);
+  }, [gameId, user, authLoading, router, applyView]);
 
-  // Subscribe to real-time updates
-  useEffect(() => {
-    if (!gameId || !user) return;
+  function handleAutoStopsChange(phases: GamePhase[]) {
+    sendAction(GameActionTypes.SET_AUTO_STOPS, { phases });
+  }
 
-    const channel = subscribeToGame(gameId, handleGameAction);
-    channelRef.current = channel;
+  function handleDealCommanderDamage(targetPlayerId: string, commanderId: string, amount: number) {
+    sendAction(GameActionTypes.DEAL_COMMANDER_DAMAGE, { targetPlayerId, commanderId, amount });
+  }
 
-    return () => {
-      channel.unsubscribe();
-    };
-  }, [gameId, user, handleGameAction]);
+  function handlePlayerCounterChange(playerId: string, counter: PlayerCounterType, delta: number) {
+    sendAction(
+      delta > 0 ? GameActionTypes.ADD_PLAYER_COUNTER : GameActionTypes.REMOVE_PLAYER_COUNTER,
+      { playerId, counter, amount: Math.abs(delta) }
+    );
+  }
 
-  // Send action helper
-  const sendAction = useCallback(
-    async (type: string, payload: Record<string, unknown>) => {
-      if (!channelRef.current || !user) return;
+  function handleCreateToken(token: ScryfallCard, count: number) {
+    sendAction(GameActionTypes.CREATE_TOKEN, {
+      cardId: token.id,
+      name: token.name,
+      imageUrl: getCardImageUrl(token, "normal"),
+      type: parseCardType(token.type_line),
+      count,
+    });
+  }
 
-      await sendGameAction(channelRef.current, {
-        type,
-        playerId: user.id,
-        payload,
-      });
-    },
-    [user]
-  );
+  function handleLookAtLibrary(count?: number, reveal?: boolean) {
+    sendAction(GameActionTypes.LOOK_AT_LIBRARY, { count, reveal });
+  }
+
+  function handleFinishLibrary(top: string[], bottom: string[]) {
+    sendAction(GameActionTypes.CLOSE_LIBRARY, { top, bottom });
+    setShowLibrary(false);
+  }
+
+  function handleMill(count: number) {
+    sendAction(GameActionTypes.MILL_CARDS, { count });
+    setShowLibrary(false);
+  }
+
+  function handleShuffle() {
+    sendAction(GameActionTypes.SHUFFLE_LIBRARY, {});
+    setShowLibrary(false);
+  }
+
+  function handleMoveCard(cardId: string, toZone: Zone) {
+    sendAction(GameActionTypes.MOVE_CARD, { cardId, toZone });
+  }
+
+  function handleCardDrop(cardId: string, destination: CardDestination, position?: CardPosition) {
+    switch (destination) {
+      case "hand":
+        sendAction(GameActionTypes.RETURN_TO_HAND, { cardId });
+        break;
+      case "library-top":
+      case "library-bottom":
+        sendAction(GameActionTypes.RETURN_TO_LIBRARY, {
+          cardId,
+          position: destination === "library-top" ? "top" : "bottom",
+        });
+        break;
+      default:
+        sendAction(GameActionTypes.MOVE_CARD, { cardId, toZone: destination, ...position });
+    }
+  }
+
+  function handleCardMove(cardId: string, x: number, y: number) {
+    sendAction(GameActionTypes.MOVE_CARD, { cardId, x, y });
+  }
+
+  function handleTapCards(cardIds: string[], tapped: boolean) {
+    for (const cardId of cardIds) {
+      sendAction(tapped ? GameActionTypes.TAP_CARD : GameActionTypes.UNTAP_CARD, { cardId });
+    }
+  }
+
+  function handleCardCounterChange(cardId: string, counter: string, delta: number) {
+    sendAction(
+      delta > 0 ? GameActionTypes.ADD_COUNTER : GameActionTypes.REMOVE_COUNTER,
+      { cardId, counter, amount: Math.abs(delta) }
+    );
+  }
+
+  function handleTarget(target: ArrowEndpoint) {
+    if (!targeting || isSameEndpoint(targeting.source, target)) return;
+
+    if (targeting.kind === "arrow") {
+      sendAction(GameActionTypes.DRAW_ARROW, { from: targeting.source, to: target });
+    } else if ("cardId" in targeting.source && "cardId" in target) {
+      sendAction(GameActionTypes.ATTACH_CARD, { cardId: targeting.source.cardId, targetId: target.cardId });
+    } else {
+      return; // Attachments need a card to attach to
+    }
+    setTargeting(null);
+  }
+
+  function handleRequestUndo(count: number) {
+    sendAction(GameActionTypes.REQUEST_UNDO, { count });
+  }
+
+  function handleRespondUndo(approve: boolean) {
+    sendAction(GameActionTypes.RESPOND_UNDO, { approve });
+  }
+
+  // Only players still in the game can call a vote
+  const handleStartAfkVote =
+    user && gameState?.players[user.id] && !gameState.players[user.id].isEliminated
+      ? (targetId: string, kind: AfkVoteKind) =>
+          sendAction(GameActionTypes.START_AFK_VOTE, { targetId, kind })
+      : undefined;
+
+  function handleConcede() {
+    if (!confirm("Concede the game? You cannot take this back.")) return;
+    sendAction(GameActionTypes.CONCEDE, {});
+  }
 
   // Loading state
   if (loading || authLoading) {
@@ -402,114 +262,287 @@ export default function GamePage() {
     );
   }
 
-  // Sort players by relative position
-  const sortedPlayers = [...players].sort((a, b) => {
-    const posA = getRelativePosition(a.position);
-    const posB = getRelativePosition(b.position);
-    const order = { bottom: 0, right: 1, top: 2, left: 3 };
-    return order[posA] - order[posB];
-  });
-
-  const topPlayer = sortedPlayers.find(
-    (p) => getRelativePosition(p.position) === "top"
-  );
-  const leftPlayer = sortedPlayers.find(
-    (p) => getRelativePosition(p.position) === "left"
-  );
-  const rightPlayer = sortedPlayers.find(
-    (p) => getRelativePosition(p.position) === "right"
-  );
-  const bottomPlayer = sortedPlayers.find(
-    (p) => getRelativePosition(p.position) === "bottom"
-  );
-
   return (
     <div className="min-h-screen bg-[var(--background)] flex flex-col">
       {/* Game Header */}
       <div className="h-12 bg-[var(--surface)] border-b border-[var(--border)] flex items-center justify-between px-4">
-        <div className="text-sm text-[var(--foreground-muted)]">
-          Turn {game?.turnNumber || 1}
+        <div className="flex items-center gap-4">
+          <div className="text-sm text-[var(--foreground-muted)]">
+            Turn {gameState?.turnNumber || game?.turnNumber || 1}
+          </div>
+          {!isSpectator && (
+            <>
+              <UndoRequestButton
+                disabled={!gameState || !!gameState.undoRequest}
+                onRequest={handleRequestUndo}
+              />
+              <button
+                onClick={() => setShowCommanderDamage(true)}
+                disabled={!gameState}
+                className="text-sm text-[var(--foreground-muted)] hover:text-[var(--foreground)] disabled:opacity-40"
+              >
+                Commander Damage
+              </button>
+              <button
+                onClick={() => setShowCreateToken(true)}
+                disabled={!gameState || !!gameState.mulligans}
+                className="text-sm text-[var(--foreground-muted)] hover:text-[var(--foreground)] disabled:opacity-40"
+              >
+                Create Token
+              </button>
+            </>
+          )}
+          {gameState && !gameState.result && user && gameState.players[user.id] &&
+            !gameState.players[user.id].isEliminated && (
+            <>
+              <button
+                onClick={() => sendAction(GameActionTypes.OFFER_DRAW, {})}
+                disabled={!!gameState.drawOffer || !!gameState.mulligans}
+                className="text-sm text-[var(--foreground-muted)] hover:text-[var(--foreground)] disabled:opacity-40"
+              >
+                Offer Draw
+              </button>
+              <button
+                onClick={handleConcede}
+                className="text-sm text-[var(--foreground-muted)] hover:text-red-400"
+              >
+                Concede
+              </button>
+            </>
+          )}
+          {gameState?.arrows?.some((arrow) => arrow.playerId === user?.id) && (
+            <button
+              onClick={() => sendAction(GameActionTypes.CLEAR_ARROW, {})}
+              className="text-sm text-[var(--foreground-muted)] hover:text-[var(--foreground)]"
+            >
+              Clear Arrows
+            </button>
+          )}
         </div>
         <div className="text-sm font-medium text-[var(--foreground)]">
           Commander Stadium
         </div>
-        <button
-          onClick={() => router.push("/game-finder")}
-          className="text-sm text-[var(--foreground-muted)] hover:text-[var(--foreground)]"
-        >
-          Leave Game
-        </button>
-      </div>
-
-      {/* Battlefield Grid */}
-      <div className="flex-grow grid grid-rows-[1fr_2fr_1fr] grid-cols-[1fr_2fr_1fr] gap-2 p-2">
-        {/* Top-left corner (empty) */}
-        <div />
-
-        {/* Top player */}
-        <div className="flex items-start justify-center">
-          {topPlayer && (
-            <PlayerBattlefield
-              player={topPlayer}
-              gameState={gameState}
-              isCurrentPlayer={topPlayer.user_id === user?.id}
-              position="top"
-            />
+        <div className="flex items-center gap-4">
+          {isSpectator && (
+            <span
+              title={delaySeconds ? "Every hand is shown, a little behind the players" : "Hands are hidden"}
+              className="text-xs px-2 py-0.5 rounded bg-black/70 text-[var(--accent-tertiary)] border border-[var(--accent-tertiary)]/50"
+            >
+              {delaySeconds ? `Spectating · ${Math.round(delaySeconds / 60)}m delay` : "Spectating"}
+            </span>
           )}
-        </div>
-
-        {/* Top-right corner (empty) */}
-        <div />
-
-        {/* Left player */}
-        <div className="flex items-center justify-start">
-          {leftPlayer && (
-            <PlayerBattlefield
-              player={leftPlayer}
-              gameState={gameState}
-              isCurrentPlayer={leftPlayer.user_id === user?.id}
-              position="left"
-            />
+          {gameState?.players && presence && (
+            <span title="Spectators" className="flex items-center gap-1 text-sm text-[var(--foreground-muted)]">
+              <EyeIcon className="w-4 h-4" />
+              {countSpectators(gameState, presence)}
+            </span>
           )}
-        </div>
-
-        {/* Center battlefield */}
-        <div className="bg-gradient-to-br from-emerald-900/20 to-emerald-800/10 rounded-xl border border-emerald-700/30 flex items-center justify-center">
-          <span className="text-emerald-600/50 text-lg font-medium">
-            Shared Battlefield
-          </span>
-        </div>
-
-        {/* Right player */}
-        <div className="flex items-center justify-end">
-          {rightPlayer && (
-            <PlayerBattlefield
-              player={rightPlayer}
-              gameState={gameState}
-              isCurrentPlayer={rightPlayer.user_id === user?.id}
-              position="right"
-            />
+          {!isSpectator && ((game && game.status !== "active") || gameState?.result) && (
+            <button
+              onClick={() => router.push(`/game/${gameId}/replay`)}
+              className="text-sm text-[var(--foreground-muted)] hover:text-[var(--foreground)]"
+            >
+              Watch Replay
+            </button>
           )}
+          <button
+            onClick={() => router.push("/game-finder")}
+            className="text-sm text-[var(--foreground-muted)] hover:text-[var(--foreground)]"
+          >
+            Leave Game
+          </button>
         </div>
+      </div>
 
-        {/* Bottom-left corner (empty) */}
-        <div />
+      {/* Turn structure */}
+      {gameState && !gameState.mulligans && (
+        <PhaseTracker
+          gameState={gameState}
+          currentUserId={user?.id}
+          onPassPriority={() => sendAction(GameActionTypes.PASS_PRIORITY, {})}
+          onNextStep={() => sendAction(GameActionTypes.NEXT_STEP, {})}
+          onPassTurn={() => sendAction(GameActionTypes.PASS_TURN, {})}
+          onAutoStopsChange={handleAutoStopsChange}
+        />
+      )}
 
-        {/* Bottom player (current player) */}
-        <div className="flex items-end justify-center">
-          {bottomPlayer && (
-            <PlayerBattlefield
-              player={bottomPlayer}
+      {/* Battlefield Grid */}
+      <GameTable
+        players={players}
+        gameState={gameState}
+        viewerId={user?.id}
+        presence={presence}
+        bottomRight={
+          // The log would give away what a delayed view has yet to show
+          delaySeconds ? undefined : <GameLog entries={logEntries} currentUserId={user?.id} />
+        }
+        center={
+          gameState && !gameState.mulligans ? (
+            <StackZone
               gameState={gameState}
-              isCurrentPlayer={bottomPlayer.user_id === user?.id}
-              position="bottom"
+              currentUserId={user?.id}
+              onCastSpell={(cardId) => sendAction(GameActionTypes.CAST_SPELL, { cardId })}
+              onAddAbility={(text) => sendAction(GameActionTypes.ADD_TO_STACK, { text })}
+              onRemove={(itemId) => sendAction(GameActionTypes.REMOVE_FROM_STACK, { itemId })}
             />
-          )}
+          ) : undefined
+        }
+        // Spectators can look but not touch
+        onCastCommander={
+          isSpectator ? undefined : (cardId) => sendAction(GameActionTypes.CAST_COMMANDER, { cardId })
+        }
+        onPlayerCounterChange={isSpectator ? undefined : handlePlayerCounterChange}
+        onLibraryClick={isSpectator ? undefined : () => setShowLibrary(true)}
+        onZoneClick={(playerId, zone) => setBrowsedZone({ playerId, zone })}
+        onCardDrop={isSpectator ? undefined : handleCardDrop}
+        onCardMove={isSpectator ? undefined : handleCardMove}
+        onTapCards={isSpectator ? undefined : handleTapCards}
+        targeting={targeting}
+        onTarget={isSpectator ? undefined : handleTarget}
+        onStartTargeting={isSpectator ? undefined : setTargeting}
+        onDetach={isSpectator ? undefined : (cardId) => sendAction(GameActionTypes.ATTACH_CARD, { cardId })}
+        onCardCounterChange={isSpectator ? undefined : handleCardCounterChange}
+        onTransform={
+          isSpectator
+            ? undefined
+            : (cardIds) => cardIds.forEach((cardId) => sendAction(GameActionTypes.TRANSFORM_CARD, { cardId }))
+        }
+        onStartAfkVote={handleStartAfkVote}
+      />
+
+      {/* Targeting arrows and cross-battlefield attachments */}
+      <ArrowLayer
+        gameState={gameState}
+        currentUserId={user?.id}
+        onDismiss={(arrowId) => sendAction(GameActionTypes.CLEAR_ARROW, { arrowId })}
+      />
+
+      {/* Picking a target */}
+      {targeting && (
+        <div className="fixed top-14 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 px-4 py-2 rounded-lg bg-[var(--background-secondary)] border border-[var(--accent-tertiary)] shadow-xl text-sm">
+          <span>
+            {targeting.kind === "attach"
+              ? "Click the card to attach it to"
+              : "Click a card or player to point the arrow at"}
+          </span>
+          <button
+            onClick={() => setTargeting(null)}
+            className="text-[var(--foreground-muted)] hover:text-[var(--foreground)] cursor-pointer"
+          >
+            Cancel
+          </button>
         </div>
+      )}
+
+      {/* Pre-game mulligan */}
+      {gameState?.mulligans && (
+        <MulliganOverlay
+          key={user ? gameState.mulligans[user.id]?.mulligans : undefined}
+          gameState={gameState}
+          currentUserId={user?.id}
+          presence={presence}
+          onMulligan={() => sendAction(GameActionTypes.MULLIGAN, {})}
+          onKeep={(bottomCardIds) => sendAction(GameActionTypes.KEEP_HAND, { bottomCardIds })}
+          onStartAfkVote={handleStartAfkVote}
+        />
+      )}
+
+      {/* Commander damage matrix */}
+      {gameState && showCommanderDamage && (
+        <CommanderDamageMatrix
+          gameState={gameState}
+          currentUserId={user?.id}
+          onDealDamage={handleDealCommanderDamage}
+          onClose={() => setShowCommanderDamage(false)}
+        />
+      )}
+
+      {/* Graveyard, exile and command zone browser */}
+      {gameState && browsedZone && (
+        <ZoneBrowser
+          gameState={gameState}
+          playerId={browsedZone.playerId}
+          zone={browsedZone.zone}
+          currentUserId={user?.id}
+          onCardDrop={handleCardDrop}
+          onClose={() => setBrowsedZone(null)}
+        />
+      )}
+
+      {/* Library tools, kept open until a look is finished */}
+      {gameState && user && !gameState.mulligans &&
+        (showLibrary || !!gameState.players[user.id]?.libraryView) && (
+          <LibraryViewer
+            key={gameState.players[user.id]?.libraryView ? "view" : "tools"}
+            gameState={gameState}
+            currentUserId={user.id}
+            onLook={handleLookAtLibrary}
+            onFinish={handleFinishLibrary}
+            onMill={handleMill}
+            onShuffle={handleShuffle}
+            onMoveCard={handleMoveCard}
+            onReveal={(cardId) => sendAction(GameActionTypes.REVEAL_CARD, { cardId })}
+            onClose={() => setShowLibrary(false)}
+          />
+        )}
 
-        {/* Bottom-right corner (empty) */}
-        <div />
-      </div>
+      {/* Token creation */}
+      {showCreateToken && (
+        <CreateTokenModal
+          onCreate={handleCreateToken}
+          onClose={() => setShowCreateToken(false)}
+        />
+      )}
+
+      {/* Commander put into a graveyard or exile */}
+      {gameState && !isSpectator && (
+        <CommanderReturnPrompt
+          gameState={gameState}
+          currentUserId={user?.id}
+          onReturn={(cardId) => sendAction(GameActionTypes.RETURN_COMMANDER, { cardId })}
+          onDecline={(cardId) => sendAction(GameActionTypes.DECLINE_COMMANDER_RETURN, { cardId })}
+        />
+      )}
+
+      {/* Pending draw offer */}
+      {gameState && !isSpectator && (
+        <DrawOfferOverlay
+          gameState={gameState}
+          currentUserId={user?.id}
+          onRespond={(accept) => sendAction(GameActionTypes.RESPOND_DRAW, { accept })}
+        />
+      )}
+
+      {/* Pending vote on an AFK player */}
+      {gameState && !isSpectator && (
+        <AfkVoteOverlay
+          gameState={gameState}
+          currentUserId={user?.id}
+          onRespond={(accept) => sendAction(GameActionTypes.RESPOND_AFK_VOTE, { accept })}
+        />
+      )}
+
+      {/* Post-game summary */}
+      {gameState?.result && (
+        <GameSummary
+          gameId={gameId}
+          lobbyId={game?.lobbyId ?? null}
+          gameState={gameState}
+          players={players}
+          currentUserId={user?.id}
+          isSpectator={isSpectator}
+        />
+      )}
+
+      {/* Pending undo request */}
+      {gameState && !isSpectator && (
+        <UndoRequestOverlay
+          gameState={gameState}
+          logEntries={logEntries}
+          currentUserId={user?.id}
+          onRespond={handleRespondUndo}
+        />
+      )}
     </div>
   );
 }
@@ -518,15 +551,11 @@ export default function GamePage() {
 // Icons
 // ============================================
 
-function CrownIcon({ className }: { className?: string }) {
+function EyeIcon({ className }: { className?: string }) {
   return (
-    <svg
-      className={className}
-      viewBox="0 0 24 24"
-      fill="currentColor"
-      stroke="none"
-    >
-      <path d="M5 16L3 5l5.5 5L12 4l3.5 6L21 5l-2 11H5z" />
+    <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M2.036 12.322a1.012 1.012 0 010-.639C3.423 7.51 7.36 4.5 12 4.5c4.638 0 8.573 3.007 9.963 7.178.07.207.07.431 0 .639C20.577 16.49 16.64 19.5 12 19.5c-4.638 0-8.573-3.007-9.963-7.178z" />
+      <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
     </svg>
   );
 }
@@ -0,0 +1,186 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { useAuth } from "@/hooks";
+import { getGame, getGameReplay, GameLogEntry, GamePlayerRecord } from "@/lib/game";
+import {
+  buildReplayFrames,
+  findTurnStart,
+  GameReplay,
+  getReplayView,
+} from "@/lib/game-replay";
+import { GameLog, GameTable, ReplayControls } from "@/components/game";
+
+const PLAYBACK_INTERVAL_MS = 1000;
+
+// ============================================
+// Replay Page
+// ============================================
+
+export default function GameReplayPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { user, loading: authLoading } = useAuth();
+  const gameId = params.id as string;
+
+  const [players, setPlayers] = useState<GamePlayerRecord[]>([]);
+  const [replay, setReplay] = useState<GameReplay | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [perspective, setPerspective] = useState<string | null>(null);
+
+  const frames = useMemo(() => (replay ? buildReplayFrames(replay) : []), [replay]);
+  const lastFrame = frames.length - 1;
+  const isPlaying = playing && frameIndex < lastFrame;
+
+  // Load players and the recorded game
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!user) {
+      router.push("/login");
+      return;
+    }
+
+    async function loadReplay() {
+      const [game, result] = await Promise.all([getGame(gameId), getGameReplay(gameId)]);
+
+      if (!game || !result.success || !result.data) {
+        setError(result.error || "Game not found");
+        setLoading(false);
+        return;
+      }
+
+      setPlayers(game.players);
+      setReplay(result.data);
+      setLoading(false);
+    }
+
+    loadReplay();
+  }, [gameId, user, authLoading, router]);
+
+  // Advance one action per tick while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const timer = setInterval(() => {
+      setFrameIndex((index) => Math.min(index + 1, lastFrame));
+    }, PLAYBACK_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [isPlaying, lastFrame]);
+
+  // Log lines up to the current frame
+  const logEntries = useMemo<GameLogEntry[]>(
+    () =>
+      frames.slice(1, frameIndex + 1).map(({ action }) => ({
+        seq: action!.version,
+        actorId: action!.playerId,
+        type: action!.type,
+        description: action!.description || action!.type,
+        createdAt: action!.timestamp,
+      })),
+    [frames, frameIndex]
+  );
+
+  function handlePlayPause() {
+    if (isPlaying) {
+      setPlaying(false);
+      return;
+    }
+
+    // Restart from the beginning when the end was reached
+    if (frameIndex >= lastFrame) {
+      setFrameIndex(0);
+    }
+    setPlaying(true);
+  }
+
+  function handleSeek(index: number) {
+    setFrameIndex(Math.max(0, Math.min(index, lastFrame)));
+  }
+
+  function handleJumpToTurn(turnNumber: number) {
+    const index = findTurnStart(frames, turnNumber);
+    if (index >= 0) {
+      setFrameIndex(index);
+    }
+  }
+
+  // Loading state
+  if (loading || authLoading) {
+    return (
+      <div className="min-h-screen bg-[var(--background)] flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-12 h-12 border-4 border-[var(--accent-primary)] border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+          <p className="text-[var(--foreground-muted)]">Loading replay...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Error state
+  if (error || frames.length === 0) {
+    return (
+      <div className="min-h-screen bg-[var(--background)] flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-red-400 mb-4">{error || "Replay not found"}</p>
+          <button
+            onClick={() => router.push(`/game/${gameId}`)}
+            className="btn-primary px-6 py-2 rounded-lg"
+          >
+            Back to Game
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const frame = frames[frameIndex];
+  const gameState = getReplayView(frame, perspective);
+
+  return (
+    <div className="min-h-screen bg-[var(--background)] flex flex-col">
+      {/* Replay Header */}
+      <div className="h-12 bg-[var(--surface)] border-b border-[var(--border)] flex items-center justify-between px-4">
+        <div className="text-sm text-[var(--foreground-muted)]">
+          Turn {frame.state.turnNumber}
+        </div>
+        <div className="text-sm font-medium text-[var(--foreground)]">
+          Replay
+        </div>
+        <button
+          onClick={() => router.push(`/game/${gameId}`)}
+          className="text-sm text-[var(--foreground-muted)] hover:text-[var(--foreground)]"
+        >
+          Back to Game
+        </button>
+      </div>
+
+      <GameTable
+        players={players}
+        gameState={gameState}
+        viewerId={perspective ?? user?.id}
+        bottomRight={<GameLog entries={logEntries} currentUserId={perspective ?? user?.id} />}
+      />
+
+      <ReplayControls
+        frameIndex={frameIndex}
+        frameCount={frames.length}
+        turnNumber={frame.state.turnNumber}
+        turnCount={frames[lastFrame].state.turnNumber}
+        isPlaying={isPlaying}
+        players={players}
+        perspective={perspective}
+        onPlayPause={handlePlayPause}
+        onSeek={handleSeek}
+        onJumpToTurn={handleJumpToTurn}
+        onPerspectiveChange={setPerspective}
+      />
+    </div>
+  );
+}
@@ -6,7 +6,7 @@ import { fetchCardPrints, CardPrint } from "@/lib/scryfall";
 interface ArtSelectorModalProps {
   cardId: string;
   cardName: string;
-  onSelect: (cardId: string, newImageUrl: string) => void;
+  onSelect: (cardId: string, print: CardPrint) => void;
   onClose: () => void;
 }
 
@@ -49,7 +49,7 @@ export function ArtSelectorModal({
    * Applies the selected art and closes the modal.
    */
   function handleArtClick(print: CardPrint) {
-    onSelect(cardId, print.imageUrl);
+    onSelect(cardId, print);
     onClose();
   }
 
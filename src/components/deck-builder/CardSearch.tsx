@@ -5,6 +5,8 @@ import {
   fetchCardAutocomplete,
   fetchCardByName,
   getCardImageUrl,
+  getCardFaces,
+  getCardLayout,
   parseCardType,
   allowsMultipleCopies,
   ScryfallCard,
@@ -120,6 +122,8 @@ export function CardSearch({ onCardAdd }: CardSearchProps) {
         tags: [],
         quantity: 1,
         allowsMultipleCopies: allowsMultipleCopies(scryfallCard),
+        layout: getCardLayout(scryfallCard),
+        faces: getCardFaces(scryfallCard),
       };
 
       onCardAdd(newCard);
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { Card, CategoryMode, SortMode, groupCards, sortCards, filterCards, isCardIllegal } from "./types";
+import { Card, CategoryMode, SortMode, groupCards, sortCards, filterCards, isCardIllegal, getBackFace } from "./types";
 import { CardContextMenu } from "./CardContextMenu";
 
 interface ContextMenuState {
@@ -238,6 +238,9 @@ function CardStackItem({
   const baseOffset = 28;
   // MTG card aspect ratio is 488:680, at w-48 (192px) height is ~267px
   const cardHeight = 267;
+  const [showBackFace, setShowBackFace] = useState(false);
+  const backFace = getBackFace(card);
+  const shownFace = showBackFace && backFace ? backFace : null;
 
   let topOffset = index * baseOffset;
 
@@ -264,9 +267,9 @@ function CardStackItem({
         }`}
       >
         <img
-          src={card.imageUrl}
-          alt={card.name}
-          className="w-full h-auto"
+          src={shownFace?.imageUrl ?? card.imageUrl}
+          alt={shownFace?.name ?? card.name}
+          className={`w-full h-auto ${shownFace?.rotated ? "rotate-180" : ""}`}
           draggable={false}
         />
 
@@ -296,6 +299,18 @@ function CardStackItem({
           </div>
         )}
 
+        {/* Back face preview for double-faced, flip and meld cards (shown on hover) */}
+        {isHovered && backFace && (
+          <div
+            onMouseEnter={() => setShowBackFace(true)}
+            onMouseLeave={() => setShowBackFace(false)}
+            className="absolute top-1 left-1 p-1.5 bg-black/70 rounded-lg border border-white/20"
+            title={`Hover to see ${backFace.name}`}
+          >
+            <FlipIcon className="w-4 h-4 text-white" />
+          </div>
+        )}
+
         {/* Art selector button (shown on hover) */}
         {isHovered && (
           <button
@@ -386,6 +401,14 @@ function ArtIcon({ className }: { className?: string }) {
   );
 }
 
+function FlipIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99" />
+    </svg>
+  );
+}
+
 function PlusIcon({ className }: { className?: string }) {
   return (
     <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { Card, CategoryMode, SortMode, groupCards, sortCards, filterCards, isCardIllegal } from "./types";
+import { Card, CategoryMode, SortMode, groupCards, sortCards, filterCards, isCardIllegal, getBackFace } from "./types";
 import { CardContextMenu } from "./CardContextMenu";
 
 interface ContextMenuState {
@@ -41,6 +41,7 @@ export function CardTextView({
   onSetCommander,
 }: CardTextViewProps) {
   const [hoveredCard, setHoveredCard] = useState<Card | null>(null);
+  const [showBackFace, setShowBackFace] = useState(false);
   const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
   const [commanderOnTop, setCommanderOnTop] = useState<0 | 1>(0); // Which commander is on top (0 or 1)
 
@@ -55,6 +56,7 @@ export function CardTextView({
   // Show hovered card if actively hovering, otherwise show commander/default
   const previewCard = hoveredCard || defaultCard;
   const isShowingCommanders = !hoveredCard && commanders.length > 0;
+  const backFace = showBackFace && previewCard ? getBackFace(previewCard) : null;
 
   const filteredCards = filterCards(cards, searchQuery);
   const groupedCards = groupCards(filteredCards, categoryMode);
@@ -134,9 +136,9 @@ export function CardTextView({
                 {/* Main preview card */}
                 <div className="relative rounded-xl overflow-hidden border border-[var(--border)] shadow-xl">
                   <img
-                    src={previewCard.imageUrl}
-                    alt={previewCard.name}
-                    className="w-full h-auto"
+                    src={backFace?.imageUrl ?? previewCard.imageUrl}
+                    alt={backFace?.name ?? previewCard.name}
+                    className={`w-full h-auto ${backFace?.rotated ? "rotate-180" : ""}`}
                   />
                 </div>
                 {/* Swap button (only when showing 2 commanders) */}
@@ -171,8 +173,14 @@ export function CardTextView({
               cards={groupCards}
               allCards={cards}
               cardCount={groupCards.reduce((sum, c) => sum + c.quantity, 0)}
-              onCardHover={setHoveredCard}
-              onCardLeave={() => setHoveredCard(null)}
+              onCardHover={(card, back = false) => {
+                setHoveredCard(card);
+                setShowBackFace(back);
+              }}
+              onCardLeave={() => {
+                setHoveredCard(null);
+                setShowBackFace(false);
+              }}
               onContextMenu={handleContextMenu}
               onIncrement={handleIncrement}
               onDecrement={handleDecrement}
@@ -207,7 +215,7 @@ interface CardTextColumnProps {
   cards: Card[];
   allCards: Card[]; // Full deck for cross-printing duplicate detection
   cardCount: number;
-  onCardHover: (card: Card) => void;
+  onCardHover: (card: Card, back?: boolean) => void;
   onCardLeave: () => void;
   onContextMenu: (e: React.MouseEvent, card: Card) => void;
   onIncrement: (cardId: string) => void;
@@ -233,7 +241,7 @@ function CardTextColumn({ groupKey, categoryMode, cards, allCards, cardCount, on
             card={card}
             isIllegal={isCardIllegal(card, allCards)}
             showQuantityControls={card.allowsMultipleCopies || card.quantity > 1}
-            onHover={() => onCardHover(card)}
+            onHover={(back) => onCardHover(card, back)}
             onLeave={onCardLeave}
             onContextMenu={(e) => onContextMenu(e, card)}
             onIncrement={() => onIncrement(card.id)}
@@ -249,7 +257,7 @@ interface CardTextItemProps {
   card: Card;
   isIllegal: boolean;
   showQuantityControls: boolean;
-  onHover: () => void;
+  onHover: (back?: boolean) => void; // `back` while hovering the flip icon of a double-faced card
   onLeave: () => void;
   onContextMenu: (e: React.MouseEvent) => void;
   onIncrement: () => void;
@@ -324,6 +332,18 @@ function CardTextItem({ card, isIllegal, showQuantityControls, onHover, onLeave,
         {card.name}
       </span>
 
+      {/* Hover to preview the back face */}
+      {getBackFace(card) && (
+        <span
+          onMouseEnter={() => onHover(true)}
+          onMouseLeave={() => onHover(false)}
+          title={`Back face: ${getBackFace(card)!.name}`}
+          className="text-[var(--foreground-muted)] hover:text-[var(--accent-primary)]"
+        >
+          <FlipIcon className="w-3.5 h-3.5" />
+        </span>
+      )}
+
       {/* Mana cost */}
       <ManaCost manaCost={card.manaCost} />
     </div>
@@ -432,6 +452,14 @@ function CrownIcon({ className }: { className?: string }) {
   );
 }
 
+function FlipIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99" />
+    </svg>
+  );
+}
+
 function SwapIcon({ className }: { className?: string }) {
   return (
     <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={1.5}>
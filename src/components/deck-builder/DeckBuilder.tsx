@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback, useRef } from "react";
 import { useRouter } from "next/navigation";
-import { Card, ViewMode, CategoryMode, SortMode, validateDeckLegality } from "./types";
+import { Card, ViewMode, CategoryMode, SortMode, validateDeckLegality, countLands } from "./types";
 import { DeckBuilderToolbar } from "./DeckBuilderToolbar";
 import { CardStackView } from "./CardStackView";
 import { CardTextView } from "./CardTextView";
@@ -11,6 +11,7 @@ import { ArtSelectorModal } from "./ArtSelectorModal";
 import { ImportDecklistModal } from "./ImportDecklistModal";
 import { UnsavedChangesModal } from "./UnsavedChangesModal";
 import { createDeck, updateDeck } from "@/lib/decks";
+import type { CardPrint } from "@/lib/scryfall";
 
 interface ArtSelectorState {
   cardId: string;
@@ -78,6 +79,7 @@ export function DeckBuilder({
   const cardCount = cards.reduce((sum, card) => sum + card.quantity, 0);
   const isComplete = cardCount === 100;
   const deckLegality = validateDeckLegality(cards);
+  const { lands, modalLands } = countLands(cards);
 
   /**
    * Adds a card to the deck. If the card already exists, increments quantity.
@@ -145,10 +147,10 @@ export function DeckBuilder({
   /**
    * Updates the art for a card.
    */
-  function handleArtSelected(cardId: string, newImageUrl: string) {
+  function handleArtSelected(cardId: string, print: CardPrint) {
     setCards((prevCards) =>
       prevCards.map((c) =>
-        c.id === cardId ? { ...c, imageUrl: newImageUrl } : c
+        c.id === cardId ? { ...c, imageUrl: print.imageUrl, faces: print.faces ?? c.faces } : c
       )
     );
   }
@@ -300,6 +302,13 @@ export function DeckBuilder({
               >
                 {cardCount}/100 cards
               </span>
+              <span
+                className="text-sm text-[var(--foreground-muted)]"
+                title={modalLands > 0 ? "Includes modal double-faced cards with a land face" : undefined}
+              >
+                {lands} land{lands !== 1 ? "s" : ""}
+                {modalLands > 0 && ` (${modalLands} MDFC)`}
+              </span>
               {/* Deck legality indicator */}
               {deckLegality.isLegal ? (
                 <span className="text-sm text-green-400 flex items-center gap-1">
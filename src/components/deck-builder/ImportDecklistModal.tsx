@@ -5,6 +5,8 @@ import {
   fetchCardByName,
   fetchCardBySetAndNumber,
   getCardImageUrl,
+  getCardFaces,
+  getCardLayout,
   parseCardType,
   allowsMultipleCopies,
   ScryfallCard,
@@ -107,6 +109,8 @@ export function ImportDecklistModal({ onImport, onClose }: ImportDecklistModalPr
       tags: [],
       quantity,
       allowsMultipleCopies: allowsMultipleCopies(scryfallCard),
+      layout: getCardLayout(scryfallCard),
+      faces: getCardFaces(scryfallCard),
     };
   }
 
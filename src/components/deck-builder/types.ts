@@ -2,6 +2,8 @@
  * Types for the deck builder feature.
  */
 
+import type { CardFace, CardLayout } from "@/lib/scryfall";
+
 export interface Card {
   id: string;
   name: string;
@@ -14,6 +16,8 @@ export interface Card {
   quantity: number;
   allowsMultipleCopies: boolean; // True for basic lands and cards like Relentless Rats
   isCommander?: boolean; // True if this card is the deck's commander
+  layout?: CardLayout; // Only set for double-faced, flip and meld cards
+  faces?: CardFace[]; // Every face, front first, for cards with a layout
 }
 
 export type CardType =
@@ -106,6 +110,39 @@ export function filterCards(cards: Card[], query: string): Card[] {
   return cards.filter((card) => card.name.toLowerCase().includes(lowerQuery));
 }
 
+/**
+ * The face shown when hovering a card's flip button, if it has one.
+ */
+export function getBackFace(card: Card): CardFace | null {
+  return card.faces?.[1] ?? null;
+}
+
+/**
+ * Whether a card can be played as a land. Modal double-faced cards count
+ * when either face is a land; transforming cards only by their front.
+ */
+export function isLandCard(card: Card): boolean {
+  if (card.type === "Land") return true;
+  return card.layout === "modal_dfc" && !!card.faces?.some((face) => face.type === "Land");
+}
+
+/**
+ * Counts the lands in a deck. `modalLands` are the spells among them
+ * that have a land on their back face.
+ */
+export function countLands(cards: Card[]): { lands: number; modalLands: number } {
+  return cards.reduce(
+    (counts, card) => {
+      if (!isLandCard(card)) return counts;
+      return {
+        lands: counts.lands + card.quantity,
+        modalLands: counts.modalLands + (card.type === "Land" ? 0 : card.quantity),
+      };
+    },
+    { lands: 0, modalLands: 0 }
+  );
+}
+
 /**
  * Represents a card that violates Commander singleton rules.
  */
@@ -2,6 +2,12 @@
 
 import { useState, useRef, useEffect } from "react";
 import { createLobby } from "@/lib/lobbies";
+import { DEFAULT_AFK_TIMEOUT_SECONDS } from "@/lib/game";
+
+/**
+ * AFK timeouts the host can pick from, in seconds.
+ */
+const AFK_TIMEOUT_OPTIONS = [60, 180, 300, 600];
 
 interface CreateGameModalProps {
   onGameCreated: (lobbyId: string) => void;
@@ -16,6 +22,7 @@ export function CreateGameModal({ onGameCreated, onClose }: CreateGameModalProps
   const [rules, setRules] = useState("");
   const [password, setPassword] = useState("");
   const [isPrivate, setIsPrivate] = useState(false);
+  const [afkTimeout, setAfkTimeout] = useState(DEFAULT_AFK_TIMEOUT_SECONDS);
   const [isCreating, setIsCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const nameInputRef = useRef<HTMLInputElement>(null);
@@ -51,6 +58,7 @@ export function CreateGameModal({ onGameCreated, onClose }: CreateGameModalProps
       name: name.trim(),
       rules: rules.trim() || undefined,
       password: isPrivate ? password : undefined,
+      afkTimeoutSeconds: afkTimeout,
     });
 
     if (result.success && result.data) {
@@ -121,6 +129,31 @@ export function CreateGameModal({ onGameCreated, onClose }: CreateGameModalProps
               />
             </div>
 
+            {/* AFK timeout */}
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <label htmlFor="game-afk-timeout" className="text-sm font-medium text-[var(--foreground)]">
+                  AFK Timeout
+                </label>
+                <p className="text-xs text-[var(--foreground-muted)] mt-0.5">
+                  How long a player can be away before the table may skip or remove them
+                </p>
+              </div>
+              <select
+                id="game-afk-timeout"
+                value={afkTimeout}
+                onChange={(e) => setAfkTimeout(Number(e.target.value))}
+                className="px-3 py-2 bg-[var(--surface)] border border-[var(--border)] rounded-lg text-sm text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)] transition-colors cursor-pointer"
+                disabled={isCreating}
+              >
+                {AFK_TIMEOUT_OPTIONS.map((seconds) => (
+                  <option key={seconds} value={seconds}>
+                    {seconds / 60} {seconds === 60 ? "minute" : "minutes"}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             {/* Private game toggle */}
             <div className="flex items-center justify-between">
               <div>
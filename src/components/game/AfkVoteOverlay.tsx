@@ -0,0 +1,118 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AFK_VOTE_GRACE_SECONDS, GameState } from "@/lib/game";
+import { isAfkVoteAgreed } from "@/lib/game-reducer";
+
+interface AfkVoteOverlayProps {
+  gameState: GameState;
+  currentUserId?: string;
+  onRespond: (accept: boolean) => void;
+}
+
+/**
+ * Shown to the whole table while a vote on an AFK player is pending.
+ * It needs every other player still in the game; the player it is
+ * about can call it off by answering. When nobody but the caller gets a
+ * say, the caller can go ahead once the grace period is over.
+ */
+export function AfkVoteOverlay({ gameState, currentUserId, onRespond }: AfkVoteOverlayProps) {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const vote = gameState.afkVote;
+  if (!vote) return null;
+
+  const isTarget = vote.targetId === currentUserId;
+  const isCaller = vote.playerId === currentUserId;
+  const hasVoted = !!currentUserId && vote.acceptedBy.includes(currentUserId);
+  const isEliminated = !!currentUserId && gameState.players[currentUserId]?.isEliminated;
+  const voters = gameState.turnOrder.filter(
+    (userId) => userId !== vote.targetId && !gameState.players[userId]?.isEliminated
+  );
+  const caller = gameState.players[vote.playerId]?.deckName || "A player";
+  const target = gameState.players[vote.targetId]?.deckName || "a player";
+  const outcome = vote.kind === "skip" ? "skip their turn" : "remove them from the game";
+  const everyoneVoted = vote.acceptedBy.length >= voters.length;
+  const graceLeft = Math.max(
+    0,
+    Math.ceil(AFK_VOTE_GRACE_SECONDS - (now - Date.parse(vote.startedAt)) / 1000)
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" />
+
+      {/* Modal */}
+      <div className="relative bg-[var(--background-secondary)] border border-[var(--border)] rounded-2xl p-6 max-w-md w-full shadow-2xl">
+        <h3 className="font-[family-name:var(--font-cinzel)] text-xl font-semibold mb-2">
+          {isTarget ? "Are You Still There?" : "AFK Vote"}
+        </h3>
+        <p className="text-sm text-[var(--foreground-muted)] mb-4">
+          {isTarget
+            ? `${caller} called a vote to ${vote.kind === "skip" ? "skip your turn" : "remove you from the game"} because you seem to be away.`
+            : `${isCaller ? "You" : caller} called a vote on ${target}, who seems to be away: ${outcome}.`}{" "}
+          Every other player still in the game has to agree.
+        </p>
+
+        <p className="text-xs text-[var(--foreground-muted)] mb-4">
+          {vote.acceptedBy.length}/{voters.length} voted yes
+        </p>
+
+        <div className="flex justify-end gap-2">
+          {isTarget ? (
+            <button
+              onClick={() => onRespond(false)}
+              className="btn-primary px-4 py-2 rounded-lg text-sm text-white font-medium cursor-pointer"
+            >
+              I&apos;m Here
+            </button>
+          ) : isCaller ? (
+            <>
+              <button
+                onClick={() => onRespond(false)}
+                className="px-4 py-2 rounded-lg text-sm text-red-400 hover:bg-red-500/10 transition-colors cursor-pointer"
+              >
+                Call Off Vote
+              </button>
+              {everyoneVoted && (
+                <button
+                  onClick={() => onRespond(true)}
+                  disabled={!isAfkVoteAgreed(gameState, now)}
+                  title={`${target} gets ${AFK_VOTE_GRACE_SECONDS} seconds to answer first`}
+                  className="btn-primary px-4 py-2 rounded-lg text-sm text-white font-medium cursor-pointer disabled:opacity-50 disabled:cursor-default"
+                >
+                  {graceLeft > 0 ? `Go Ahead (${graceLeft}s)` : "Go Ahead"}
+                </button>
+              )}
+            </>
+          ) : hasVoted || isEliminated ? (
+            <span className="text-sm text-[var(--foreground-muted)]">
+              Waiting for the other players...
+            </span>
+          ) : (
+            <>
+              <button
+                onClick={() => onRespond(false)}
+                className="px-4 py-2 rounded-lg text-sm text-red-400 hover:bg-red-500/10 transition-colors cursor-pointer"
+              >
+                Vote No
+              </button>
+              <button
+                onClick={() => onRespond(true)}
+                className="btn-primary px-4 py-2 rounded-lg text-sm text-white font-medium cursor-pointer"
+              >
+                Vote Yes
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
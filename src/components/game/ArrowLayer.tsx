@@ -0,0 +1,158 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ArrowEndpoint, GameState } from "@/lib/game";
+import { findEndpointElement } from "./targeting";
+
+interface ArrowLayerProps {
+  gameState: GameState | null;
+  currentUserId?: string;
+  onDismiss: (arrowId: string) => void;
+}
+
+interface Link {
+  id: string;
+  from: ArrowEndpoint;
+  to: ArrowEndpoint;
+  kind: "arrow" | "attachment";
+  own: boolean;
+}
+
+interface Line extends Omit<Link, "from" | "to"> {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/**
+ * Draws every player's targeting arrows over the table, plus a dashed
+ * line from a card to the card it is attached to on another battlefield.
+ * Click one of your own arrows to remove it.
+ */
+export function ArrowLayer({ gameState, currentUserId, onDismiss }: ArrowLayerProps) {
+  const [lines, setLines] = useState<Line[]>([]);
+
+  // Cards move around (and battlefields are rotated), so the endpoints
+  // are measured on every frame and only re-rendered when they change
+  useEffect(() => {
+    const links = collectLinks(gameState, currentUserId);
+    let frame = 0;
+    let measured = "";
+
+    function measure() {
+      const next = links.flatMap((link) => {
+        const from = findEndpointElement(link.from)?.getBoundingClientRect();
+        const to = findEndpointElement(link.to)?.getBoundingClientRect();
+        if (!from || !to) return [];
+        return [{
+          id: link.id,
+          kind: link.kind,
+          own: link.own,
+          x1: Math.round(from.left + from.width / 2),
+          y1: Math.round(from.top + from.height / 2),
+          x2: Math.round(to.left + to.width / 2),
+          y2: Math.round(to.top + to.height / 2),
+        }];
+      });
+
+      const key = JSON.stringify(next);
+      if (key !== measured) {
+        measured = key;
+        setLines(next);
+      }
+      frame = requestAnimationFrame(measure);
+    }
+
+    frame = requestAnimationFrame(measure);
+    return () => cancelAnimationFrame(frame);
+  }, [gameState, currentUserId]);
+
+  if (lines.length === 0) return null;
+
+  return (
+    <svg className="fixed inset-0 w-full h-full pointer-events-none z-30">
+      <defs>
+        <marker id="arrow-head" viewBox="0 0 10 10" refX="8" refY="5" markerWidth="5" markerHeight="5" orient="auto">
+          <path d="M0 0L10 5L0 10z" className="fill-amber-400" />
+        </marker>
+      </defs>
+
+      {lines.map((line) =>
+        line.kind === "attachment" ? (
+          <line
+            key={line.id}
+            x1={line.x1}
+            y1={line.y1}
+            x2={line.x2}
+            y2={line.y2}
+            strokeWidth={2}
+            strokeDasharray="4 4"
+            className="stroke-[var(--accent-tertiary)] opacity-70"
+          />
+        ) : (
+          <g key={line.id}>
+            <line
+              x1={line.x1}
+              y1={line.y1}
+              x2={line.x2}
+              y2={line.y2}
+              strokeWidth={4}
+              strokeLinecap="round"
+              markerEnd="url(#arrow-head)"
+              className="stroke-amber-400 opacity-90 drop-shadow"
+            />
+            {/* Wider invisible line so your own arrows are easy to click */}
+            {line.own && (
+              <line
+                x1={line.x1}
+                y1={line.y1}
+                x2={line.x2}
+                y2={line.y2}
+                strokeWidth={16}
+                onClick={() => onDismiss(line.id)}
+                className="stroke-transparent pointer-events-auto cursor-pointer"
+              >
+                <title>Click to remove this arrow</title>
+              </line>
+            )}
+          </g>
+        )
+      )}
+    </svg>
+  );
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function collectLinks(gameState: GameState | null, currentUserId?: string): Link[] {
+  if (!gameState) return [];
+
+  const arrows: Link[] = (gameState.arrows || []).map((arrow) => ({
+    id: arrow.id,
+    from: arrow.from,
+    to: arrow.to,
+    kind: "arrow",
+    own: arrow.playerId === currentUserId,
+  }));
+
+  // Attachments on the same battlefield are already drawn under their host
+  const attachments: Link[] = Object.values(gameState.players).flatMap((player) =>
+    player.zones.battlefield
+      .filter(
+        (card) =>
+          card.attachedTo && !player.zones.battlefield.some((host) => host.id === card.attachedTo)
+      )
+      .map((card) => ({
+        id: `attachment-${card.id}`,
+        from: { cardId: card.id },
+        to: { cardId: card.attachedTo! },
+        kind: "attachment" as const,
+        own: false,
+      }))
+  );
+
+  return [...attachments, ...arrows];
+}
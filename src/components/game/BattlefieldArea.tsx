@@ -0,0 +1,568 @@
+"use client";
+
+import { DragEvent, Fragment, MouseEvent, PointerEvent, useRef, useState } from "react";
+import { CardPosition, GameCard } from "@/lib/game";
+import { allowCardDrop, getDraggedCard, getGrabOffset, setDraggedCard } from "./card-drag";
+import { CardCounterMenu } from "./CardCounterMenu";
+import { cardTargetProps, Targeting } from "./targeting";
+
+const CARD_WIDTH = 64;
+const CARD_HEIGHT = 88;
+const CARD_GAP = 8;
+const ATTACHMENT_OFFSET = { x: 10, y: 14 }; // How far each attachment peeks out from under its host
+const GRID = { x: CARD_WIDTH + CARD_GAP, y: (CARD_HEIGHT + CARD_GAP) / 2 }; // Dropped cards snap to it
+const LONG_PRESS_MS = 500;
+
+/**
+ * Rows the battlefield is arranged into, top to bottom.
+ */
+const ARRANGE_ROWS: { name: string; matches: (card: GameCard) => boolean }[] = [
+  { name: "creatures", matches: (card) => card.type === "Creature" },
+  { name: "other", matches: (card) => card.type !== "Creature" && card.type !== "Land" },
+  { name: "lands", matches: (card) => card.type === "Land" },
+];
+
+export interface CardMove {
+  cardId: string;
+  x: number;
+  y: number;
+}
+
+interface CounterMenu {
+  cardId: string;
+  x: number;
+  y: number;
+}
+
+interface SelectionBox {
+  start: CardPosition;
+  end: CardPosition;
+}
+
+interface BattlefieldAreaProps {
+  cards: GameCard[];
+  interactive: boolean; // Only your own battlefield can be rearranged
+  emptyLabel: string;
+  className?: string;
+  selectedIds: string[];
+  onSelectionChange: (cardIds: string[]) => void;
+  onMove?: (moves: CardMove[]) => void;
+  onDropCard?: (cardId: string, position: CardPosition) => void; // Cards dragged in from other zones
+  onTap?: (cardIds: string[], tapped: boolean) => void;
+  targeting?: Targeting | null;
+  onTarget?: (cardId: string) => void; // Picks a card while targeting
+  onStartTargeting?: (targeting: Targeting) => void;
+  onDetach?: (cardId: string) => void;
+  onCounterChange?: (cardId: string, counter: string, delta: number) => void;
+  onTransform?: (cardIds: string[]) => void;
+}
+
+/**
+ * A player's battlefield. Cards are dragged around and snap to a grid;
+ * click to select, shift-click or drag a box over empty space to select
+ * several, and double-click to tap or untap. Identical permanents stack
+ * into one pile, and auras and equipment sit under the card they are
+ * attached to.
+ * Right-click (or long-press) a card for its counters.
+ */
+export function BattlefieldArea({
+  cards,
+  interactive,
+  emptyLabel,
+  className = "",
+  selectedIds,
+  onSelectionChange,
+  onMove,
+  onDropCard,
+  onTap,
+  targeting,
+  onTarget,
+  onStartTargeting,
+  onDetach,
+  onCounterChange,
+  onTransform,
+}: BattlefieldAreaProps) {
+  const [stackDuplicates, setStackDuplicates] = useState(true);
+  const [selectionBox, setSelectionBox] = useState<SelectionBox | null>(null);
+  const [counterMenu, setCounterMenu] = useState<CounterMenu | null>(null);
+  const areaRef = useRef<HTMLDivElement>(null);
+  const longPressRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const attachments = layoutAttachments(cards);
+  const loose = cards.filter((card) => !attachments.has(card.id));
+  const hostIds = new Set(Array.from(attachments.values(), (a) => a.hostId));
+  const piles = stackDuplicates
+    ? stackCards(loose, hostIds)
+    : loose.map((card) => [card]);
+  const selected = cards.filter((card) => selectedIds.includes(card.id));
+  const single = selected.length === 1 ? selected[0] : null;
+  const transformable = selected.filter((card) => (card.faces?.length || 0) > 1);
+  const counterMenuCard = counterMenu ? cards.find((card) => card.id === counterMenu.cardId) : undefined;
+
+  // Attached cards are drawn relative to the card they hang from
+  function positionOf(card: GameCard): CardPosition {
+    const attachment = attachments.get(card.id);
+    if (!attachment) return { x: card.position?.x || 0, y: card.position?.y || 0 };
+
+    const host = cards.find((c) => c.id === attachment.hostId);
+    return {
+      x: (host?.position?.x || 0) + attachment.depth * ATTACHMENT_OFFSET.x,
+      y: (host?.position?.y || 0) + attachment.depth * ATTACHMENT_OFFSET.y,
+    };
+  }
+
+  const targetCursor = targeting ? "cursor-crosshair" : interactive ? "cursor-move" : "";
+
+  function toAreaPosition(e: { clientX: number; clientY: number }): CardPosition {
+    const rect = areaRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  }
+
+  function handleDrop(e: DragEvent<HTMLDivElement>) {
+    e.preventDefault();
+    const cardId = getDraggedCard(e);
+    if (!cardId) return;
+
+    const grab = getGrabOffset(e);
+    const point = toAreaPosition(e);
+    const position = snapToGrid({ x: point.x - grab.x, y: point.y - grab.y });
+
+    const card = cards.find((c) => c.id === cardId);
+    if (!card) {
+      onDropCard?.(cardId, position);
+      return;
+    }
+
+    // Moving a selected card (or a pile) drags the rest of the group along,
+    // keeping its place relative to the snapped card. Attached cards follow
+    // their host instead, unless dragged off it.
+    const pile = piles.find((p) => p.some((c) => c.id === cardId)) || [card];
+    const group = (selectedIds.includes(cardId) ? selected : pile).filter(
+      (c) => c.id === cardId || !c.attachedTo
+    );
+    const origin = positionOf(card);
+    const dx = position.x - origin.x;
+    const dy = position.y - origin.y;
+
+    onMove?.(
+      group.map((c) => ({
+        cardId: c.id,
+        x: Math.max(0, Math.round(positionOf(c).x + dx)),
+        y: Math.max(0, Math.round(positionOf(c).y + dy)),
+      }))
+    );
+  }
+
+  function handleMouseDown(e: MouseEvent<HTMLDivElement>) {
+    if (!interactive || targeting || e.button !== 0 || e.target !== e.currentTarget) return;
+    const point = toAreaPosition(e);
+    setSelectionBox({ start: point, end: point });
+  }
+
+  function handleMouseMove(e: MouseEvent<HTMLDivElement>) {
+    if (!selectionBox) return;
+    setSelectionBox({ ...selectionBox, end: toAreaPosition(e) });
+  }
+
+  function handleMouseUp(e: MouseEvent<HTMLDivElement>) {
+    if (!selectionBox) return;
+    setSelectionBox(null);
+
+    const box = normalizeBox(selectionBox);
+    const inBox = cards
+      .filter((card) => {
+        const { x, y } = positionOf(card);
+        return x < box.right && x + CARD_WIDTH > box.left && y < box.bottom && y + CARD_HEIGHT > box.top;
+      })
+      .map((card) => card.id);
+
+    onSelectionChange(e.shiftKey ? Array.from(new Set([...selectedIds, ...inBox])) : inBox);
+  }
+
+  function handlePileClick(e: MouseEvent, pile: GameCard[]) {
+    if (targeting) {
+      onTarget?.(pile[0].id);
+      return;
+    }
+    if (!interactive) return;
+    const ids = pile.map((card) => card.id);
+    const isSelected = ids.every((id) => selectedIds.includes(id));
+
+    if (e.shiftKey) {
+      onSelectionChange(
+        isSelected
+          ? selectedIds.filter((id) => !ids.includes(id))
+          : Array.from(new Set([...selectedIds, ...ids]))
+      );
+    } else {
+      onSelectionChange(ids);
+    }
+  }
+
+  // Right-click, or press and hold on touch screens, opens the counter menu
+  function counterMenuProps(cardId: string) {
+    if (!interactive || !onCounterChange) return {};
+
+    const cancelLongPress = () => {
+      if (longPressRef.current) clearTimeout(longPressRef.current);
+      longPressRef.current = null;
+    };
+
+    return {
+      onContextMenu: (e: MouseEvent) => {
+        e.preventDefault();
+        setCounterMenu({ cardId, x: e.clientX, y: e.clientY });
+      },
+      onPointerDown: (e: PointerEvent) => {
+        if (e.pointerType !== "touch") return;
+        const { clientX, clientY } = e;
+        cancelLongPress();
+        longPressRef.current = setTimeout(
+          () => setCounterMenu({ cardId, x: clientX, y: clientY }),
+          LONG_PRESS_MS
+        );
+      },
+      onPointerUp: cancelLongPress,
+      onPointerMove: cancelLongPress,
+      onPointerLeave: cancelLongPress,
+    };
+  }
+
+  function handleTap(tapped: boolean) {
+    const ids = selected.filter((card) => card.tapped !== tapped).map((card) => card.id);
+    if (ids.length > 0) onTap?.(ids, tapped);
+  }
+
+  // Lines cards up in rows of creatures, other permanents and lands
+  function handleArrange() {
+    const area = areaRef.current;
+    if (!area) return;
+
+    const width = area.clientWidth;
+    const rowStep = Math.max(24, Math.min(CARD_HEIGHT + CARD_GAP, (area.clientHeight - CARD_HEIGHT - CARD_GAP) / 2));
+    const moves: CardMove[] = [];
+
+    ARRANGE_ROWS.forEach((row, rowIndex) => {
+      // Cards attached across battlefields stay where they are
+      const rowPiles = piles.filter((pile) => !pile[0].attachedTo && row.matches(pile[0]));
+      const step = Math.min(
+        CARD_WIDTH + CARD_GAP,
+        (width - CARD_WIDTH - 2 * CARD_GAP) / Math.max(rowPiles.length - 1, 1)
+      );
+
+      rowPiles.forEach((pile, index) => {
+        const x = Math.round(CARD_GAP + index * step);
+        const y = Math.round(CARD_GAP / 2 + rowIndex * rowStep);
+        for (const card of pile) {
+          if (card.position?.x !== x || card.position?.y !== y) {
+            moves.push({ cardId: card.id, x, y });
+          }
+        }
+      });
+    });
+
+    if (moves.length > 0) onMove?.(moves);
+  }
+
+  return (
+    <div
+      ref={areaRef}
+      onDragOver={interactive ? allowCardDrop : undefined}
+      onDrop={interactive ? handleDrop : undefined}
+      onMouseDown={handleMouseDown}
+      onMouseMove={handleMouseMove}
+      onMouseUp={handleMouseUp}
+      onMouseLeave={() => setSelectionBox(null)}
+      className={`flex-grow min-h-[120px] ${className}
+        bg-[var(--surface)]/30 rounded-lg border border-[var(--border)]/50
+        relative overflow-hidden select-none`}
+    >
+      {/* Battlefield cards, each host drawn over its attachments */}
+      {piles.map((pile) => {
+        const card = pile[0];
+        const isSelected = pile.every((c) => selectedIds.includes(c.id));
+        const position = positionOf(card);
+        const hanging = cards
+          .filter((c) => attachments.get(c.id)?.hostId === card.id)
+          .sort((a, b) => attachments.get(b.id)!.depth - attachments.get(a.id)!.depth);
+
+        return (
+          <Fragment key={card.id}>
+            {hanging.map((attachment) => (
+              <div
+                key={attachment.id}
+                {...cardTargetProps([attachment.id])}
+                draggable={interactive && !targeting}
+                onDragStart={(e) => setDraggedCard(e, attachment.id)}
+                onClick={(e) => handlePileClick(e, [attachment])}
+                onDoubleClick={() => interactive && onTap?.([attachment.id], !attachment.tapped)}
+                {...counterMenuProps(attachment.id)}
+                className={`absolute w-16 h-22 ${targetCursor}`}
+                style={cardStyle(positionOf(attachment), attachment.tapped)}
+              >
+                <CardFace card={attachment} selected={selectedIds.includes(attachment.id)} />
+              </div>
+            ))}
+            <div
+              {...cardTargetProps(pile.map((c) => c.id))}
+              draggable={interactive && !targeting}
+              onDragStart={(e) => setDraggedCard(e, card.id)}
+              onClick={(e) => handlePileClick(e, pile)}
+              onDoubleClick={() => interactive && onTap?.(pile.map((c) => c.id), !card.tapped)}
+              {...counterMenuProps(card.id)}
+              className={`absolute w-16 h-22 ${targetCursor}`}
+              style={cardStyle(position, card.tapped)}
+            >
+              <CardFace card={card} selected={isSelected} />
+              {pile.length > 1 && (
+                <span className="absolute -top-1.5 -right-1.5 min-w-5 h-5 px-1 rounded-full bg-black/80 border border-[var(--border)] text-white text-[10px] font-bold flex items-center justify-center">
+                  ×{pile.length}
+                </span>
+              )}
+              {/* Attached to a card on another battlefield */}
+              {card.attachedTo && (
+                <span
+                  title="Attached to a card on another battlefield"
+                  className="absolute -bottom-1.5 -left-1.5 w-5 h-5 rounded-full bg-black/80 border border-[var(--border)] text-[var(--accent-tertiary)] flex items-center justify-center"
+                >
+                  <LinkIcon className="w-3 h-3" />
+                </span>
+              )}
+            </div>
+          </Fragment>
+        );
+      })}
+
+      {/* Counters of the right-clicked card */}
+      {counterMenuCard && (
+        <CardCounterMenu
+          card={counterMenuCard}
+          x={counterMenu!.x}
+          y={counterMenu!.y}
+          onChange={(counter, delta) => onCounterChange?.(counterMenuCard.id, counter, delta)}
+          onClose={() => setCounterMenu(null)}
+        />
+      )}
+
+      {/* Rubber-band selection */}
+      {selectionBox && (
+        <div
+          className="absolute border border-[var(--accent-tertiary)] bg-[var(--accent-tertiary)]/10 pointer-events-none"
+          style={boxStyle(selectionBox)}
+        />
+      )}
+
+      {/* Empty battlefield indicator */}
+      {cards.length === 0 && (
+        <div className="absolute inset-0 flex items-center justify-center text-[var(--foreground-subtle)] text-sm pointer-events-none">
+          {emptyLabel}
+        </div>
+      )}
+
+      {/* Toolbar */}
+      {interactive && cards.length > 0 && (
+        <div className="absolute top-1 right-1 flex items-center gap-1">
+          {selected.length > 0 && (
+            <>
+              <span className="text-[10px] text-[var(--foreground-muted)]">{selected.length} selected</span>
+              <ToolbarButton onClick={() => handleTap(true)}>Tap</ToolbarButton>
+              <ToolbarButton onClick={() => handleTap(false)}>Untap</ToolbarButton>
+            </>
+          )}
+          {transformable.length > 0 && onTransform && (
+            <ToolbarButton onClick={() => onTransform(transformable.map((card) => card.id))}>
+              Transform
+            </ToolbarButton>
+          )}
+          {single && onStartTargeting && (
+            <>
+              <ToolbarButton onClick={() => onStartTargeting({ kind: "attach", source: { cardId: single.id } })}>
+                Attach…
+              </ToolbarButton>
+              <ToolbarButton onClick={() => onStartTargeting({ kind: "arrow", source: { cardId: single.id } })}>
+                Arrow…
+              </ToolbarButton>
+            </>
+          )}
+          {single?.attachedTo && onDetach && (
+            <ToolbarButton onClick={() => onDetach(single.id)}>Detach</ToolbarButton>
+          )}
+          <ToolbarButton onClick={handleArrange}>Arrange</ToolbarButton>
+          <ToolbarButton onClick={() => setStackDuplicates((stack) => !stack)}>
+            {stackDuplicates ? "Unstack" : "Stack"}
+          </ToolbarButton>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CardFace({ card, selected }: { card: GameCard; selected: boolean }) {
+  const counters = Object.entries(card.counters);
+
+  return (
+    <>
+      {card.hidden ? (
+        <div className="w-full h-full rounded-md shadow-lg bg-gradient-to-br from-[var(--accent-primary)] to-[var(--accent-secondary)] border border-[var(--border)]" />
+      ) : (
+        <img
+          src={card.imageUrl}
+          alt={card.name}
+          draggable={false}
+          className={`w-full h-full object-cover rounded-md shadow-lg ${
+            selected ? "ring-2 ring-[var(--accent-tertiary)]" : ""
+          } ${card.faces?.[card.faceIndex || 0]?.rotated ? "rotate-180" : ""}`}
+        />
+      )}
+      {counters.length > 0 && (
+        <div className="absolute bottom-0.5 inset-x-0.5 flex flex-wrap-reverse gap-0.5 pointer-events-none">
+          {counters.map(([counter, value]) => (
+            <span
+              key={counter}
+              title={`${value} ${counter} counter${value === 1 ? "" : "s"}`}
+              className={`px-1 rounded-full text-[9px] font-bold leading-4 ${counterBadgeColor(counter)}`}
+            >
+              {counterBadgeLabel(counter, value)}
+            </span>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
+
+function ToolbarButton({ onClick, children }: { onClick: () => void; children: string }) {
+  return (
+    <button
+      onClick={onClick}
+      className="px-1.5 py-0.5 rounded text-[10px] bg-black/60 border border-[var(--border)] text-[var(--foreground-muted)] hover:text-[var(--foreground)] cursor-pointer"
+    >
+      {children}
+    </button>
+  );
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Groups identical permanents (same card, same tapped state, no counters
+ * or attachments) into piles, keeping the battlefield order.
+ */
+function stackCards(cards: GameCard[], hostIds: Set<string>): GameCard[][] {
+  const piles = new Map<string, GameCard[]>();
+
+  for (const card of cards) {
+    const stackable =
+      !card.hidden &&
+      !card.attachedTo &&
+      !hostIds.has(card.id) &&
+      Object.keys(card.counters).length === 0;
+    const key = stackable ? `${card.cardId}:${card.name}:${card.tapped}:${card.faceDown}` : card.id;
+    piles.set(key, [...(piles.get(key) || []), card]);
+  }
+
+  return Array.from(piles.values());
+}
+
+/**
+ * Finds the cards attached (directly or through another attachment) to a
+ * card on the same battlefield. `depth` orders them under their host.
+ */
+function layoutAttachments(cards: GameCard[]): Map<string, { hostId: string; depth: number }> {
+  const layout = new Map<string, { hostId: string; depth: number }>();
+  const ids = new Set(cards.map((card) => card.id));
+
+  for (const host of cards) {
+    if (host.attachedTo && ids.has(host.attachedTo)) continue;
+
+    let depth = 0;
+    let level = [host.id];
+    while (level.length > 0) {
+      const next = cards.filter(
+        (card) => card.attachedTo && level.includes(card.attachedTo) && !layout.has(card.id)
+      );
+      for (const card of next) layout.set(card.id, { hostId: host.id, depth: ++depth });
+      level = next.map((card) => card.id);
+    }
+  }
+
+  return layout;
+}
+
+/**
+ * Rounds a drop position to the nearest grid point, lined up with the
+ * columns and rows that auto-arrange uses.
+ */
+function snapToGrid({ x, y }: CardPosition): CardPosition {
+  return {
+    x: CARD_GAP + Math.max(0, Math.round((x - CARD_GAP) / GRID.x)) * GRID.x,
+    y: CARD_GAP / 2 + Math.max(0, Math.round((y - CARD_GAP / 2) / GRID.y)) * GRID.y,
+  };
+}
+
+function cardStyle(position: CardPosition, tapped: boolean) {
+  return {
+    left: position.x,
+    top: position.y,
+    transform: tapped ? "rotate(90deg)" : "none",
+  };
+}
+
+/**
+ * "+2/+2" for two +1/+1 counters, "Loyalty 3" for the rest.
+ */
+function counterBadgeLabel(counter: string, value: number): string {
+  if (counter === "+1/+1") return `+${value}/+${value}`;
+  if (counter === "-1/-1") return `-${value}/-${value}`;
+  return `${counter.charAt(0).toUpperCase()}${counter.slice(1)} ${value}`;
+}
+
+function counterBadgeColor(counter: string): string {
+  switch (counter) {
+    case "+1/+1":
+      return "bg-emerald-500/90 text-white";
+    case "-1/-1":
+      return "bg-red-600/90 text-white";
+    case "loyalty":
+      return "bg-slate-200/90 text-black";
+    default:
+      return "bg-black/80 text-white";
+  }
+}
+
+function normalizeBox({ start, end }: SelectionBox) {
+  return {
+    left: Math.min(start.x, end.x),
+    top: Math.min(start.y, end.y),
+    right: Math.max(start.x, end.x),
+    bottom: Math.max(start.y, end.y),
+  };
+}
+
+function boxStyle(selectionBox: SelectionBox) {
+  const box = normalizeBox(selectionBox);
+  return { left: box.left, top: box.top, width: box.right - box.left, height: box.bottom - box.top };
+}
+
+// ============================================
+// Icons
+// ============================================
+
+function LinkIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M10 13a5 5 0 007.5.5l3-3a5 5 0 00-7-7l-1.5 1.5" />
+      <path d="M14 11a5 5 0 00-7.5-.5l-3 3a5 5 0 007 7l1.5-1.5" />
+    </svg>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { CardCounterPresets, GameCard, MAX_COUNTER_NAME_LENGTH } from "@/lib/game";
+
+const MENU_WIDTH = 208;
+
+interface CardCounterMenuProps {
+  card: GameCard;
+  x: number; // Viewport coordinates the menu opened at
+  y: number;
+  onChange: (counter: string, delta: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Context menu for a battlefield card's counters. Lists the common
+ * presets and any custom counters already on the card, and lets you
+ * name a new one.
+ */
+export function CardCounterMenu({ card, x, y, onChange, onClose }: CardCounterMenuProps) {
+  const [customName, setCustomName] = useState("");
+
+  const custom = Object.keys(card.counters).filter(
+    (counter) => !(CardCounterPresets as readonly string[]).includes(counter)
+  );
+
+  function handleAddCustom(e: FormEvent) {
+    e.preventDefault();
+    const name = customName.trim().toLowerCase();
+    if (!name) return;
+    onChange(name, 1);
+    setCustomName("");
+  }
+
+  return (
+    <>
+      {/* Click outside closes the menu */}
+      <div
+        className="fixed inset-0 z-40"
+        onClick={onClose}
+        onContextMenu={(e) => {
+          e.preventDefault();
+          onClose();
+        }}
+      />
+
+      <div
+        className="fixed z-50 bg-[var(--background-secondary)] border border-[var(--border)] rounded-lg shadow-2xl py-2"
+        style={{
+          left: Math.max(8, Math.min(x, window.innerWidth - MENU_WIDTH - 8)),
+          top: Math.max(8, Math.min(y, window.innerHeight - 320)),
+          width: MENU_WIDTH,
+        }}
+      >
+        <div className="px-3 pb-1.5 mb-1 border-b border-[var(--border)] text-xs font-medium text-[var(--foreground)] truncate">
+          {card.hidden ? "Face-down card" : card.name}
+        </div>
+
+        {[...CardCounterPresets, ...custom].map((counter) => {
+          const value = card.counters[counter] || 0;
+
+          return (
+            <div key={counter} className="flex items-center gap-2 px-3 py-0.5 text-xs">
+              <span className="flex-grow capitalize text-[var(--foreground)] truncate">{counter}</span>
+              <CounterButton label={`Remove a ${counter} counter`} disabled={value === 0} onClick={() => onChange(counter, -1)}>
+                −
+              </CounterButton>
+              <span className="w-5 text-center font-bold text-[var(--foreground)]">{value}</span>
+              <CounterButton label={`Add a ${counter} counter`} onClick={() => onChange(counter, 1)}>
+                +
+              </CounterButton>
+            </div>
+          );
+        })}
+
+        {/* Custom counter */}
+        <form onSubmit={handleAddCustom} className="flex gap-1 px-3 pt-2 mt-1 border-t border-[var(--border)]">
+          <input
+            value={customName}
+            onChange={(e) => setCustomName(e.target.value)}
+            maxLength={MAX_COUNTER_NAME_LENGTH}
+            placeholder="Other counter…"
+            className="flex-grow min-w-0 px-2 py-1 rounded bg-[var(--surface)] border border-[var(--border)] text-xs text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)]"
+          />
+          <button
+            type="submit"
+            disabled={!customName.trim()}
+            className="px-2 rounded text-xs btn-primary text-white disabled:opacity-40 cursor-pointer"
+          >
+            Add
+          </button>
+        </form>
+      </div>
+    </>
+  );
+}
+
+interface CounterButtonProps {
+  label: string;
+  disabled?: boolean;
+  onClick: () => void;
+  children: string;
+}
+
+function CounterButton({ label, disabled, onClick, children }: CounterButtonProps) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      title={label}
+      className="w-5 h-5 rounded bg-[var(--surface)] border border-[var(--border)] text-[var(--foreground)] hover:border-[var(--accent-primary)] disabled:opacity-30 cursor-pointer disabled:cursor-default"
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { CommanderIdentity, GameState } from "@/lib/game";
+import { LETHAL_COMMANDER_DAMAGE } from "@/lib/game-reducer";
+
+interface CommanderDamageMatrixProps {
+  gameState: GameState;
+  currentUserId?: string;
+  onDealDamage: (targetPlayerId: string, commanderId: string, amount: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Overlay with the commander damage every player has taken from every
+ * commander, partners in separate columns. You can adjust damage dealt
+ * to you or by your own commanders.
+ */
+export function CommanderDamageMatrix({
+  gameState,
+  currentUserId,
+  onDealDamage,
+  onClose,
+}: CommanderDamageMatrixProps) {
+  const players = gameState.turnOrder
+    .map((userId) => gameState.players[userId])
+    .filter(Boolean);
+  const columns: { ownerId: string; commander: CommanderIdentity }[] = players.flatMap((player) =>
+    (player.commanders || []).map((commander) => ({ ownerId: player.userId, commander }))
+  );
+  const me = currentUserId ? gameState.players[currentUserId] : undefined;
+  const canEdit = !!me && !me.isEliminated && !gameState.mulligans;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-[var(--background-secondary)] border border-[var(--border)] rounded-2xl p-6 max-w-4xl w-full shadow-2xl overflow-x-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-[family-name:var(--font-cinzel)] text-xl font-semibold">
+            Commander Damage
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-lg text-[var(--foreground-muted)] hover:text-[var(--foreground)] hover:bg-[var(--surface-hover)] transition-colors cursor-pointer"
+          >
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr>
+              <th className="text-left font-normal text-xs text-[var(--foreground-muted)] pb-2">
+                Damage to ↓ / from →
+              </th>
+              {columns.map(({ ownerId, commander }) => (
+                <th key={commander.id} className="px-2 pb-2 font-normal" title={commander.name}>
+                  <img
+                    src={commander.imageUrl}
+                    alt={commander.name}
+                    className="w-10 h-14 mx-auto object-cover rounded border border-amber-500/50"
+                  />
+                  <span className="block mt-1 text-xs text-[var(--foreground-muted)] truncate max-w-[80px]">
+                    {gameState.players[ownerId]?.deckName}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {players.map((target) => (
+              <tr
+                key={target.userId}
+                className={`border-t border-[var(--border)] ${target.isEliminated ? "opacity-50" : ""}`}
+              >
+                <td className="py-2 pr-2 text-[var(--foreground)] whitespace-nowrap">
+                  {target.deckName}
+                  {target.userId === currentUserId && " (you)"}
+                  {target.isEliminated && (
+                    <span className="ml-2 text-xs text-red-400">Eliminated</span>
+                  )}
+                </td>
+                {columns.map(({ ownerId, commander }) => {
+                  if (ownerId === target.userId) {
+                    return (
+                      <td key={commander.id} className="text-center text-[var(--foreground-subtle)]">
+                        —
+                      </td>
+                    );
+                  }
+
+                  const damage = target.commanderDamage[commander.id] || 0;
+                  const editable =
+                    canEdit &&
+                    !target.isEliminated &&
+                    (target.userId === currentUserId || ownerId === currentUserId);
+
+                  return (
+                    <td key={commander.id} className="px-2 py-2">
+                      <div className="flex items-center justify-center gap-1">
+                        {editable && (
+                          <button
+                            onClick={() => onDealDamage(target.userId, commander.id, -1)}
+                            disabled={damage === 0}
+                            className="w-5 h-5 rounded text-xs text-[var(--foreground-muted)] hover:bg-[var(--surface-hover)] disabled:opacity-30 cursor-pointer"
+                          >
+                            −
+                          </button>
+                        )}
+                        <span
+                          className={`w-6 text-center font-bold ${
+                            damage >= LETHAL_COMMANDER_DAMAGE
+                              ? "text-red-400"
+                              : damage > 0
+                                ? "text-[var(--foreground)]"
+                                : "text-[var(--foreground-subtle)]"
+                          }`}
+                        >
+                          {damage}
+                        </span>
+                        {editable && (
+                          <button
+                            onClick={() => onDealDamage(target.userId, commander.id, 1)}
+                            className="w-5 h-5 rounded text-xs text-[var(--foreground-muted)] hover:bg-[var(--surface-hover)] cursor-pointer"
+                          >
+                            +
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <p className="mt-4 text-xs text-[var(--foreground-muted)]">
+          A player who takes {LETHAL_COMMANDER_DAMAGE} or more combat damage from a single commander
+          is eliminated.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// Icons
+// ============================================
+
+function CloseIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M18 6L6 18M6 6l12 12" />
+    </svg>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { GameState } from "@/lib/game";
+import { findCard } from "@/lib/game-reducer";
+
+interface CommanderReturnPromptProps {
+  gameState: GameState;
+  currentUserId?: string;
+  onReturn: (cardId: string) => void;
+  onDecline: (cardId: string) => void;
+}
+
+/**
+ * Asks a player whether a commander that was put into their graveyard or
+ * exile should go back to the command zone. Partners are asked one at a time.
+ */
+export function CommanderReturnPrompt({
+  gameState,
+  currentUserId,
+  onReturn,
+  onDecline,
+}: CommanderReturnPromptProps) {
+  const pending = currentUserId
+    ? gameState.players[currentUserId]?.pendingCommanderReturns || []
+    : [];
+  const location = pending.length > 0 ? findCard(gameState, pending[0]) : null;
+  if (!location) return null;
+
+  const { card, zone } = location;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" />
+
+      {/* Modal */}
+      <div className="relative bg-[var(--background-secondary)] border border-[var(--border)] rounded-2xl p-6 max-w-sm w-full shadow-2xl">
+        <h3 className="font-[family-name:var(--font-cinzel)] text-xl font-semibold mb-2">
+          Return Commander?
+        </h3>
+        <p className="text-sm text-[var(--foreground-muted)] mb-4">
+          {card.name} was put into your {zone}. Move it to the command zone instead?
+        </p>
+
+        <img
+          src={card.imageUrl}
+          alt={card.name}
+          className="w-32 mx-auto mb-6 rounded-lg shadow-lg border-2 border-amber-500/50"
+        />
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => onDecline(card.id)}
+            className="px-4 py-2 rounded-lg text-sm border border-[var(--border)] text-[var(--foreground)] hover:border-[var(--accent-primary)] transition-colors cursor-pointer"
+          >
+            Leave It
+          </button>
+          <button
+            onClick={() => onReturn(card.id)}
+            className="btn-primary px-4 py-2 rounded-lg text-sm text-white font-medium cursor-pointer"
+          >
+            Return to Command Zone
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
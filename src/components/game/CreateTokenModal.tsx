@@ -0,0 +1,183 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { getCardImageUrl, ScryfallCard, searchTokens } from "@/lib/scryfall";
+import { MAX_TOKENS_PER_ACTION } from "@/lib/game-reducer";
+
+/**
+ * Tokens that come up in most games, as Scryfall search queries.
+ */
+const COMMON_TOKENS: { label: string; query: string }[] = [
+  { label: "Treasure", query: '!"Treasure"' },
+  { label: "Food", query: '!"Food"' },
+  { label: "Clue", query: '!"Clue"' },
+  { label: "Blood", query: '!"Blood"' },
+  { label: "1/1 Soldier", query: '!"Soldier" pow=1 tou=1 c=w' },
+  { label: "1/1 Goblin", query: '!"Goblin" pow=1 tou=1 c=r' },
+  { label: "2/2 Zombie", query: '!"Zombie" pow=2 tou=2 c=b' },
+  { label: "1/1 Spirit", query: '!"Spirit" pow=1 tou=1 c=w kw:flying' },
+  { label: "3/3 Beast", query: '!"Beast" pow=3 tou=3 c=g' },
+  { label: "1/1 Thopter", query: '!"Thopter" pow=1 tou=1 kw:flying' },
+];
+
+interface CreateTokenModalProps {
+  onCreate: (token: ScryfallCard, count: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * Dialog for putting tokens onto your battlefield.
+ * Common tokens are one click away; anything else can be searched on Scryfall.
+ */
+export function CreateTokenModal({ onCreate, onClose }: CreateTokenModalProps) {
+  const [count, setCount] = useState(1);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<ScryfallCard[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function handleCreate(token: ScryfallCard) {
+    onCreate(token, count);
+    onClose();
+  }
+
+  async function handleCommonToken(tokenQuery: string) {
+    setIsLoading(true);
+    setError(null);
+
+    const [token] = await searchTokens(tokenQuery);
+    setIsLoading(false);
+
+    if (!token) {
+      setError("Token not found on Scryfall");
+      return;
+    }
+    handleCreate(token);
+  }
+
+  async function handleSearch(e: FormEvent) {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    const tokens = await searchTokens(query);
+    setResults(tokens);
+    setIsLoading(false);
+
+    if (tokens.length === 0) {
+      setError("No tokens found");
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-[var(--background-secondary)] border border-[var(--border)] rounded-2xl p-6 max-w-2xl w-full max-h-[85vh] flex flex-col shadow-2xl">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-[family-name:var(--font-cinzel)] text-xl font-semibold">
+            Create Token
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-lg text-[var(--foreground-muted)] hover:text-[var(--foreground)] hover:bg-[var(--surface-hover)] transition-colors cursor-pointer"
+          >
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Number of copies */}
+        <label className="flex items-center gap-2 mb-4 text-sm text-[var(--foreground-muted)]">
+          Copies
+          <input
+            type="number"
+            min={1}
+            max={MAX_TOKENS_PER_ACTION}
+            value={count}
+            onChange={(e) =>
+              setCount(Math.min(Math.max(Number(e.target.value) || 1, 1), MAX_TOKENS_PER_ACTION))
+            }
+            className="w-16 px-2 py-1 rounded-lg bg-[var(--surface)] border border-[var(--border)] text-[var(--foreground)]"
+          />
+        </label>
+
+        {/* Common tokens */}
+        <div className="flex flex-wrap gap-2 mb-4">
+          {COMMON_TOKENS.map((token) => (
+            <button
+              key={token.label}
+              onClick={() => handleCommonToken(token.query)}
+              disabled={isLoading}
+              className="px-3 py-1.5 rounded-lg text-sm border border-[var(--border)] text-[var(--foreground)] hover:border-[var(--accent-primary)] transition-colors cursor-pointer disabled:opacity-50"
+            >
+              {token.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Search */}
+        <form onSubmit={handleSearch} className="flex gap-2 mb-4">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder='Search tokens, e.g. "Angel pow=4"'
+            className="flex-grow px-3 py-2 rounded-lg bg-[var(--surface)] border border-[var(--border)] text-sm text-[var(--foreground)] placeholder:text-[var(--foreground-subtle)]"
+          />
+          <button
+            type="submit"
+            disabled={isLoading || !query.trim()}
+            className="btn-primary px-4 py-2 rounded-lg text-sm text-white font-medium cursor-pointer disabled:opacity-50"
+          >
+            Search
+          </button>
+        </form>
+
+        {error && <p className="text-sm text-red-400 mb-2">{error}</p>}
+        {isLoading && (
+          <div className="w-6 h-6 border-2 border-[var(--accent-primary)] border-t-transparent rounded-full animate-spin mx-auto my-4" />
+        )}
+
+        {/* Results */}
+        <div className="grid grid-cols-4 gap-2 overflow-y-auto">
+          {results.map((token) => (
+            <button
+              key={token.id}
+              onClick={() => handleCreate(token)}
+              title={`${token.name} — ${token.type_line}`}
+              className="rounded-lg overflow-hidden hover:ring-2 hover:ring-[var(--accent-primary)] transition-shadow cursor-pointer"
+            >
+              <img
+                src={getCardImageUrl(token, "normal")}
+                alt={token.name}
+                className="w-full object-cover"
+              />
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// Icons
+// ============================================
+
+function CloseIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M18 6L6 18M6 6l12 12" />
+    </svg>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { GameState } from "@/lib/game";
+
+interface DrawOfferOverlayProps {
+  gameState: GameState;
+  currentUserId?: string;
+  onRespond: (accept: boolean) => void;
+}
+
+/**
+ * Shown to the whole table while a draw offer is pending.
+ * It needs every player still in the game; the player who offered
+ * it can withdraw it.
+ */
+export function DrawOfferOverlay({ gameState, currentUserId, onRespond }: DrawOfferOverlayProps) {
+  const offer = gameState.drawOffer;
+  if (!offer) return null;
+
+  const isOfferer = offer.playerId === currentUserId;
+  const hasAccepted = !!currentUserId && offer.acceptedBy.includes(currentUserId);
+  const isEliminated = !!currentUserId && gameState.players[currentUserId]?.isEliminated;
+  const voters = gameState.turnOrder.filter((userId) => !gameState.players[userId]?.isEliminated);
+  const offerer = gameState.players[offer.playerId];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" />
+
+      {/* Modal */}
+      <div className="relative bg-[var(--background-secondary)] border border-[var(--border)] rounded-2xl p-6 max-w-md w-full shadow-2xl">
+        <h3 className="font-[family-name:var(--font-cinzel)] text-xl font-semibold mb-2">
+          Draw Offered
+        </h3>
+        <p className="text-sm text-[var(--foreground-muted)] mb-4">
+          {isOfferer
+            ? "You offered to end the game in a draw."
+            : `${offerer?.deckName || "A player"} offered to end the game in a draw.`}{" "}
+          Every player still in the game has to accept.
+        </p>
+
+        <p className="text-xs text-[var(--foreground-muted)] mb-4">
+          {offer.acceptedBy.length}/{voters.length} accepted
+        </p>
+
+        <div className="flex justify-end gap-2">
+          {isOfferer ? (
+            <button
+              onClick={() => onRespond(false)}
+              className="px-4 py-2 rounded-lg text-sm text-red-400 hover:bg-red-500/10 transition-colors cursor-pointer"
+            >
+              Withdraw Offer
+            </button>
+          ) : hasAccepted || isEliminated ? (
+            <span className="text-sm text-[var(--foreground-muted)]">
+              Waiting for the other players...
+            </span>
+          ) : (
+            <>
+              <button
+                onClick={() => onRespond(false)}
+                className="px-4 py-2 rounded-lg text-sm text-red-400 hover:bg-red-500/10 transition-colors cursor-pointer"
+              >
+                Decline
+              </button>
+              <button
+                onClick={() => onRespond(true)}
+                className="btn-primary px-4 py-2 rounded-lg text-sm text-white font-medium cursor-pointer"
+              >
+                Accept Draw
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
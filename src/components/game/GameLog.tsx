@@ -0,0 +1,70 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { GameLogEntry } from "@/lib/game";
+
+interface GameLogProps {
+  entries: GameLogEntry[];
+  currentUserId?: string;
+}
+
+/**
+ * Scrolling list of everything that happened in the game.
+ * Sticks to the newest entry unless the user has scrolled up.
+ */
+export function GameLog({ entries, currentUserId }: GameLogProps) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const stickToBottomRef = useRef(true);
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (list && stickToBottomRef.current) {
+      list.scrollTop = list.scrollHeight;
+    }
+  }, [entries]);
+
+  function handleScroll() {
+    const list = listRef.current;
+    if (!list) return;
+    stickToBottomRef.current = list.scrollHeight - list.scrollTop - list.clientHeight < 24;
+  }
+
+  return (
+    <div className="w-full h-full min-h-0 flex flex-col bg-[var(--surface)] rounded-xl border border-[var(--border)] overflow-hidden">
+      <div className="px-3 py-2 border-b border-[var(--border)] text-xs font-semibold uppercase tracking-wide text-[var(--foreground-muted)]">
+        Game Log
+      </div>
+
+      <div
+        ref={listRef}
+        onScroll={handleScroll}
+        className="flex-grow min-h-0 overflow-y-auto px-3 py-2 space-y-1 text-sm"
+      >
+        {entries.length === 0 ? (
+          <p className="text-[var(--foreground-muted)] text-xs">No actions yet</p>
+        ) : (
+          entries.map((entry) => (
+            <div key={entry.seq} className="flex gap-2">
+              <span className="text-xs text-[var(--foreground-muted)] tabular-nums pt-0.5 flex-shrink-0">
+                {formatTime(entry.createdAt)}
+              </span>
+              <span
+                className={
+                  entry.actorId === currentUserId
+                    ? "text-[var(--foreground)]"
+                    : "text-[var(--foreground-muted)]"
+                }
+              >
+                {entry.description}
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+function formatTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
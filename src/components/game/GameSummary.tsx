@@ -0,0 +1,225 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  GamePlayerRecord,
+  GameResultRecord,
+  GameState,
+  getGameResult,
+  requestRematch,
+} from "@/lib/game";
+import { leaveLobby } from "@/lib/lobbies";
+
+interface GameSummaryProps {
+  gameId: string;
+  lobbyId: string | null;
+  gameState: GameState;
+  players: GamePlayerRecord[];
+  currentUserId?: string;
+  isSpectator?: boolean; // Spectators get neither a rematch nor the replay
+}
+
+/**
+ * Post-game screen: final placements, turn count and duration, with a
+ * rematch in the same seats. It can be collapsed to look at the final
+ * board. Leaving gives up your seat in the lobby.
+ */
+export function GameSummary({
+  gameId,
+  lobbyId,
+  gameState,
+  players,
+  currentUserId,
+  isSpectator,
+}: GameSummaryProps) {
+  const router = useRouter();
+  const [result, setResult] = useState<GameResultRecord | null>(null);
+  const [collapsed, setCollapsed] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [rematchError, setRematchError] = useState<string | null>(null);
+
+  const isOver = !!gameState.result;
+
+  // The result is stored before the final action is broadcast
+  useEffect(() => {
+    if (!isOver) return;
+    getGameResult(gameId).then(setResult);
+  }, [gameId, isOver]);
+
+  if (!gameState.result) return null;
+
+  const { winnerId } = gameState.result;
+
+  const placements = [...gameState.turnOrder].sort(
+    (a, b) =>
+      (gameState.players[a]?.placement ?? gameState.turnOrder.length) -
+      (gameState.players[b]?.placement ?? gameState.turnOrder.length)
+  );
+
+  async function handleRematch() {
+    setIsBusy(true);
+    setRematchError(null);
+
+    // Back to the lobby to ready up, or straight into the rematch if it started
+    const rematch = await requestRematch(gameId);
+    if (rematch.success && rematch.data) {
+      router.push(
+        rematch.data.gameId ? `/game/${rematch.data.gameId}` : `/lobby/${rematch.data.lobbyId}`
+      );
+    } else {
+      setRematchError(rematch.error || "Failed to start rematch");
+      setIsBusy(false);
+    }
+  }
+
+  async function handleLeave() {
+    setIsBusy(true);
+    if (lobbyId && !isSpectator) {
+      await leaveLobby(lobbyId);
+    }
+    router.push("/game-finder");
+  }
+
+  if (collapsed) {
+    return (
+      <button
+        onClick={() => setCollapsed(false)}
+        className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 btn-primary px-4 py-2 rounded-full text-sm text-white font-medium shadow-xl cursor-pointer"
+      >
+        Game Over — Show Results
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" />
+
+      {/* Modal */}
+      <div className="relative bg-[var(--background-secondary)] border border-[var(--border)] rounded-2xl p-6 max-w-md w-full shadow-2xl">
+        <h3 className="font-[family-name:var(--font-cinzel)] text-2xl font-semibold text-center mb-1">
+          {winnerId === null ? "Draw" : winnerId === currentUserId ? "Victory" : "Game Over"}
+        </h3>
+        <p className="text-sm text-[var(--foreground-muted)] text-center mb-5">
+          {winnerId === null
+            ? "The remaining players agreed to a draw"
+            : `${describePlayer(players, winnerId, currentUserId)} won the game`}
+        </p>
+
+        {/* Placements */}
+        <ol className="space-y-1.5 mb-5">
+          {placements.map((userId) => {
+            const player = players.find((p) => p.user_id === userId);
+            const placement = gameState.players[userId]?.placement;
+
+            return (
+              <li
+                key={userId}
+                className={`flex items-center gap-3 px-3 py-2 rounded-lg border ${
+                  placement === 1
+                    ? "border-amber-500/50 bg-amber-500/10"
+                    : "border-[var(--border)] bg-[var(--surface)]"
+                }`}
+              >
+                <span className={`w-8 text-sm font-bold ${placement === 1 ? "text-amber-400" : "text-[var(--foreground-muted)]"}`}>
+                  {placement ? ordinal(placement) : "—"}
+                </span>
+                {player?.commander_image_url && (
+                  <img
+                    src={player.commander_image_url}
+                    alt={player.commander_name}
+                    className="w-8 h-8 rounded-full object-cover object-top"
+                  />
+                )}
+                <div className="min-w-0">
+                  <div className="text-sm text-[var(--foreground)] truncate">
+                    {describePlayer(players, userId, currentUserId)}
+                  </div>
+                  <div className="text-xs text-[var(--foreground-muted)] truncate">
+                    {player?.commander_name}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+
+        {/* Stats */}
+        <div className="flex justify-center gap-8 mb-6 text-center">
+          <div>
+            <div className="text-lg font-semibold text-[var(--foreground)]">
+              {result?.turn_count ?? gameState.turnNumber}
+            </div>
+            <div className="text-xs text-[var(--foreground-muted)]">Turns</div>
+          </div>
+          <div>
+            <div className="text-lg font-semibold text-[var(--foreground)]">
+              {result ? formatDuration(result.duration_seconds) : "—"}
+            </div>
+            <div className="text-xs text-[var(--foreground-muted)]">Duration</div>
+          </div>
+        </div>
+
+        {rematchError && <p className="text-sm text-red-400 text-center mb-3">{rematchError}</p>}
+
+        <div className="flex flex-col gap-2">
+          {lobbyId && !isSpectator && (
+            <button
+              onClick={handleRematch}
+              disabled={isBusy}
+              title="Back to the lobby with the same seats and decks; swap decks and ready up for the next game"
+              className="btn-primary px-4 py-2 rounded-lg text-sm text-white font-medium disabled:opacity-50 cursor-pointer"
+            >
+              {result?.rematch_game_id ? "Join Rematch" : "Rematch with Same Seats"}
+            </button>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={() => setCollapsed(true)}
+              className="flex-1 px-4 py-2 rounded-lg text-sm border border-[var(--border)] text-[var(--foreground)] hover:border-[var(--accent-primary)] transition-colors cursor-pointer"
+            >
+              View Table
+            </button>
+            {!isSpectator && (
+              <button
+                onClick={() => router.push(`/game/${gameId}/replay`)}
+                className="flex-1 px-4 py-2 rounded-lg text-sm border border-[var(--border)] text-[var(--foreground)] hover:border-[var(--accent-primary)] transition-colors cursor-pointer"
+              >
+                Watch Replay
+              </button>
+            )}
+            <button
+              onClick={handleLeave}
+              disabled={isBusy}
+              title={isSpectator ? "Stop watching" : "Leave the table and give up your seat for a rematch"}
+              className="flex-1 px-4 py-2 rounded-lg text-sm border border-[var(--border)] text-[var(--foreground)] hover:border-[var(--accent-primary)] transition-colors cursor-pointer disabled:opacity-50"
+            >
+              Leave
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function describePlayer(players: GamePlayerRecord[], userId: string, currentUserId?: string): string {
+  if (userId === currentUserId) return "You";
+  return players.find((p) => p.user_id === userId)?.deck_name || "A player";
+}
+
+function ordinal(placement: number): string {
+  return `${placement}${["th", "st", "nd", "rd"][placement] || "th"}`;
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
@@ -0,0 +1,248 @@
+"use client";
+
+import { ReactNode, useCallback } from "react";
+import { AfkVoteKind, GamePlayerRecord, GameState, PlayerCounterType, Zone } from "@/lib/game";
+import type { GamePresence } from "@/lib/game-presence";
+import { CardDropHandler } from "./card-drag";
+import { PlayerBattlefield } from "./PlayerBattlefield";
+import { TargetHandler, Targeting } from "./targeting";
+
+interface GameTableProps {
+  players: GamePlayerRecord[];
+  gameState: GameState | null;
+  viewerId?: string; // Player seated at the bottom; spectators see the first seat there
+  presence?: GamePresence | null;
+  bottomRight?: ReactNode;
+  center?: ReactNode; // Shown in the middle of the table
+  onCastCommander?: (cardId: string) => void;
+  onPlayerCounterChange?: (playerId: string, counter: PlayerCounterType, delta: number) => void;
+  onLibraryClick?: () => void; // The viewer's own library
+  onZoneClick?: (playerId: string, zone: Zone) => void;
+  onCardDrop?: CardDropHandler; // Drops on the viewer's own seat
+  onCardMove?: (cardId: string, x: number, y: number) => void;
+  onTapCards?: (cardIds: string[], tapped: boolean) => void;
+  targeting?: Targeting | null;
+  onTarget?: TargetHandler;
+  onStartTargeting?: (targeting: Targeting) => void; // From the viewer's own seat
+  onDetach?: (cardId: string) => void;
+  onCardCounterChange?: (cardId: string, counter: string, delta: number) => void;
+  onTransform?: (cardIds: string[]) => void;
+  onStartAfkVote?: (targetId: string, kind: AfkVoteKind) => void;
+}
+
+/**
+ * The play area: every player's battlefield arranged around the shared
+ * battlefield, rotated so the viewer sits at the bottom.
+ */
+export function GameTable({
+  players,
+  gameState,
+  viewerId,
+  presence,
+  bottomRight,
+  center,
+  onCastCommander,
+  onPlayerCounterChange,
+  onLibraryClick,
+  onZoneClick,
+  onCardDrop,
+  onCardMove,
+  onTapCards,
+  targeting,
+  onTarget,
+  onStartTargeting,
+  onDetach,
+  onCardCounterChange,
+  onTransform,
+  onStartAfkVote,
+}: GameTableProps) {
+  // Determine player positions relative to current user
+  const getRelativePosition = useCallback(
+    (playerPosition: number): "bottom" | "right" | "top" | "left" => {
+      const currentPlayer = players.find((p) => p.user_id === viewerId) ?? players[0];
+      if (!currentPlayer) return "bottom";
+
+      const currentPos = currentPlayer.position;
+      const relativePos = (playerPosition - currentPos + 4) % 4;
+
+      const positions: ("bottom" | "right" | "top" | "left")[] = [
+        "bottom",
+        "right",
+        "top",
+        "left",
+      ];
+      return positions[relativePos];
+    },
+    [players, viewerId]
+  );
+
+  // Sort players by relative position
+  const sortedPlayers = [...players].sort((a, b) => {
+    const posA = getRelativePosition(a.position);
+    const posB = getRelativePosition(b.position);
+    const order = { bottom: 0, right: 1, top: 2, left: 3 };
+    return order[posA] - order[posB];
+  });
+
+  const topPlayer = sortedPlayers.find(
+    (p) => getRelativePosition(p.position) === "top"
+  );
+  const leftPlayer = sortedPlayers.find(
+    (p) => getRelativePosition(p.position) === "left"
+  );
+  const rightPlayer = sortedPlayers.find(
+    (p) => getRelativePosition(p.position) === "right"
+  );
+  const bottomPlayer = sortedPlayers.find(
+    (p) => getRelativePosition(p.position) === "bottom"
+  );
+
+  return (
+    <div className="flex-grow grid grid-rows-[1fr_2fr_1fr] grid-cols-[1fr_2fr_1fr] gap-2 p-2">
+      {/* Top-left corner (empty) */}
+      <div />
+
+      {/* Top player */}
+      <div className="flex items-start justify-center">
+        {topPlayer && (
+          <PlayerBattlefield
+            player={topPlayer}
+            gameState={gameState}
+            isCurrentPlayer={topPlayer.user_id === viewerId}
+            position="top"
+            onCastCommander={onCastCommander}
+            onPlayerCounterChange={onPlayerCounterChange}
+            onLibraryClick={topPlayer.user_id === viewerId ? onLibraryClick : undefined}
+            onZoneClick={onZoneClick && ((zone) => onZoneClick(topPlayer.user_id, zone))}
+            onCardDrop={topPlayer.user_id === viewerId ? onCardDrop : undefined}
+            onCardMove={onCardMove}
+            onTapCards={onTapCards}
+            targeting={targeting}
+            onTarget={onTarget}
+            onStartTargeting={topPlayer.user_id === viewerId ? onStartTargeting : undefined}
+            onDetach={onDetach}
+            onCardCounterChange={onCardCounterChange}
+            onTransform={onTransform}
+            presence={presence}
+            onStartAfkVote={
+              onStartAfkVote && topPlayer.user_id !== viewerId
+                ? (kind) => onStartAfkVote(topPlayer.user_id, kind)
+                : undefined
+            }
+          />
+        )}
+      </div>
+
+      {/* Top-right corner (empty) */}
+      <div />
+
+      {/* Left player */}
+      <div className="flex items-center justify-start">
+        {leftPlayer && (
+          <PlayerBattlefield
+            player={leftPlayer}
+            gameState={gameState}
+            isCurrentPlayer={leftPlayer.user_id === viewerId}
+            position="left"
+            onCastCommander={onCastCommander}
+            onPlayerCounterChange={onPlayerCounterChange}
+            onLibraryClick={leftPlayer.user_id === viewerId ? onLibraryClick : undefined}
+            onZoneClick={onZoneClick && ((zone) => onZoneClick(leftPlayer.user_id, zone))}
+            onCardDrop={leftPlayer.user_id === viewerId ? onCardDrop : undefined}
+            onCardMove={onCardMove}
+            onTapCards={onTapCards}
+            targeting={targeting}
+            onTarget={onTarget}
+            onStartTargeting={leftPlayer.user_id === viewerId ? onStartTargeting : undefined}
+            onDetach={onDetach}
+            onCardCounterChange={onCardCounterChange}
+            onTransform={onTransform}
+            presence={presence}
+            onStartAfkVote={
+              onStartAfkVote && leftPlayer.user_id !== viewerId
+                ? (kind) => onStartAfkVote(leftPlayer.user_id, kind)
+                : undefined
+            }
+          />
+        )}
+      </div>
+
+      {/* Center battlefield */}
+      <div className="bg-gradient-to-br from-emerald-900/20 to-emerald-800/10 rounded-xl border border-emerald-700/30 flex items-center justify-center min-h-0">
+        {center ?? (
+          <span className="text-emerald-600/50 text-lg font-medium">
+            Shared Battlefield
+          </span>
+        )}
+      </div>
+
+      {/* Right player */}
+      <div className="flex items-center justify-end">
+        {rightPlayer && (
+          <PlayerBattlefield
+            player={rightPlayer}
+            gameState={gameState}
+            isCurrentPlayer={rightPlayer.user_id === viewerId}
+            position="right"
+            onCastCommander={onCastCommander}
+            onPlayerCounterChange={onPlayerCounterChange}
+            onLibraryClick={rightPlayer.user_id === viewerId ? onLibraryClick : undefined}
+            onZoneClick={onZoneClick && ((zone) => onZoneClick(rightPlayer.user_id, zone))}
+            onCardDrop={rightPlayer.user_id === viewerId ? onCardDrop : undefined}
+            onCardMove={onCardMove}
+            onTapCards={onTapCards}
+            targeting={targeting}
+            onTarget={onTarget}
+            onStartTargeting={rightPlayer.user_id === viewerId ? onStartTargeting : undefined}
+            onDetach={onDetach}
+            onCardCounterChange={onCardCounterChange}
+            onTransform={onTransform}
+            presence={presence}
+            onStartAfkVote={
+              onStartAfkVote && rightPlayer.user_id !== viewerId
+                ? (kind) => onStartAfkVote(rightPlayer.user_id, kind)
+                : undefined
+            }
+          />
+        )}
+      </div>
+
+      {/* Bottom-left corner (empty) */}
+      <div />
+
+      {/* Bottom player (current player) */}
+      <div className="flex items-end justify-center">
+        {bottomPlayer && (
+          <PlayerBattlefield
+            player={bottomPlayer}
+            gameState={gameState}
+            isCurrentPlayer={bottomPlayer.user_id === viewerId}
+            position="bottom"
+            onCastCommander={onCastCommander}
+            onPlayerCounterChange={onPlayerCounterChange}
+            onLibraryClick={bottomPlayer.user_id === viewerId ? onLibraryClick : undefined}
+            onZoneClick={onZoneClick && ((zone) => onZoneClick(bottomPlayer.user_id, zone))}
+            onCardDrop={bottomPlayer.user_id === viewerId ? onCardDrop : undefined}
+            onCardMove={onCardMove}
+            onTapCards={onTapCards}
+            targeting={targeting}
+            onTarget={onTarget}
+            onStartTargeting={bottomPlayer.user_id === viewerId ? onStartTargeting : undefined}
+            onDetach={onDetach}
+            onCardCounterChange={onCardCounterChange}
+            onTransform={onTransform}
+            presence={presence}
+            onStartAfkVote={
+              onStartAfkVote && bottomPlayer.user_id !== viewerId
+                ? (kind) => onStartAfkVote(bottomPlayer.user_id, kind)
+                : undefined
+            }
+          />
+        )}
+      </div>
+
+      {/* Bottom-right corner */}
+      <div className="flex min-h-0">{bottomRight}</div>
+    </div>
+  );
+}
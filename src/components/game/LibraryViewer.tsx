@@ -0,0 +1,239 @@
+"use client";
+
+import { ReactNode, useState } from "react";
+import { GameCard, GameState, Zone } from "@/lib/game";
+
+type Placement = "top" | "bottom";
+
+interface LibraryViewerProps {
+  gameState: GameState;
+  currentUserId: string;
+  onLook: (count?: number, reveal?: boolean) => void;
+  onFinish: (top: string[], bottom: string[]) => void;
+  onMill: (count: number) => void;
+  onShuffle: () => void;
+  onMoveCard: (cardId: string, toZone: Zone) => void;
+  onReveal: (cardId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Library tools for the current player: search, look at or reveal the
+ * top X cards, scry them to the top or bottom, surveil or mill into the
+ * graveyard, and tutor cards out. Key it by whether a view is open so the
+ * scry order resets for every new look.
+ */
+export function LibraryViewer({
+  gameState,
+  currentUserId,
+  onLook,
+  onFinish,
+  onMill,
+  onShuffle,
+  onMoveCard,
+  onReveal,
+  onClose,
+}: LibraryViewerProps) {
+  const [count, setCount] = useState(1);
+  const [filter, setFilter] = useState("");
+  const [placements, setPlacements] = useState<{ cardId: string; placement: Placement }[]>([]);
+
+  const player = gameState.players[currentUserId];
+  if (!player) return null;
+
+  const view = player.libraryView;
+  const library = player.zones.library;
+  const isSearching = !!view && view.count === undefined;
+
+  // Cards in your library you can currently see
+  const looked = library.filter((card) => !card.hidden);
+  const shown = isSearching
+    ? looked.filter((card) => card.name.toLowerCase().includes(filter.trim().toLowerCase()))
+    : looked;
+
+  function handlePlace(cardId: string, placement: Placement) {
+    setPlacements((current) => {
+      const existing = current.find((p) => p.cardId === cardId);
+      const rest = current.filter((p) => p.cardId !== cardId);
+      return existing?.placement === placement ? rest : [...rest, { cardId, placement }];
+    });
+  }
+
+  function handleFinish() {
+    const inLibrary = (cardId: string) => library.some((card) => card.id === cardId);
+    onFinish(
+      placements.filter((p) => p.placement === "top" && inLibrary(p.cardId)).map((p) => p.cardId),
+      placements.filter((p) => p.placement === "bottom" && inLibrary(p.cardId)).map((p) => p.cardId)
+    );
+  }
+
+  function placementLabel(card: GameCard): string | null {
+    const ofType = (placement: Placement) => placements.filter((p) => p.placement === placement);
+    const top = ofType("top").findIndex((p) => p.cardId === card.id);
+    if (top >= 0) return `Top ${top + 1}`;
+    const bottom = ofType("bottom").findIndex((p) => p.cardId === card.id);
+    if (bottom >= 0) return `Bottom ${bottom + 1}`;
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={view ? undefined : onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-[var(--background-secondary)] border border-[var(--border)] rounded-2xl p-6 max-w-4xl w-full max-h-[85vh] flex flex-col shadow-2xl">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-[family-name:var(--font-cinzel)] text-xl font-semibold">
+            {isSearching
+              ? "Search Library"
+              : view
+                ? `Top ${view.count} of Library${view.reveal ? " (revealed)" : ""}`
+                : "Library"}
+          </h3>
+          {!view && (
+            <button
+              onClick={onClose}
+              className="p-1 rounded-lg text-[var(--foreground-muted)] hover:text-[var(--foreground)] hover:bg-[var(--surface-hover)] transition-colors cursor-pointer"
+            >
+              <CloseIcon className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+
+        {!view ? (
+          /* Tools */
+          <div className="space-y-4">
+            <p className="text-sm text-[var(--foreground-muted)]">
+              {library.length} card{library.length === 1 ? "" : "s"} in your library.
+            </p>
+
+            <label className="flex items-center gap-2 text-sm text-[var(--foreground-muted)]">
+              X =
+              <input
+                type="number"
+                min={1}
+                max={Math.max(library.length, 1)}
+                value={count}
+                onChange={(e) => setCount(Math.max(Number(e.target.value) || 1, 1))}
+                className="w-16 px-2 py-1 rounded-lg bg-[var(--surface)] border border-[var(--border)] text-[var(--foreground)]"
+              />
+            </label>
+
+            <div className="flex flex-wrap gap-2">
+              <ToolButton onClick={() => onLook(count)}>Look at top {count}</ToolButton>
+              <ToolButton onClick={() => onLook(count, true)}>Reveal top {count}</ToolButton>
+              <ToolButton onClick={() => onMill(count)}>Mill {count}</ToolButton>
+              <ToolButton onClick={() => onLook()}>Search library</ToolButton>
+              <ToolButton onClick={onShuffle}>Shuffle</ToolButton>
+            </div>
+          </div>
+        ) : (
+          <>
+            {isSearching ? (
+              <input
+                type="text"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="Filter by name"
+                className="mb-4 px-3 py-2 rounded-lg bg-[var(--surface)] border border-[var(--border)] text-sm text-[var(--foreground)] placeholder:text-[var(--foreground-subtle)]"
+              />
+            ) : (
+              <p className="mb-4 text-sm text-[var(--foreground-muted)]">
+                Mark cards for the top or bottom in the order they should go (scry), or
+                send them to the graveyard (surveil). Unmarked cards stay on top.
+              </p>
+            )}
+
+            {/* Cards */}
+            <div className="grid grid-cols-5 gap-3 overflow-y-auto mb-4">
+              {shown.map((card) => {
+                const label = placementLabel(card);
+                return (
+                  <div key={card.id} className="flex flex-col gap-1">
+                    <div className="relative">
+                      <img
+                        src={card.imageUrl}
+                        alt={card.name}
+                        className={`w-full rounded-lg shadow-lg ${label ? "ring-2 ring-[var(--accent-tertiary)]" : ""}`}
+                      />
+                      {label && (
+                        <span className="absolute top-1 right-1 px-1.5 rounded-full bg-[var(--accent-tertiary)] text-black text-[10px] font-bold">
+                          {label}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {!isSearching && (
+                        <>
+                          <CardButton onClick={() => handlePlace(card.id, "top")}>Top</CardButton>
+                          <CardButton onClick={() => handlePlace(card.id, "bottom")}>Bottom</CardButton>
+                        </>
+                      )}
+                      <CardButton onClick={() => onMoveCard(card.id, "hand")}>Hand</CardButton>
+                      <CardButton onClick={() => onMoveCard(card.id, "battlefield")}>Battlefield</CardButton>
+                      <CardButton onClick={() => onMoveCard(card.id, "graveyard")}>Graveyard</CardButton>
+                      <CardButton onClick={() => onMoveCard(card.id, "exile")}>Exile</CardButton>
+                      {!view.reveal && <CardButton onClick={() => onReveal(card.id)}>Reveal</CardButton>}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                onClick={handleFinish}
+                className="btn-primary px-4 py-2 rounded-lg text-sm text-white font-medium cursor-pointer"
+              >
+                {isSearching ? "Done (shuffle library)" : "Done"}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ToolButton({ onClick, children }: { onClick: () => void; children: ReactNode }) {
+  return (
+    <button
+      onClick={onClick}
+      className="px-3 py-1.5 rounded-lg text-sm border border-[var(--border)] text-[var(--foreground)] hover:border-[var(--accent-primary)] transition-colors cursor-pointer"
+    >
+      {children}
+    </button>
+  );
+}
+
+function CardButton({ onClick, children }: { onClick: () => void; children: ReactNode }) {
+  return (
+    <button
+      onClick={onClick}
+      className="px-1.5 py-0.5 rounded text-[10px] border border-[var(--border)] text-[var(--foreground-muted)] hover:text-[var(--foreground)] hover:border-[var(--accent-primary)] cursor-pointer"
+    >
+      {children}
+    </button>
+  );
+}
+
+// ============================================
+// Icons
+// ============================================
+
+function CloseIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M18 6L6 18M6 6l12 12" />
+    </svg>
+  );
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import { useState } from "react";
+import { AfkVoteKind, GameState } from "@/lib/game";
+import { canMulligan, cardsToBottom, FREE_MULLIGANS } from "@/lib/game-reducer";
+import type { GamePresence } from "@/lib/game-presence";
+import { SeatConnection } from "./SeatConnection";
+
+interface MulliganOverlayProps {
+  gameState: GameState;
+  currentUserId?: string;
+  presence?: GamePresence | null;
+  onMulligan: () => void;
+  onKeep: (bottomCardIds: string[]) => void;
+  onStartAfkVote?: (targetId: string, kind: AfkVoteKind) => void;
+}
+
+/**
+ * Pre-game screen where every player keeps or mulligans their opening hand.
+ * After a paid mulligan the player picks which cards go to the bottom.
+ * Key it by the player's mulligan count so the selection resets on a new hand.
+ * A player who stays away can be voted out from the table status.
+ */
+export function MulliganOverlay({
+  gameState,
+  currentUserId,
+  presence,
+  onMulligan,
+  onKeep,
+  onStartAfkVote,
+}: MulliganOverlayProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const mulligans = gameState.mulligans;
+  if (!mulligans) return null;
+
+  const status = currentUserId ? mulligans[currentUserId] : undefined;
+  const hand = currentUserId ? gameState.players[currentUserId]?.zones.hand || [] : [];
+  const toBottom = status ? cardsToBottom(status) : 0;
+  const nextIsFree = !!status && status.mulligans < FREE_MULLIGANS;
+
+  function handleToggleCard(cardId: string) {
+    setSelected((current) => {
+      if (current.includes(cardId)) return current.filter((id) => id !== cardId);
+      if (current.length >= toBottom) return current;
+      return [...current, cardId];
+    });
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" />
+
+      {/* Modal */}
+      <div className="relative bg-[var(--background-secondary)] border border-[var(--border)] rounded-2xl p-6 max-w-3xl w-full shadow-2xl">
+        <h3 className="font-[family-name:var(--font-cinzel)] text-xl font-semibold mb-1">
+          Opening Hand
+        </h3>
+        <p className="text-sm text-[var(--foreground-muted)] mb-4">
+          Turn order:{" "}
+          {gameState.turnOrder
+            .map((userId) => gameState.players[userId]?.deckName || "Player")
+            .join(" → ")}
+        </p>
+
+        {/* Your hand */}
+        {status && !status.kept && (
+          <>
+            <p className="text-sm text-[var(--foreground)] mb-3">
+              {toBottom > 0
+                ? `Choose ${toBottom} card${toBottom === 1 ? "" : "s"} to put on the bottom of your library (${selected.length}/${toBottom}).`
+                : status.mulligans > 0
+                  ? "Your first mulligan was free. Keep this hand or mulligan again."
+                  : "Keep this hand or take a free mulligan."}
+            </p>
+
+            <div className="flex flex-wrap justify-center gap-2 mb-6">
+              {hand.map((card) => {
+                const order = selected.indexOf(card.id);
+                return (
+                  <button
+                    key={card.id}
+                    onClick={() => toBottom > 0 && handleToggleCard(card.id)}
+                    className={`relative w-24 h-34 rounded-lg overflow-hidden transition-transform ${
+                      toBottom > 0 ? "cursor-pointer hover:-translate-y-1" : "cursor-default"
+                    } ${order >= 0 ? "ring-2 ring-[var(--accent-tertiary)] opacity-60" : ""}`}
+                  >
+                    <img src={card.imageUrl} alt={card.name} className="w-full h-full object-cover" />
+                    {order >= 0 && (
+                      <span className="absolute top-1 right-1 w-5 h-5 rounded-full bg-[var(--accent-tertiary)] text-black text-xs font-bold flex items-center justify-center">
+                        {order + 1}
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+
+            <div className="flex justify-end gap-2 mb-4">
+              <button
+                onClick={onMulligan}
+                disabled={!canMulligan(status)}
+                className="px-4 py-2 rounded-lg text-sm border border-[var(--border)] text-[var(--foreground)] hover:border-[var(--accent-primary)] transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {nextIsFree ? "Mulligan (free)" : "Mulligan"}
+              </button>
+              <button
+                onClick={() => onKeep(selected)}
+                disabled={selected.length !== toBottom}
+                className="btn-primary px-4 py-2 rounded-lg text-sm text-white font-medium cursor-pointer disabled:opacity-50"
+              >
+                Keep
+              </button>
+            </div>
+          </>
+        )}
+
+        {/* Table status */}
+        <ul className="space-y-1 text-sm">
+          {gameState.turnOrder.map((userId) => {
+            const player = gameState.players[userId];
+            const playerStatus = mulligans[userId];
+            return (
+              <li key={userId} className="flex justify-between">
+                <div className="flex items-center gap-2 text-[var(--foreground)]">
+                  {player?.deckName || "Player"}
+                  {userId === currentUserId && " (you)"}
+                  {presence && (
+                    <SeatConnection
+                      userId={userId}
+                      gameState={gameState}
+                      presence={presence}
+                      onStartVote={
+                        onStartAfkVote && userId !== currentUserId
+                          ? (kind) => onStartAfkVote(userId, kind)
+                          : undefined
+                      }
+                    />
+                  )}
+                </div>
+                <span className="text-[var(--foreground-muted)]">
+                  {player?.isEliminated
+                    ? "Conceded"
+                    : playerStatus?.kept
+                      ? `Kept ${player?.zones.hand.length ?? 0}`
+                      : `Deciding${playerStatus?.mulligans ? ` (${playerStatus.mulligans} mulligan${playerStatus.mulligans === 1 ? "" : "s"})` : ""}`}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import {
+  DEFAULT_AUTO_STOPS,
+  GAME_PHASE_LABELS,
+  GamePhase,
+  GameState,
+} from "@/lib/game";
+
+/**
+ * Steps grouped by the phase they belong to.
+ */
+const PHASE_GROUPS: { name: string; steps: GamePhase[] }[] = [
+  { name: "Beginning", steps: ["untap", "upkeep", "draw"] },
+  { name: "Main", steps: ["main1"] },
+  {
+    name: "Combat",
+    steps: ["beginning_of_combat", "declare_attackers", "declare_blockers", "combat_damage", "end_of_combat"],
+  },
+  { name: "Main", steps: ["main2"] },
+  { name: "Ending", steps: ["end", "cleanup"] },
+];
+
+/**
+ * Steps that cannot be toggled: untap never stops, main phases always do.
+ */
+const FIXED_STEPS: GamePhase[] = ["untap", "main1", "main2"];
+
+interface PhaseTrackerProps {
+  gameState: GameState;
+  currentUserId?: string;
+  onPassPriority: () => void;
+  onNextStep: () => void;
+  onPassTurn: () => void;
+  onAutoStopsChange: (phases: GamePhase[]) => void;
+}
+
+/**
+ * Shows the current step of the turn and who holds priority.
+ * Clicking a step toggles your auto-stop on it.
+ */
+export function PhaseTracker({
+  gameState,
+  currentUserId,
+  onPassPriority,
+  onNextStep,
+  onPassTurn,
+  onAutoStopsChange,
+}: PhaseTrackerProps) {
+  const me = currentUserId ? gameState.players[currentUserId] : undefined;
+  const autoStops = me?.autoStops ?? DEFAULT_AUTO_STOPS;
+  const hasPriority = gameState.priorityPlayerId === currentUserId;
+  const isActivePlayer = gameState.activePlayerId === currentUserId;
+  const priorityPlayer = gameState.players[gameState.priorityPlayerId];
+  const stackEmpty = !gameState.stack?.length; // The turn cannot move on until it resolves
+
+  function handleToggle(phase: GamePhase) {
+    if (!me || FIXED_STEPS.includes(phase)) return;
+
+    onAutoStopsChange(
+      autoStops.includes(phase)
+        ? autoStops.filter((p) => p !== phase)
+        : [...autoStops, phase]
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-2 bg-[var(--surface)]/60 border-b border-[var(--border)]">
+      {/* Steps */}
+      <div className="flex items-center gap-3 overflow-x-auto">
+        {PHASE_GROUPS.map((group, groupIndex) => (
+          <div key={groupIndex} aria-label={group.name} className="flex items-center gap-1">
+            {group.steps.map((phase) => {
+              const isCurrent = gameState.phase === phase;
+              const hasStop = FIXED_STEPS.includes(phase) ? phase !== "untap" : autoStops.includes(phase);
+
+              return (
+                <button
+                  key={phase}
+                  onClick={() => handleToggle(phase)}
+                  title={
+                    FIXED_STEPS.includes(phase)
+                      ? GAME_PHASE_LABELS[phase]
+                      : `${GAME_PHASE_LABELS[phase]} (click to ${hasStop ? "remove" : "add"} your auto-stop)`
+                  }
+                  className={`relative px-2 py-1 rounded-md text-xs whitespace-nowrap transition-colors ${
+                    isCurrent
+                      ? "bg-[var(--accent-primary)] text-white"
+                      : "text-[var(--foreground-muted)] hover:bg-[var(--surface-hover)]"
+                  } ${FIXED_STEPS.includes(phase) ? "cursor-default" : "cursor-pointer"}`}
+                >
+                  {GAME_PHASE_LABELS[phase]}
+                  {hasStop && (
+                    <span className="absolute -top-0.5 -right-0.5 w-1.5 h-1.5 rounded-full bg-[var(--accent-tertiary)]" />
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      {/* Priority */}
+      <div className="flex items-center gap-2 flex-shrink-0">
+        <span className="text-xs text-[var(--foreground-muted)]">
+          {hasPriority ? "You have priority" : `${priorityPlayer?.deckName || "A player"} has priority`}
+        </span>
+        {hasPriority && (
+          <button
+            onClick={onPassPriority}
+            className="btn-primary px-3 py-1 rounded-lg text-xs text-white font-medium cursor-pointer"
+          >
+            Pass Priority
+          </button>
+        )}
+        {isActivePlayer && (
+          <button
+            onClick={onNextStep}
+            disabled={!stackEmpty}
+            className="px-3 py-1 rounded-lg text-xs border border-[var(--border)] text-[var(--foreground)] hover:border-[var(--accent-primary)] transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-default"
+          >
+            Next Step
+          </button>
+        )}
+        {isActivePlayer && (
+          <button
+            onClick={onPassTurn}
+            disabled={!stackEmpty}
+            className="px-3 py-1 rounded-lg text-xs border border-[var(--border)] text-[var(--foreground)] hover:border-[var(--accent-primary)] transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-default"
+          >
+            End Turn
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+"use client";
+
+import { DragEvent, useState } from "react";
+import { AfkVoteKind, GameCard, GamePlayerRecord, GameState, PlayerCounterType, Zone } from "@/lib/game";
+import { getCommanderTax } from "@/lib/game-reducer";
+import type { GamePresence } from "@/lib/game-presence";
+import { BattlefieldArea } from "./BattlefieldArea";
+import {
+  allowCardDrop,
+  CardDestination,
+  CardDropHandler,
+  getDraggedCard,
+  setDraggedCard,
+} from "./card-drag";
+import { PlayerCounters } from "./PlayerCounters";
+import { SeatConnection } from "./SeatConnection";
+import { playerTargetProps, TargetHandler, Targeting } from "./targeting";
+
+// ============================================
+// Player Position Layout
+// ============================================
+// Position 0 = Bottom (current player)
+// Position 1 = Right
+// Position 2 = Top
+// Position 3 = Left
+
+export interface PlayerBattlefieldProps {
+  player: GamePlayerRecord;
+  gameState: GameState | null;
+  isCurrentPlayer: boolean;
+  position: "bottom" | "right" | "top" | "left";
+  onCardMove?: (cardId: string, x: number, y: number) => void;
+  onCastCommander?: (cardId: string) => void;
+  onPlayerCounterChange?: (playerId: string, counter: PlayerCounterType, delta: number) => void;
+  onLibraryClick?: () => void;
+  onZoneClick?: (zone: Zone) => void;
+  onCardDrop?: CardDropHandler; // Only set for the viewer's own seat
+  onTapCards?: (cardIds: string[], tapped: boolean) => void;
+  targeting?: Targeting | null;
+  onTarget?: TargetHandler;
+  onStartTargeting?: (targeting: Targeting) => void; // Only set for the viewer's own seat
+  onDetach?: (cardId: string) => void;
+  onCardCounterChange?: (cardId: string, counter: string, delta: number) => void;
+  onTransform?: (cardIds: string[]) => void;
+  presence?: GamePresence | null;
+  onStartAfkVote?: (kind: AfkVoteKind) => void; // Only set for other players' seats
+}
+
+export function PlayerBattlefield({
+  player,
+  gameState,
+  isCurrentPlayer,
+  position,
+  onCardMove,
+  onCastCommander,
+  onPlayerCounterChange,
+  onLibraryClick,
+  onZoneClick,
+  onCardDrop,
+  onTapCards,
+  targeting,
+  onTarget,
+  onStartTargeting,
+  onDetach,
+  onCardCounterChange,
+  onTransform,
+  presence,
+  onStartAfkVote,
+}: PlayerBattlefieldProps) {
+  const playerState = gameState?.players[player.user_id];
+  const commandZone = playerState?.zones.command || [];
+  const battlefield = playerState?.zones.battlefield || [];
+  const hand = playerState?.zones.hand || [];
+  const libraryCount = playerState?.zones.library.length || 0;
+  const [selection, setSelection] = useState<string[]>([]);
+  const graveyard = playerState?.zones.graveyard || [];
+  const exile = playerState?.zones.exile || [];
+
+  // Cards that left the battlefield drop out of the selection
+  const selectedIds = selection.filter((id) => battlefield.some((card) => card.id === id));
+
+  function handleDrop(e: DragEvent<HTMLElement>, destination: CardDestination) {
+    e.preventDefault();
+    const cardId = getDraggedCard(e);
+    if (!cardId || !onCardDrop) return;
+
+    // Dropping one selected card moves the whole selection
+    const cardIds = selectedIds.includes(cardId) ? selectedIds : [cardId];
+    cardIds.forEach((id) => onCardDrop(id, destination));
+  }
+
+  const dropProps = (destination: CardDestination) =>
+    onCardDrop
+      ? { onDragOver: allowCardDrop, onDrop: (e: DragEvent<HTMLElement>) => handleDrop(e, destination) }
+      : {};
+
+  // Position-based styling
+  const positionStyles: Record<string, string> = {
+    bottom: "flex-row",
+    top: "flex-row-reverse rotate-180",
+    left: "flex-col-reverse -rotate-90",
+    right: "flex-col rotate-90",
+  };
+
+  const isRotated = position === "left" || position === "right";
+
+  return (
+    <div
+      className={`relative flex ${positionStyles[position]} items-end gap-4 p-4 ${
+        isCurrentPlayer ? "bg-[var(--accent-primary)]/5" : ""
+      }`}
+      style={{
+        transformOrigin: "center center",
+      }}
+    >
+      <div className="flex-grow flex flex-col gap-2">
+        {/* Battlefield area */}
+        <BattlefieldArea
+          cards={battlefield}
+          interactive={!!onCardDrop}
+          emptyLabel={isCurrentPlayer ? "Your Battlefield" : player.deck_name}
+          className={isRotated ? "min-w-[200px]" : ""}
+          selectedIds={selectedIds}
+          onSelectionChange={setSelection}
+          onMove={(moves) => moves.forEach((move) => onCardMove?.(move.cardId, move.x, move.y))}
+          onDropCard={(cardId, dropPosition) => onCardDrop?.(cardId, "battlefield", dropPosition)}
+          onTap={onTapCards}
+          targeting={targeting}
+          onTarget={onTarget && ((cardId) => onTarget({ cardId }))}
+          onStartTargeting={onStartTargeting}
+          onDetach={onDetach}
+          onCounterChange={onCardCounterChange}
+          onTransform={onTransform}
+        />
+
+        {/* Hand - card backs for opponents */}
+        <div {...dropProps("hand")} className="flex items-center gap-2 min-h-[56px]">
+          <div className="flex">
+            {hand.map((card, index) => {
+              // Modal double-faced cards can be turned over before they are played
+              const canTransform = !!onCardDrop && !!onTransform && (card.faces?.length || 0) > 1;
+
+              return (
+                <div
+                  key={card.id}
+                  draggable={!!onCardDrop && !card.hidden}
+                  onDragStart={(e) => setDraggedCard(e, card.id)}
+                  onDoubleClick={canTransform ? () => onTransform([card.id]) : undefined}
+                  className={`w-10 h-14 rounded shadow-md ${index > 0 ? "-ml-4" : ""} ${
+                    onCardDrop ? "cursor-grab hover:-translate-y-1 transition-transform" : ""
+                  }`}
+                  title={card.hidden ? undefined : `${card.name}${canTransform ? " (double-click to transform)" : ""}`}
+                >
+                  {card.hidden ? (
+                    <div className="w-full h-full rounded bg-gradient-to-br from-[var(--accent-primary)] to-[var(--accent-secondary)] border border-[var(--border)]" />
+                  ) : (
+                    <img
+                      src={card.imageUrl}
+                      alt={card.name}
+                      className={`w-full h-full object-cover rounded ${
+                        card.faces?.[card.faceIndex || 0]?.rotated ? "rotate-180" : ""
+                      }`}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <span className="text-xs text-[var(--foreground-muted)]">
+            {hand.length} in hand
+          </span>
+        </div>
+      </div>
+
+      {/* Deck and Command Zone area */}
+      <div className="flex flex-col gap-2 items-center">
+        {/* Commander(s) - Command Zone */}
+        <div className="flex gap-1">
+          {commandZone.map((card) => {
+            const tax = playerState ? getCommanderTax(playerState, card.id) : 0;
+            const casts = playerState?.commanderCasts?.[card.id] || 0;
+            const canCast = isCurrentPlayer && !!onCastCommander;
+
+            return (
+              <button
+                key={card.id}
+                onClick={() => (canCast ? onCastCommander(card.id) : onZoneClick?.("command"))}
+                disabled={!canCast && !onZoneClick}
+                title={`${card.name} — cast ${casts} time${casts === 1 ? "" : "s"}, tax ${tax}${canCast ? " (click to cast)" : ""}`}
+                className={`relative group ${canCast || onZoneClick ? "cursor-pointer hover:-translate-y-0.5 transition-transform" : "cursor-default"}`}
+              >
+                <img
+                  src={card.imageUrl}
+                  alt={card.name}
+                  className="w-14 h-20 object-cover rounded-md shadow-lg border-2 border-amber-500/50"
+                />
+                {/* Commander indicator */}
+                <div className="absolute -top-1 -right-1 w-4 h-4 bg-amber-500 rounded-full flex items-center justify-center">
+                  <CrownIcon className="w-2.5 h-2.5 text-black" />
+                </div>
+                {/* Commander tax */}
+                {tax > 0 && (
+                  <div className="absolute -bottom-1 left-1/2 -translate-x-1/2 px-1.5 rounded-full bg-black/80 text-amber-400 text-[10px] font-bold">
+                    +{tax}
+                  </div>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Library (Deck) */}
+        <div className="relative">
+          <button
+            {...dropProps("library-top")}
+            onClick={onLibraryClick}
+            disabled={!onLibraryClick}
+            title={onLibraryClick ? "Library tools" : undefined}
+            className={`w-14 h-20 bg-gradient-to-br from-[var(--accent-primary)] to-[var(--accent-secondary)] rounded-md shadow-lg flex items-center justify-center ${
+              onLibraryClick ? "cursor-pointer hover:brightness-110" : "cursor-default"
+            }`}
+          >
+            <span className="text-white font-bold text-lg">{libraryCount}</span>
+          </button>
+          <div className="absolute -bottom-1 left-1 w-14 h-20 bg-[var(--surface)] rounded-md -z-10" />
+          <div className="absolute -bottom-2 left-2 w-14 h-20 bg-[var(--surface)]/50 rounded-md -z-20" />
+        </div>
+
+        {/* Graveyard and exile */}
+        <div className="flex gap-1">
+          <ZonePile
+            label="Graveyard"
+            cards={graveyard}
+            onClick={onZoneClick && (() => onZoneClick("graveyard"))}
+            {...dropProps("graveyard")}
+          />
+          <ZonePile
+            label="Exile"
+            cards={exile}
+            onClick={onZoneClick && (() => onZoneClick("exile"))}
+            {...dropProps("exile")}
+          />
+        </div>
+
+        {/* Player info - an arrow target while targeting */}
+        <div
+          {...playerTargetProps(player.user_id)}
+          onClick={targeting ? () => onTarget?.({ playerId: player.user_id }) : undefined}
+          className={`relative text-center mt-1 px-1 rounded-md ${
+            targeting ? "cursor-crosshair hover:ring-2 hover:ring-[var(--accent-tertiary)]" : ""
+          }`}
+        >
+          <div className="text-2xl font-bold text-[var(--foreground)]">
+            {playerState?.lifeTotal || 40}
+          </div>
+          <div className="text-xs text-[var(--foreground-muted)] truncate max-w-[80px]">
+            {player.deck_name}
+          </div>
+          {gameState && presence && (
+            <SeatConnection
+              userId={player.user_id}
+              gameState={gameState}
+              presence={presence}
+              onStartVote={onStartAfkVote}
+            />
+          )}
+          {onStartTargeting && !targeting && (
+            <button
+              onClick={() => onStartTargeting({ kind: "arrow", source: { playerId: player.user_id } })}
+              title="Draw an arrow from yourself"
+              className="absolute -top-1 -right-4 p-0.5 rounded text-[var(--foreground-muted)] hover:text-[var(--accent-tertiary)] cursor-pointer"
+            >
+              <ArrowIcon className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+
+        {/* Player counters */}
+        {playerState && (
+          <PlayerCounters
+            player={playerState}
+            isCurrentPlayer={isCurrentPlayer}
+            onChange={
+              onPlayerCounterChange &&
+              ((counter, delta) => onPlayerCounterChange(player.user_id, counter, delta))
+            }
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// Zone Piles
+// ============================================
+
+interface ZonePileProps {
+  label: string;
+  cards: GameCard[];
+  onClick?: () => void;
+  onDragOver?: (e: DragEvent<HTMLElement>) => void;
+  onDrop?: (e: DragEvent<HTMLElement>) => void;
+}
+
+/**
+ * A face-up pile showing its top card and card count.
+ */
+function ZonePile({ label, cards, onClick, onDragOver, onDrop }: ZonePileProps) {
+  const top = cards[0];
+
+  return (
+    <button
+      onClick={onClick}
+      onDragOver={onDragOver}
+      onDrop={onDrop}
+      disabled={!onClick}
+      title={`${label} (${cards.length})`}
+      className="relative w-10 h-14 rounded border border-dashed border-[var(--border)] overflow-hidden cursor-pointer disabled:cursor-default"
+    >
+      {top && (top.hidden ? (
+        <div className="w-full h-full bg-gradient-to-br from-[var(--accent-primary)] to-[var(--accent-secondary)]" />
+      ) : (
+        <img src={top.imageUrl} alt={top.name} className="w-full h-full object-cover" />
+      ))}
+      <span className="absolute bottom-0 inset-x-0 bg-black/70 text-[10px] text-white text-center">
+        {cards.length}
+      </span>
+    </button>
+  );
+}
+
+// ============================================
+// Icons
+// ============================================
+
+function ArrowIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M5 19L19 5M9 5h10v10" />
+    </svg>
+  );
+}
+
+function CrownIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="currentColor"
+      stroke="none"
+    >
+      <path d="M5 16L3 5l5.5 5L12 4l3.5 6L21 5l-2 11H5z" />
+    </svg>
+  );
+}
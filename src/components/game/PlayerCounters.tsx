@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from "react";
+import {
+  GamePlayer,
+  PLAYER_COUNTER_LABELS,
+  PlayerCounterType,
+  PlayerCounterTypes,
+} from "@/lib/game";
+import { LETHAL_POISON_COUNTERS } from "@/lib/game-reducer";
+
+const COUNTER_COLORS: Record<PlayerCounterType, string> = {
+  poison: "bg-green-600/80 text-white",
+  energy: "bg-yellow-400/80 text-black",
+  experience: "bg-sky-500/80 text-white",
+  rad: "bg-lime-400/80 text-black",
+  ticket: "bg-pink-500/80 text-white",
+};
+
+interface PlayerCountersProps {
+  player: GamePlayer;
+  isCurrentPlayer: boolean;
+  onChange?: (counter: PlayerCounterType, delta: number) => void;
+}
+
+/**
+ * Badges for a player's poison, energy and other counters.
+ * You can change all of your own counters and give opponents poison.
+ * Click a badge to add one, right-click to remove one.
+ */
+export function PlayerCounters({ player, isCurrentPlayer, onChange }: PlayerCountersProps) {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+
+  const counters = player.counters || {};
+  const canEdit = (counter: PlayerCounterType) =>
+    !!onChange && !player.isEliminated && (isCurrentPlayer || counter === "poison");
+  const addable = PlayerCounterTypes.filter((counter) => !counters[counter] && canEdit(counter));
+
+  function handleAdd(counter: PlayerCounterType) {
+    setIsMenuOpen(false);
+    onChange?.(counter, 1);
+  }
+
+  return (
+    <div className="relative flex flex-wrap justify-center gap-1 max-w-[80px]">
+      {PlayerCounterTypes.filter((counter) => counters[counter]).map((counter) => {
+        const value = counters[counter]!;
+        const editable = canEdit(counter);
+
+        return (
+          <button
+            key={counter}
+            onClick={() => editable && onChange?.(counter, 1)}
+            onContextMenu={(e) => {
+              if (!editable) return;
+              e.preventDefault();
+              onChange?.(counter, -1);
+            }}
+            title={`${PLAYER_COUNTER_LABELS[counter]}: ${value}${
+              counter === "poison" ? ` of ${LETHAL_POISON_COUNTERS}` : ""
+            }${editable ? " (click +1, right-click −1)" : ""}`}
+            className={`px-1.5 rounded-full text-[10px] font-bold ${COUNTER_COLORS[counter]} ${
+              editable ? "cursor-pointer" : "cursor-default"
+            }`}
+          >
+            {PLAYER_COUNTER_LABELS[counter].charAt(0)}
+            {value}
+          </button>
+        );
+      })}
+
+      {addable.length > 0 && (
+        <button
+          onClick={() => setIsMenuOpen((open) => !open)}
+          title="Add a counter"
+          className="px-1.5 rounded-full text-[10px] font-bold border border-[var(--border)] text-[var(--foreground-muted)] hover:text-[var(--foreground)] cursor-pointer"
+        >
+          +
+        </button>
+      )}
+
+      {isMenuOpen && (
+        <>
+          {/* Click outside closes the menu */}
+          <div className="fixed inset-0 z-40" onClick={() => setIsMenuOpen(false)} />
+
+          <div className="absolute bottom-full mb-1 z-50 min-w-[120px] bg-[var(--background-secondary)] border border-[var(--border)] rounded-lg shadow-2xl py-1">
+            {addable.map((counter) => (
+              <button
+                key={counter}
+                onClick={() => handleAdd(counter)}
+                className="w-full text-left px-3 py-1 text-xs text-[var(--foreground)] hover:bg-[var(--surface-hover)] cursor-pointer"
+              >
+                {PLAYER_COUNTER_LABELS[counter]}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
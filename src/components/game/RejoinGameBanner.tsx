@@ -0,0 +1,47 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { useAuth } from "@/hooks/useAuth";
+import { getCurrentGame } from "@/lib/game";
+
+/**
+ * Banner on every page while the user has a game in progress, so they
+ * can get back to the table after closing the tab or navigating away.
+ * Hidden on the game itself.
+ */
+export function RejoinGameBanner() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { user } = useAuth();
+  const [gameId, setGameId] = useState<string | null>(null);
+
+  // Checked again on every navigation, as the game may have ended meanwhile
+  useEffect(() => {
+    if (!user) return;
+    getCurrentGame().then(setGameId);
+  }, [user, pathname]);
+
+  if (!user || !gameId || pathname?.startsWith(`/game/${gameId}`)) {
+    return null;
+  }
+
+  return (
+    <div className="bg-[var(--accent-primary)]/15 border-b border-[var(--accent-primary)]/40">
+      <div className="max-w-7xl mx-auto px-4 py-2 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 min-w-0">
+          <div className="w-2.5 h-2.5 rounded-full bg-green-500 animate-pulse flex-shrink-0" />
+          <span className="text-sm text-[var(--foreground)] truncate">
+            You have a game in progress
+          </span>
+        </div>
+        <button
+          onClick={() => router.push(`/game/${gameId}`)}
+          className="btn-primary px-4 py-1.5 rounded-lg text-sm text-white font-medium cursor-pointer flex-shrink-0"
+        >
+          Rejoin
+        </button>
+      </div>
+    </div>
+  );
+}
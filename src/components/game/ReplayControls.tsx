@@ -0,0 +1,144 @@
+"use client";
+
+import { GamePlayerRecord } from "@/lib/game";
+
+interface ReplayControlsProps {
+  frameIndex: number;
+  frameCount: number;
+  turnNumber: number;
+  turnCount: number;
+  isPlaying: boolean;
+  players: GamePlayerRecord[];
+  perspective: string | null; // null = every card revealed
+  onPlayPause: () => void;
+  onSeek: (frameIndex: number) => void;
+  onJumpToTurn: (turnNumber: number) => void;
+  onPerspectiveChange: (perspective: string | null) => void;
+}
+
+/**
+ * Playback bar for the replay viewer: play/pause, single steps,
+ * a timeline scrubber, turn jumps and the perspective picker.
+ */
+export function ReplayControls({
+  frameIndex,
+  frameCount,
+  turnNumber,
+  turnCount,
+  isPlaying,
+  players,
+  perspective,
+  onPlayPause,
+  onSeek,
+  onJumpToTurn,
+  onPerspectiveChange,
+}: ReplayControlsProps) {
+  const lastFrame = frameCount - 1;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 px-4 py-2 bg-[var(--surface)] border-t border-[var(--border)]">
+      {/* Playback */}
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => onSeek(frameIndex - 1)}
+          disabled={frameIndex <= 0}
+          className="p-2 rounded-lg hover:bg-[var(--surface-hover)] disabled:opacity-40 cursor-pointer"
+          title="Step back"
+        >
+          <StepBackIcon className="w-4 h-4" />
+        </button>
+        <button
+          onClick={onPlayPause}
+          className="btn-primary p-2 rounded-lg text-white cursor-pointer"
+          title={isPlaying ? "Pause" : "Play"}
+        >
+          {isPlaying ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+        </button>
+        <button
+          onClick={() => onSeek(frameIndex + 1)}
+          disabled={frameIndex >= lastFrame}
+          className="p-2 rounded-lg hover:bg-[var(--surface-hover)] disabled:opacity-40 cursor-pointer"
+          title="Step forward"
+        >
+          <StepForwardIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Timeline */}
+      <input
+        type="range"
+        min={0}
+        max={lastFrame}
+        value={frameIndex}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        className="flex-grow min-w-[160px] accent-[var(--accent-primary)]"
+      />
+      <span className="text-xs text-[var(--foreground-muted)] tabular-nums">
+        {frameIndex}/{lastFrame}
+      </span>
+
+      {/* Turn */}
+      <select
+        value={turnNumber}
+        onChange={(e) => onJumpToTurn(Number(e.target.value))}
+        className="px-2 py-1 rounded-lg bg-[var(--background)] border border-[var(--border)] text-sm"
+      >
+        {Array.from({ length: turnCount }, (_, i) => i + 1).map((turn) => (
+          <option key={turn} value={turn}>
+            Turn {turn}
+          </option>
+        ))}
+      </select>
+
+      {/* Perspective */}
+      <select
+        value={perspective ?? ""}
+        onChange={(e) => onPerspectiveChange(e.target.value || null)}
+        className="px-2 py-1 rounded-lg bg-[var(--background)] border border-[var(--border)] text-sm"
+      >
+        <option value="">All cards revealed</option>
+        {players.map((player) => (
+          <option key={player.user_id} value={player.user_id}>
+            As seen by {player.deck_name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+// ============================================
+// Icons
+// ============================================
+
+function PlayIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="currentColor" stroke="none">
+      <path d="M7 4.5v15l12-7.5-12-7.5z" />
+    </svg>
+  );
+}
+
+function PauseIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="currentColor" stroke="none">
+      <path d="M6 4h4v16H6zM14 4h4v16h-4z" />
+    </svg>
+  );
+}
+
+function StepBackIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="currentColor" stroke="none">
+      <path d="M6 5h2v14H6zM20 5v14L9 12l11-7z" />
+    </svg>
+  );
+}
+
+function StepForwardIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="currentColor" stroke="none">
+      <path d="M16 5h2v14h-2zM4 5v14l11-7L4 5z" />
+    </svg>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AfkVoteKind, GameState } from "@/lib/game";
+import { canSkipTurn, hasTimedOut } from "@/lib/game-reducer";
+import {
+  GamePresence,
+  getAwayTime,
+  getConnection,
+  getConnectionStatus,
+  isAfk,
+} from "@/lib/game-presence";
+
+interface SeatConnectionProps {
+  userId: string;
+  gameState: GameState;
+  presence: GamePresence;
+  onStartVote?: (kind: AfkVoteKind) => void; // Only set for other players' seats
+}
+
+/**
+ * A seat's connection: connected, reconnecting during the grace period,
+ * or disconnected, with how long they have been away. Once they have been
+ * away for the AFK timeout, the table can vote to skip or remove them,
+ * as long as the game has been waiting on them all that time.
+ */
+export function SeatConnection({ userId, gameState, presence, onStartVote }: SeatConnectionProps) {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (gameState.result || gameState.players[userId]?.isEliminated) return null;
+
+  const status = getConnectionStatus(getConnection(presence, userId), now);
+  const awayTime = getAwayTime(gameState, presence, userId, now);
+  const afk = isAfk(gameState, presence, userId, now);
+  const canVote = !!onStartVote && !gameState.afkVote && hasTimedOut(gameState, userId, now);
+
+  const label = afk
+    ? "AFK"
+    : status === "reconnecting"
+      ? "Reconnecting"
+      : status === "disconnected"
+        ? "Disconnected"
+        : null;
+
+  return (
+    <div className="flex flex-col items-center gap-0.5">
+      <div
+        title={status === "online" ? "Connected" : `Gone for ${formatAwayTime(awayTime)}`}
+        className="flex items-center gap-1 text-[10px] text-[var(--foreground-muted)]"
+      >
+        <span
+          className={`w-2 h-2 rounded-full ${
+            status === "online"
+              ? "bg-green-500"
+              : status === "reconnecting"
+                ? "bg-amber-400 animate-pulse"
+                : "bg-red-500"
+          }`}
+        />
+        {label && (
+          <span className={afk || status === "disconnected" ? "text-red-400" : "text-amber-400"}>
+            {label} {formatAwayTime(awayTime)}
+          </span>
+        )}
+      </div>
+
+      {canVote && (
+        <div className="flex gap-1">
+          {canSkipTurn(gameState, userId) && (
+            <button
+              onClick={() => onStartVote("skip")}
+              title="Call a vote to skip their turn"
+              className="px-1.5 py-0.5 rounded text-[10px] border border-[var(--border)] text-[var(--foreground-muted)] hover:text-[var(--foreground)] hover:border-[var(--accent-primary)] cursor-pointer"
+            >
+              Skip
+            </button>
+          )}
+          <button
+            onClick={() => onStartVote("remove")}
+            title="Call a vote to remove them from the game"
+            className="px-1.5 py-0.5 rounded text-[10px] border border-red-500/40 text-red-400 hover:bg-red-500/10 cursor-pointer"
+          >
+            Remove
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function formatAwayTime(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { DragEvent, FormEvent, useState } from "react";
+import { GameState, MAX_STACK_TEXT_LENGTH } from "@/lib/game";
+import { allowCardDrop, getDraggedCard } from "./card-drag";
+
+interface StackZoneProps {
+  gameState: GameState;
+  currentUserId?: string;
+  onCastSpell: (cardId: string) => void;
+  onAddAbility: (text: string) => void;
+  onRemove: (itemId: string) => void;
+}
+
+/**
+ * The shared stack, newest item on top, and who still has to pass
+ * priority before it resolves. Drop a card from your hand here to cast
+ * it, or type an activated or triggered ability.
+ */
+export function StackZone({
+  gameState,
+  currentUserId,
+  onCastSpell,
+  onAddAbility,
+  onRemove,
+}: StackZoneProps) {
+  const [abilityText, setAbilityText] = useState("");
+  const stack = gameState.stack || [];
+  const me = currentUserId ? gameState.players[currentUserId] : undefined;
+  const canAct = !!me && !me.isEliminated;
+  const seats = gameState.turnOrder.filter((userId) => !gameState.players[userId]?.isEliminated);
+
+  function handleDrop(e: DragEvent<HTMLElement>) {
+    e.preventDefault();
+    const cardId = getDraggedCard(e);
+
+    // Only cards in your hand can be cast
+    if (cardId && me?.zones.hand.some((card) => card.id === cardId)) {
+      onCastSpell(cardId);
+    }
+  }
+
+  function handleAddAbility(e: FormEvent) {
+    e.preventDefault();
+    const text = abilityText.trim();
+    if (!text) return;
+    onAddAbility(text);
+    setAbilityText("");
+  }
+
+  return (
+    <div
+      onDragOver={canAct ? allowCardDrop : undefined}
+      onDrop={canAct ? handleDrop : undefined}
+      className="w-full h-full flex flex-col gap-2 p-3 min-h-0"
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-emerald-500/80">
+          Stack{stack.length > 0 ? ` (${stack.length})` : ""}
+        </span>
+
+        {/* Priority passes, in turn order */}
+        {stack.length > 0 && (
+          <div className="flex items-center gap-1" title="Everyone has to pass in a row before the top item resolves">
+            {seats.map((userId) => {
+              const holding = gameState.priorityPlayerId === userId;
+              const passed = gameState.priorityPasses.includes(userId);
+
+              return (
+                <span
+                  key={userId}
+                  className={`flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-[10px] border ${
+                    holding
+                      ? "border-amber-400 bg-amber-400/20 text-amber-300"
+                      : passed
+                        ? "border-emerald-700/50 text-emerald-500"
+                        : "border-[var(--border)] text-[var(--foreground-muted)]"
+                  }`}
+                >
+                  {passed && <CheckIcon className="w-2.5 h-2.5" />}
+                  {userId === currentUserId ? "You" : gameState.players[userId]?.deckName || "Player"}
+                </span>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Items, top of the stack first */}
+      <div className="flex-grow overflow-y-auto flex flex-col gap-1 min-h-0">
+        {stack.length === 0 ? (
+          <div className="flex-grow flex items-center justify-center text-xs text-emerald-600/50 text-center">
+            {canAct ? "Drop a card from your hand here to cast it" : "The stack is empty"}
+          </div>
+        ) : (
+          stack.map((item, index) => (
+            <div
+              key={item.id}
+              className={`flex items-center gap-2 px-2 py-1 rounded-md border text-xs ${
+                index === 0
+                  ? "border-amber-400/60 bg-[var(--surface)]"
+                  : "border-[var(--border)] bg-[var(--surface)]/60"
+              }`}
+            >
+              {item.card?.imageUrl ? (
+                <img src={item.card.imageUrl} alt={item.text} className="w-6 h-8 object-cover rounded-sm flex-shrink-0" />
+              ) : (
+                <div className="w-6 h-8 rounded-sm flex-shrink-0 flex items-center justify-center bg-[var(--background-secondary)] text-[var(--accent-tertiary)]">
+                  <BoltIcon className="w-3.5 h-3.5" />
+                </div>
+              )}
+              <div className="flex-grow min-w-0">
+                <div className="text-[var(--foreground)] truncate" title={item.text}>
+                  {item.text}
+                </div>
+                <div className="text-[10px] text-[var(--foreground-muted)]">
+                  {item.kind === "spell" ? "Spell" : "Ability"} ·{" "}
+                  {item.playerId === currentUserId ? "you" : gameState.players[item.playerId]?.deckName || "a player"}
+                </div>
+              </div>
+              {canAct && (
+                <button
+                  onClick={() => onRemove(item.id)}
+                  title={item.kind === "spell" ? "Counter this spell" : "Remove from the stack"}
+                  className="p-0.5 rounded text-[var(--foreground-muted)] hover:text-red-400 cursor-pointer"
+                >
+                  <CloseIcon className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Activated or triggered ability */}
+      {canAct && (
+        <form onSubmit={handleAddAbility} className="flex gap-1">
+          <input
+            value={abilityText}
+            onChange={(e) => setAbilityText(e.target.value)}
+            maxLength={MAX_STACK_TEXT_LENGTH}
+            placeholder="Ability or trigger…"
+            className="flex-grow min-w-0 px-2 py-1 rounded bg-[var(--surface)] border border-[var(--border)] text-xs text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)]"
+          />
+          <button
+            type="submit"
+            disabled={!abilityText.trim()}
+            className="px-2 rounded text-xs btn-primary text-white disabled:opacity-40 cursor-pointer"
+          >
+            Add
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+// ============================================
+// Icons
+// ============================================
+
+function BoltIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="currentColor">
+      <path d="M13 2L4 14h7l-1 8 9-12h-7z" />
+    </svg>
+  );
+}
+
+function CheckIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={3}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M5 12l5 5L20 7" />
+    </svg>
+  );
+}
+
+function CloseIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M18 6L6 18M6 6l12 12" />
+    </svg>
+  );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useState } from "react";
+
+const UNDO_COUNTS = [1, 2, 3, 5];
+
+interface UndoRequestButtonProps {
+  disabled?: boolean;
+  onRequest: (count: number) => void;
+}
+
+/**
+ * Header button for asking the table to roll back your latest actions.
+ */
+export function UndoRequestButton({ disabled, onRequest }: UndoRequestButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  function handleSelect(count: number) {
+    setIsOpen(false);
+    onRequest(count);
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={disabled}
+        className="text-sm text-[var(--foreground-muted)] hover:text-[var(--foreground)] disabled:opacity-40"
+      >
+        Undo
+      </button>
+
+      {isOpen && (
+        <>
+          {/* Click outside closes the menu */}
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+
+          <div className="absolute left-0 top-full mt-2 z-50 min-w-[180px] bg-[var(--background-secondary)] border border-[var(--border)] rounded-lg shadow-2xl py-1">
+            {UNDO_COUNTS.map((count) => (
+              <button
+                key={count}
+                onClick={() => handleSelect(count)}
+                className="w-full text-left px-3 py-1.5 text-sm text-[var(--foreground)] hover:bg-[var(--surface-hover)] cursor-pointer"
+              >
+                {count === 1 ? "Undo my last action" : `Undo my last ${count} actions`}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
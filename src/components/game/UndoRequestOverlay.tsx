@@ -0,0 +1,98 @@
+"use client";
+
+import { GameActionTypes, GameLogEntry, GameState } from "@/lib/game";
+
+interface UndoRequestOverlayProps {
+  gameState: GameState;
+  logEntries: GameLogEntry[];
+  currentUserId?: string;
+  onRespond: (approve: boolean) => void;
+}
+
+/**
+ * Shown to the whole table while an undo request is pending.
+ * Other players approve or reject it; the requester can withdraw it.
+ */
+export function UndoRequestOverlay({
+  gameState,
+  logEntries,
+  currentUserId,
+  onRespond,
+}: UndoRequestOverlayProps) {
+  const request = gameState.undoRequest;
+  if (!request) return null;
+
+  const isRequester = request.playerId === currentUserId;
+  const hasApproved = !!currentUserId && request.approvedBy.includes(currentUserId);
+  const isEliminated = !!currentUserId && gameState.players[currentUserId]?.isEliminated;
+  const voters = gameState.turnOrder.filter(
+    (userId) => userId !== request.playerId && !gameState.players[userId]?.isEliminated
+  );
+
+  const requestEntry = logEntries.findLast(
+    (entry) => entry.type === GameActionTypes.REQUEST_UNDO && entry.actorId === request.playerId
+  );
+  const undoneEntries = logEntries.filter((entry) => request.seqs.includes(entry.seq));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" />
+
+      {/* Modal */}
+      <div className="relative bg-[var(--background-secondary)] border border-[var(--border)] rounded-2xl p-6 max-w-md w-full shadow-2xl">
+        <h3 className="font-[family-name:var(--font-cinzel)] text-xl font-semibold mb-2">
+          Undo Requested
+        </h3>
+        <p className="text-sm text-[var(--foreground-muted)] mb-4">
+          {requestEntry?.description || "A player asked to undo their last actions"}
+        </p>
+
+        {/* Actions that would be rolled back */}
+        {undoneEntries.length > 0 && (
+          <ul className="mb-4 space-y-1 text-sm bg-[var(--surface)] rounded-lg border border-[var(--border)] p-3">
+            {undoneEntries.map((entry) => (
+              <li key={entry.seq} className="text-[var(--foreground)]">
+                {entry.description}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <p className="text-xs text-[var(--foreground-muted)] mb-4">
+          {request.approvedBy.length}/{voters.length} approved
+        </p>
+
+        <div className="flex justify-end gap-2">
+          {isRequester ? (
+            <button
+              onClick={() => onRespond(false)}
+              className="px-4 py-2 rounded-lg text-sm text-red-400 hover:bg-red-500/10 transition-colors cursor-pointer"
+            >
+              Withdraw Request
+            </button>
+          ) : hasApproved || isEliminated ? (
+            <span className="text-sm text-[var(--foreground-muted)]">
+              Waiting for the other players...
+            </span>
+          ) : (
+            <>
+              <button
+                onClick={() => onRespond(false)}
+                className="px-4 py-2 rounded-lg text-sm text-red-400 hover:bg-red-500/10 transition-colors cursor-pointer"
+              >
+                Reject
+              </button>
+              <button
+                onClick={() => onRespond(true)}
+                className="btn-primary px-4 py-2 rounded-lg text-sm text-white font-medium cursor-pointer"
+              >
+                Approve
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
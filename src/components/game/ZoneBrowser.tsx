@@ -0,0 +1,164 @@
+"use client";
+
+import { DragEvent, useState } from "react";
+import { GameCard, GameState, Zone } from "@/lib/game";
+import {
+  allowCardDrop,
+  CardDestination,
+  CardDropHandler,
+  getDraggedCard,
+  setDraggedCard,
+} from "./card-drag";
+
+const ZONE_NAMES: Record<Zone, string> = {
+  library: "Library",
+  hand: "Hand",
+  battlefield: "Battlefield",
+  graveyard: "Graveyard",
+  exile: "Exile",
+  command: "Command Zone",
+};
+
+const DESTINATIONS: { destination: CardDestination; label: string }[] = [
+  { destination: "hand", label: "Hand" },
+  { destination: "library-top", label: "Library (top)" },
+  { destination: "library-bottom", label: "Library (bottom)" },
+  { destination: "graveyard", label: "Graveyard" },
+  { destination: "exile", label: "Exile" },
+];
+
+interface ZoneBrowserProps {
+  gameState: GameState;
+  playerId: string;
+  zone: Zone;
+  currentUserId?: string;
+  onCardDrop?: CardDropHandler;
+  onClose: () => void;
+}
+
+/**
+ * Side panel listing every card in one of a player's public zones.
+ * Hover a card to zoom in. The owner can drag cards out onto their
+ * battlefield, or onto one of the other zones at the bottom.
+ * Face-down cards stay card backs for everyone who may not see them.
+ */
+export function ZoneBrowser({
+  gameState,
+  playerId,
+  zone,
+  currentUserId,
+  onCardDrop,
+  onClose,
+}: ZoneBrowserProps) {
+  const [zoomed, setZoomed] = useState<GameCard | null>(null);
+
+  const player = gameState.players[playerId];
+  if (!player) return null;
+
+  const cards = player.zones[zone];
+  const canMove = !!onCardDrop && playerId === currentUserId && !player.isEliminated;
+
+  function handleDrop(e: DragEvent, destination: CardDestination) {
+    e.preventDefault();
+    const cardId = getDraggedCard(e);
+    if (cardId) onCardDrop?.(cardId, destination);
+  }
+
+  return (
+    <div className="fixed top-12 right-0 bottom-0 z-40 w-80 flex flex-col bg-[var(--background-secondary)] border-l border-[var(--border)] shadow-2xl">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-[var(--border)]">
+        <h3 className="font-[family-name:var(--font-cinzel)] text-lg font-semibold truncate">
+          {playerId === currentUserId ? "Your" : `${player.deckName}'s`} {ZONE_NAMES[zone]}
+          <span className="ml-2 text-sm text-[var(--foreground-muted)]">{cards.length}</span>
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-lg text-[var(--foreground-muted)] hover:text-[var(--foreground)] hover:bg-[var(--surface-hover)] transition-colors cursor-pointer"
+        >
+          <CloseIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* Zoomed card */}
+      {zoomed && !zoomed.hidden && (
+        <div className="px-4 pt-4">
+          <img src={zoomed.imageUrl} alt={zoomed.name} className="w-full rounded-xl shadow-lg" />
+        </div>
+      )}
+
+      {/* Cards, top of the pile first */}
+      <div className="flex-grow overflow-y-auto p-4">
+        {cards.length === 0 ? (
+          <p className="text-sm text-center text-[var(--foreground-subtle)]">Empty</p>
+        ) : (
+          <div className="grid grid-cols-3 gap-2">
+            {cards.map((card) => (
+              <div
+                key={card.id}
+                draggable={canMove}
+                onDragStart={(e) => setDraggedCard(e, card.id)}
+                onMouseEnter={() => setZoomed(card)}
+                onMouseLeave={() => setZoomed(null)}
+                title={card.hidden ? "Face-down card" : card.name}
+                className={`aspect-[5/7] rounded-md overflow-hidden shadow-md ${canMove ? "cursor-grab" : ""}`}
+              >
+                {card.hidden ? (
+                  <div className="w-full h-full bg-gradient-to-br from-[var(--accent-primary)] to-[var(--accent-secondary)] border border-[var(--border)]" />
+                ) : (
+                  <img
+                    src={card.imageUrl}
+                    alt={card.name}
+                    className={`w-full h-full object-cover ${card.faceDown ? "opacity-60" : ""}`}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Drop targets */}
+      {canMove && (
+        <div className="p-4 border-t border-[var(--border)]">
+          <p className="text-xs text-[var(--foreground-muted)] mb-2">
+            Drag a card onto your battlefield or one of these zones
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            {DESTINATIONS.filter(({ destination }) => destination !== zone).map(
+              ({ destination, label }) => (
+                <div
+                  key={destination}
+                  onDragOver={allowCardDrop}
+                  onDrop={(e) => handleDrop(e, destination)}
+                  className="px-2 py-3 rounded-lg border border-dashed border-[var(--border)] text-center text-xs text-[var(--foreground-muted)]"
+                >
+                  {label}
+                </div>
+              )
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================
+// Icons
+// ============================================
+
+function CloseIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    >
+      <path d="M18 6L6 18M6 6l12 12" />
+    </svg>
+  );
+}
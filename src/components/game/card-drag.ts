@@ -0,0 +1,62 @@
+/**
+ * Drag and drop of game cards between the table and the zone browsers.
+ */
+
+import { DragEvent } from "react";
+import { CardPosition } from "@/lib/game";
+
+const CARD_DRAG_TYPE = "application/x-game-card";
+const GRAB_OFFSET_TYPE = "application/x-game-card-offset";
+
+/**
+ * Where a dragged card can be dropped.
+ */
+export type CardDestination =
+  | "battlefield"
+  | "hand"
+  | "library-top"
+  | "library-bottom"
+  | "graveyard"
+  | "exile";
+
+export type CardDropHandler = (
+  cardId: string,
+  destination: CardDestination,
+  position?: CardPosition
+) => void;
+
+/**
+ * Starts dragging a card. The point where it was grabbed is kept so a
+ * card dropped on the battlefield lands where it was let go.
+ */
+export function setDraggedCard(e: DragEvent<HTMLElement>, cardId: string): void {
+  const rect = e.currentTarget.getBoundingClientRect();
+  e.dataTransfer.setData(CARD_DRAG_TYPE, cardId);
+  e.dataTransfer.setData(
+    GRAB_OFFSET_TYPE,
+    JSON.stringify({ x: e.clientX - rect.left, y: e.clientY - rect.top })
+  );
+  e.dataTransfer.effectAllowed = "move";
+}
+
+export function getDraggedCard(e: DragEvent): string | null {
+  return e.dataTransfer.getData(CARD_DRAG_TYPE) || null;
+}
+
+export function getGrabOffset(e: DragEvent): CardPosition {
+  try {
+    return JSON.parse(e.dataTransfer.getData(GRAB_OFFSET_TYPE)) as CardPosition;
+  } catch {
+    return { x: 0, y: 0 };
+  }
+}
+
+/**
+ * Lets a drop target accept game cards (and nothing else).
+ */
+export function allowCardDrop(e: DragEvent): void {
+  if (e.dataTransfer.types.includes(CARD_DRAG_TYPE)) {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+  }
+}
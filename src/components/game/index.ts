@@ -0,0 +1,22 @@
+export { GameLog } from "./GameLog";
+export { GameTable } from "./GameTable";
+export { PlayerBattlefield } from "./PlayerBattlefield";
+export { ReplayControls } from "./ReplayControls";
+export { UndoRequestButton } from "./UndoRequestButton";
+export { UndoRequestOverlay } from "./UndoRequestOverlay";
+export { PhaseTracker } from "./PhaseTracker";
+export { MulliganOverlay } from "./MulliganOverlay";
+export { CommanderReturnPrompt } from "./CommanderReturnPrompt";
+export { CommanderDamageMatrix } from "./CommanderDamageMatrix";
+export { PlayerCounters } from "./PlayerCounters";
+export { CreateTokenModal } from "./CreateTokenModal";
+export { LibraryViewer } from "./LibraryViewer";
+export { ZoneBrowser } from "./ZoneBrowser";
+export { ArrowLayer } from "./ArrowLayer";
+export { CardCounterMenu } from "./CardCounterMenu";
+export { StackZone } from "./StackZone";
+export { DrawOfferOverlay } from "./DrawOfferOverlay";
+export { GameSummary } from "./GameSummary";
+export { SeatConnection } from "./SeatConnection";
+export { AfkVoteOverlay } from "./AfkVoteOverlay";
+export { RejoinGameBanner } from "./RejoinGameBanner";
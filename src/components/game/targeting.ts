@@ -0,0 +1,43 @@
+/**
+ * Picking a target on the table, for attachments and arrows.
+ * Cards and players mark their elements with `data-card-ids` and
+ * `data-player-id` so arrows can be drawn between them.
+ */
+
+import { ArrowEndpoint } from "@/lib/game";
+
+/**
+ * What the viewer is currently choosing a target for.
+ */
+export interface Targeting {
+  kind: "attach" | "arrow";
+  source: ArrowEndpoint; // Attachments always start from a card
+}
+
+export type TargetHandler = (target: ArrowEndpoint) => void;
+
+/**
+ * Attributes that let an arrow find a card. A pile lists every card in it.
+ */
+export function cardTargetProps(cardIds: string[]) {
+  return { "data-card-ids": cardIds.join(" ") };
+}
+
+export function playerTargetProps(playerId: string) {
+  return { "data-player-id": playerId };
+}
+
+/**
+ * Finds the element an arrow endpoint is drawn at.
+ */
+export function findEndpointElement(end: ArrowEndpoint): Element | null {
+  if ("playerId" in end) {
+    return document.querySelector(`[data-player-id="${CSS.escape(end.playerId)}"]`);
+  }
+  return document.querySelector(`[data-card-ids~="${CSS.escape(end.cardId)}"]`);
+}
+
+export function isSameEndpoint(a: ArrowEndpoint, b: ArrowEndpoint): boolean {
+  if ("playerId" in a) return "playerId" in b && a.playerId === b.playerId;
+  return "cardId" in b && a.cardId === b.cardId;
+}
@@ -13,8 +13,10 @@ import {
   setPlayerReady,
   selectDeck,
   startGame,
+  updateSpectatorSettings,
 } from "@/lib/lobbies";
 import { DeckRecord } from "@/lib/decks";
+import { SpectatorView } from "@/lib/game-visibility";
 import { useAuth } from "@/hooks";
 import { createClient } from "@/lib/supabase/client";
 
@@ -59,18 +61,9 @@ export function Lobby({ lobbyId, initialLobby }: LobbyProps) {
           if (updatedLobby) {
             setLobby(updatedLobby);
             
-            // If game started, find the game ID and redirect
-            if (updatedLobby.status === "in_game") {
-              // Query for the game that was created from this lobby
-              const { data: game } = await supabase
-                .from("games")
-                .select("id")
-                .eq("lobby_id", lobbyId)
-                .single();
-              
-              if (game) {
-                router.push(`/game/${game.id}`);
-              }
+            // If game started, redirect to the game the lobby points at
+            if (updatedLobby.status === "in_game" && updatedLobby.current_game_id) {
+              router.push(`/game/${updatedLobby.current_game_id}`);
             }
             
             // If lobby was cancelled, redirect to game finder
@@ -133,6 +126,11 @@ export function Lobby({ lobbyId, initialLobby }: LobbyProps) {
     );
   }
 
+  async function handleSpectatorSettingsChange(allowSpectators: boolean, spectatorView: SpectatorView) {
+    if (!isHost) return;
+    await updateSpectatorSettings(lobbyId, allowSpectators, spectatorView);
+  }
+
   async function handleStartGame() {
     if (!canStartGame) return;
     setIsStarting(true);
@@ -170,6 +168,14 @@ export function Lobby({ lobbyId, initialLobby }: LobbyProps) {
               <span className="text-sm text-[var(--foreground-muted)]">
                 {lobby.players.length}/{lobby.max_players} players
               </span>
+              <span className="text-sm text-[var(--foreground-muted)]" title="AFK timeout">
+                {Math.round(lobby.afk_timeout_seconds / 60)}m AFK
+              </span>
+              {lobby.allow_spectators && (
+                <span className="text-sm text-[var(--foreground-muted)]">
+                  {lobby.spectator_view === "delayed" ? "Spectators (delayed)" : "Spectators"}
+                </span>
+              )}
               <span
                 className={`text-sm px-2 py-0.5 rounded ${
                   lobby.status === "waiting"
@@ -245,6 +251,45 @@ export function Lobby({ lobbyId, initialLobby }: LobbyProps) {
             />
           </div>
 
+          {/* Spectators, set by the host */}
+          {isHost && (
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <div>
+                <span className="text-sm font-medium text-[var(--foreground)]">Spectators</span>
+                <p className="text-xs text-[var(--foreground-muted)] mt-0.5">
+                  Let people outside the game watch it
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                {lobby.allow_spectators && (
+                  <select
+                    aria-label="What spectators see"
+                    value={lobby.spectator_view}
+                    onChange={(e) => handleSpectatorSettingsChange(true, e.target.value as SpectatorView)}
+                    className="px-3 py-2 bg-[var(--surface)] border border-[var(--border)] rounded-lg text-sm text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)] transition-colors cursor-pointer"
+                  >
+                    <option value="hidden">Hands hidden</option>
+                    <option value="delayed">Hands shown, delayed</option>
+                  </select>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleSpectatorSettingsChange(!lobby.allow_spectators, lobby.spectator_view)}
+                  title={lobby.allow_spectators ? "Turn spectating off" : "Turn spectating on"}
+                  className={`w-12 h-6 rounded-full transition-colors cursor-pointer ${
+                    lobby.allow_spectators ? "bg-[var(--accent-primary)]" : "bg-[var(--surface)]"
+                  }`}
+                >
+                  <div
+                    className={`w-5 h-5 rounded-full bg-white shadow transition-transform ${
+                      lobby.allow_spectators ? "translate-x-6" : "translate-x-0.5"
+                    }`}
+                  />
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Voice chat placeholder */}
           <div>
             <label className="block text-sm font-medium text-[var(--foreground-muted)] mb-2">
@@ -3,6 +3,7 @@
 import { ReactNode } from "react";
 import { LobbyProvider, useAppPresence } from "@/hooks";
 import { LobbyBar, LobbyBarSpacer } from "@/components/lobby";
+import { RejoinGameBanner } from "@/components/game";
 
 interface ProvidersProps {
   children: ReactNode;
@@ -18,12 +19,14 @@ function PresenceTracker() {
 
 /**
  * Client-side providers wrapper for the app.
- * Includes lobby state management, presence tracking, and the persistent lobby bar.
+ * Includes lobby state management, presence tracking, the persistent lobby bar
+ * and the banner for rejoining a game in progress.
  */
 export function Providers({ children }: ProvidersProps) {
   return (
     <LobbyProvider>
       <PresenceTracker />
+      <RejoinGameBanner />
       {children}
       <LobbyBarSpacer />
       <LobbyBar />
@@ -1,4 +1,5 @@
 export { useAuth } from "./useAuth";
 export { useLobby, LobbyProvider } from "./useLobby";
 export { usePresence, useAppPresence } from "./usePresence";
-
+export { useGameSync } from "./useGameSync";
+export { useGameLog } from "./useGameLog";
@@ -0,0 +1,55 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { AppliedGameAction, GameLogEntry, getGameLog } from "@/lib/game";
+import { mergeLogEntries } from "@/lib/game-log";
+
+/**
+ * Hook that loads the game log and keeps it up to date.
+ * Pass `addAction` to useGameSync so broadcast actions are appended;
+ * when one arrives out of order the missing entries are fetched.
+ */
+export function useGameLog(gameId: string) {
+  const [entries, setEntries] = useState<GameLogEntry[]>([]);
+  const lastSeqRef = useRef(0);
+
+  const addEntries = useCallback((incoming: GameLogEntry[]) => {
+    if (incoming.length === 0) return;
+    lastSeqRef.current = Math.max(lastSeqRef.current, ...incoming.map((e) => e.seq));
+    setEntries((current) => mergeLogEntries(current, incoming));
+  }, []);
+
+  // Fetches everything after the newest entry we have
+  const catchUp = useCallback(async () => {
+    const newer = await getGameLog(gameId, lastSeqRef.current);
+    addEntries(newer);
+  }, [gameId, addEntries]);
+
+  useEffect(() => {
+    catchUp();
+  }, [catchUp]);
+
+  const addAction = useCallback(
+    (action: AppliedGameAction) => {
+      if (!action.description) return;
+
+      if (action.version > lastSeqRef.current + 1) {
+        catchUp();
+        return;
+      }
+
+      addEntries([
+        {
+          seq: action.version,
+          actorId: action.playerId,
+          type: action.type,
+          description: action.description,
+          createdAt: action.timestamp,
+        },
+      ]);
+    },
+    [catchUp, addEntries]
+  );
+
+  return { entries, addAction };
+}
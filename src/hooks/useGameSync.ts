@@ -0,0 +1,166 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  AppliedGameAction,
+  GameState,
+  GameStateView,
+  getGameState,
+  getOnlinePlayers,
+  sendGameAction,
+  subscribeToGame,
+  trackPresence,
+} from "@/lib/game";
+import { GamePresence, receivePresence } from "@/lib/game-presence";
+import {
+  GameSyncResult,
+  GameSyncState,
+  initialGameSyncState,
+  receiveGameAction,
+  receiveGameStateView,
+} from "@/lib/game-sync";
+
+const MAX_RESYNC_ATTEMPTS = 3;
+const DELAYED_VIEW_POLL_MS = 5000;
+
+/**
+ * Hook that keeps the local game state in sync with the server.
+ * Broadcast actions are applied in state_version order; when a gap is
+ * detected the state is refetched and buffered actions are replayed.
+ * `onAction` is called with every broadcast action, e.g. for the game log.
+ * The player is tracked on the game channel, and `presence` tells who
+ * else is connected. Spectators watching on a delay get no broadcasts;
+ * their view is polled instead, and `delaySeconds` says how far behind it is.
+ */
+export function useGameSync(
+  gameId: string,
+  userId: string | undefined,
+  onAction?: (action: AppliedGameAction) => void
+) {
+  const [gameState, setGameState] = useState<GameState | null>(null);
+  const [presence, setPresence] = useState<GamePresence | null>(null);
+  const [delaySeconds, setDelaySeconds] = useState<number | undefined>(undefined);
+  const syncRef = useRef<GameSyncState>(initialGameSyncState);
+  const resyncingRef = useRef(false);
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  // Refetches the state until no buffered actions are left waiting
+  const resync = useCallback(async () => {
+    if (resyncingRef.current || !userId) return;
+    resyncingRef.current = true;
+
+    for (let attempt = 0; attempt < MAX_RESYNC_ATTEMPTS; attempt++) {
+      const view = await getGameState(gameId);
+      if (!view) break;
+
+      const result = receiveGameStateView(syncRef.current, view, userId);
+      syncRef.current = result.sync;
+      setGameState(result.sync.state);
+      setDelaySeconds(view.delaySeconds);
+
+      if (!result.needsResync) break;
+    }
+
+    resyncingRef.current = false;
+  }, [gameId, userId]);
+
+  // Stores a sync result and refetches the state when it asks for it
+  const commit = useCallback(
+    (result: GameSyncResult) => {
+      syncRef.current = result.sync;
+      setGameState(result.sync.state);
+
+      if (result.needsResync) {
+        resync();
+      }
+    },
+    [resync]
+  );
+
+  // Replaces the local state with a view fetched from the server
+  const applyView = useCallback(
+    (view: GameStateView) => {
+      if (!userId) return;
+      setDelaySeconds(view.delaySeconds);
+
+      // Actions broadcast before we knew the view was delayed are too new for it
+      if (view.delaySeconds) {
+        syncRef.current = { ...syncRef.current, pending: [] };
+      }
+
+      commit(receiveGameStateView(syncRef.current, view, userId));
+    },
+    [userId, commit]
+  );
+
+  // Subscribe to real-time updates
+  useEffect(() => {
+    if (!gameId || !userId) return;
+
+    const channel = subscribeToGame(
+      gameId,
+      (action: AppliedGameAction) => {
+        // A delayed view must not get ahead of itself
+        if (delaySeconds) return;
+        commit(receiveGameAction(syncRef.current, action, userId));
+        onAction?.(action);
+      },
+      (state) => {
+        setPresence((current) => receivePresence(current, getOnlinePlayers(state), Date.now()));
+      }
+    );
+
+    // Tracked again when the tab comes back, in case the connection dropped meanwhile
+    const track = () => trackPresence(channel, userId, {});
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") track();
+    };
+
+    track();
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("online", track);
+
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("online", track);
+      channel.unsubscribe();
+    };
+  }, [gameId, userId, delaySeconds, commit, onAction]);
+
+  // Catch a delayed view up as the delay runs out
+  useEffect(() => {
+    if (!delaySeconds || !userId) return;
+
+    const interval = setInterval(async () => {
+      const view = await getGameState(gameId);
+      if (view) applyView(view);
+    }, DELAYED_VIEW_POLL_MS);
+
+    return () => clearInterval(interval);
+  }, [gameId, userId, delaySeconds, applyView]);
+
+  // Submits an action and applies the server's response right away.
+  // Actions are sent one at a time so a group of moves does not race itself.
+  const sendAction = useCallback(
+    (type: string, payload: Record<string, unknown>): Promise<boolean> => {
+      const send = async () => {
+        const result = await sendGameAction(gameId, type, payload);
+
+        if (!result.success || !result.data) {
+          console.error("Game action rejected:", result.error);
+          return false;
+        }
+
+        applyView(result.data);
+        return true;
+      };
+
+      const sent = queueRef.current.then(send);
+      queueRef.current = sent;
+      return sent;
+    },
+    [gameId, applyView]
+  );
+
+  return { gameState, presence, delaySeconds, applyView, sendAction };
+}
@@ -5,6 +5,7 @@
 
 import { createClient } from "@/lib/supabase/client";
 import { Card } from "@/components/deck-builder/types";
+import type { CardLayout } from "@/lib/scryfall";
 
 /**
  * Database representation of a deck.
@@ -40,6 +41,18 @@ export interface DeckCardRecord {
   quantity: number;
   allows_multiple_copies: boolean;
   is_commander?: boolean;
+  layout?: CardLayout;
+  faces?: DeckCardFaceRecord[];
+}
+
+/**
+ * One face of a double-faced, flip or meld card.
+ */
+export interface DeckCardFaceRecord {
+  name: string;
+  image_url: string;
+  type: string;
+  rotated?: boolean;
 }
 
 /**
@@ -66,6 +79,13 @@ function cardToRecord(card: Card): DeckCardRecord {
     quantity: card.quantity,
     allows_multiple_copies: card.allowsMultipleCopies,
     is_commander: card.isCommander,
+    layout: card.layout,
+    faces: card.faces?.map((face) => ({
+      name: face.name,
+      image_url: face.imageUrl,
+      type: face.type,
+      rotated: face.rotated,
+    })),
   };
 }
 
@@ -85,6 +105,13 @@ function recordToCard(record: DeckCardRecord): Card {
     quantity: record.quantity,
     allowsMultipleCopies: record.allows_multiple_copies,
     isCommander: record.is_commander,
+    layout: record.layout,
+    faces: record.faces?.map((face) => ({
+      name: face.name,
+      imageUrl: face.image_url,
+      type: face.type,
+      rotated: face.rotated,
+    })),
   };
 }
 
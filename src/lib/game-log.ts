@@ -0,0 +1,444 @@
+/**
+ * Game log descriptions.
+ * Every applied action gets a human-readable line ("Alice cast Atraxa from
+ * the command zone"). Lines are shown to the whole table, so a card is only
+ * named when it is public before or after the action.
+ */
+
+import {
+  AddToStackPayload,
+  AfkVoteKind,
+  ArrowEndpoint,
+  AttachCardPayload,
+  CardPayload,
+  ClearArrowPayload,
+  CloseLibraryPayload,
+  CommanderDamagePayload,
+  CounterPayload,
+  CreateTokenPayload,
+  DrawArrowPayload,
+  GAME_PHASE_LABELS,
+  GameAction,
+  GameActionTypes,
+  GameCard,
+  GameState,
+  LookAtLibraryPayload,
+  PlayerCounterPayload,
+  RemoveFromStackPayload,
+  RequestUndoPayload,
+  RespondAfkVotePayload,
+  RespondDrawPayload,
+  RespondUndoPayload,
+  ReturnToLibraryPayload,
+  RevealCardPayload,
+  StartAfkVotePayload,
+  UndoPayload,
+  UpdateLifePayload,
+  Zone,
+} from "@/lib/game-state";
+import { COMMANDER_TAX_PER_CAST, findCard, FREE_MULLIGANS } from "@/lib/game-reducer";
+import { HIDDEN_ZONES } from "@/lib/game-visibility";
+
+/**
+ * One line of the game log as stored in the game_actions table.
+ */
+export interface GameLogEntry {
+  seq: number;
+  actorId: string;
+  type: string;
+  description: string;
+  createdAt: string;
+}
+
+/**
+ * Display names keyed by userId.
+ */
+export type PlayerNames = Record<string, string>;
+
+/**
+ * Adds entries to the log, skipping ones already present,
+ * and keeps it ordered by sequence number.
+ */
+export function mergeLogEntries(entries: GameLogEntry[], incoming: GameLogEntry[]): GameLogEntry[] {
+  const known = new Set(entries.map((e) => e.seq));
+  const added = incoming.filter((e) => !known.has(e.seq));
+  if (added.length === 0) return entries;
+
+  return [...entries, ...added].sort((a, b) => a.seq - b.seq);
+}
+
+/**
+ * Describes an action that turned `before` into `after`,
+ * including how the game ended if it did.
+ */
+export function describeGameAction(
+  before: GameState,
+  after: GameState,
+  action: GameAction,
+  names: PlayerNames
+): string {
+  const description = describeAction(before, after, action, names);
+  if (!after.result || before.result) return description;
+
+  return after.result.winnerId
+    ? `${description}, and ${playerName(names, after.result.winnerId)} won the game`
+    : `${description}, ending the game in a draw`;
+}
+
+function describeAction(
+  before: GameState,
+  after: GameState,
+  action: GameAction,
+  names: PlayerNames
+): string {
+  const actor = playerName(names, action.playerId);
+  const { cardId } = action.payload as Partial<CardPayload>;
+  const from = typeof cardId === "string" ? findCard(before, cardId)?.card : undefined;
+  const to = typeof cardId === "string" ? findCard(after, cardId)?.card : undefined;
+  const card = describeCard(from, to);
+
+  // A token moved off the battlefield is gone rather than somewhere else
+  if (from?.isToken && !to) {
+    return `${actor} removed ${card} (token) from the battlefield`;
+  }
+
+  switch (action.type) {
+    case GameActionTypes.MOVE_CARD:
+      if (!from || !to) break;
+      if (from.zone === "battlefield" && to.zone === "battlefield" && from.controllerId === to.controllerId) {
+        if (from.attachedTo && !to.attachedTo) {
+          return `${actor} unattached ${card} from ${describeHost(before, from.attachedTo)}`;
+        }
+        return `${actor} moved ${card} on the battlefield`;
+      }
+      return `${actor} moved ${card} from ${describeZone(from, action.playerId, names)} to ${describeZone(to, action.playerId, names)}`;
+
+    case GameActionTypes.TAP_CARD:
+      return `${actor} tapped ${card}`;
+
+    case GameActionTypes.UNTAP_CARD:
+      return `${actor} untapped ${card}`;
+
+    case GameActionTypes.FLIP_CARD:
+      return `${actor} turned ${card} face ${to?.faceDown ? "down" : "up"}`;
+
+    case GameActionTypes.TRANSFORM_CARD:
+      if (from && to && isCardPublic(from)) {
+        return `${actor} transformed ${from.name} into ${to.name}`;
+      }
+      return `${actor} turned ${card} to its other face`;
+
+    case GameActionTypes.ATTACH_CARD: {
+      const { targetId } = action.payload as unknown as AttachCardPayload;
+      if (targetId) {
+        return `${actor} attached ${card} to ${describeHost(after, targetId)}`;
+      }
+      return `${actor} unattached ${card} from ${describeHost(before, from?.attachedTo)}`;
+    }
+
+    case GameActionTypes.DRAW_CARD: {
+      const drawn =
+        before.players[action.playerId].zones.library.length -
+        after.players[action.playerId].zones.library.length;
+      return `${actor} drew ${plural(drawn, "card")}`;
+    }
+
+    case GameActionTypes.LOOK_AT_LIBRARY: {
+      const { count, reveal } = action.payload as LookAtLibraryPayload;
+      if (count === undefined) {
+        return `${actor} searched their library`;
+      }
+      const library = after.players[action.playerId].zones.library;
+      const looked = Math.min(count, library.length);
+      if (!reveal) {
+        return `${actor} looked at the top ${plural(looked, "card")} of their library`;
+      }
+      // Revealed to everyone, so the cards can be named
+      const revealed = library.slice(0, looked).map((c) => c.name).join(", ");
+      return `${actor} revealed the top ${plural(looked, "card")} of their library${revealed ? `: ${revealed}` : ""}`;
+    }
+
+    case GameActionTypes.CLOSE_LIBRARY: {
+      const { top = [], bottom = [] } = action.payload as CloseLibraryPayload;
+      if (before.players[action.playerId].libraryView?.count === undefined) {
+        return `${actor} finished searching and shuffled their library`;
+      }
+      if (top.length === 0 && bottom.length === 0) {
+        return `${actor} put the cards back on top of their library`;
+      }
+      return `${actor} put ${plural(top.length, "card")} on top and ${plural(bottom.length, "card")} on the bottom of their library`;
+    }
+
+    case GameActionTypes.MILL_CARDS: {
+      const count =
+        before.players[action.playerId].zones.library.length -
+        after.players[action.playerId].zones.library.length;
+      // The graveyard is public; its top cards are the milled ones, last milled first
+      const milled = after.players[action.playerId].zones.graveyard.slice(0, count).reverse();
+      return `${actor} milled ${plural(count, "card")}${count > 0 ? `: ${milled.map((c) => c.name).join(", ")}` : ""}`;
+    }
+
+    case GameActionTypes.PLAY_CARD:
+      return `${actor} played ${card}`;
+
+    case GameActionTypes.DISCARD_CARD:
+      return `${actor} discarded ${card}`;
+
+    case GameActionTypes.EXILE_CARD:
+      return `${actor} exiled ${card}${to?.faceDown ? " face down" : ""}`;
+
+    case GameActionTypes.RETURN_TO_HAND:
+      if (!to) break;
+      return `${actor} returned ${card} to ${describeZone(to, action.playerId, names)}`;
+
+    case GameActionTypes.RETURN_TO_LIBRARY: {
+      const { position = "top" } = action.payload as unknown as ReturnToLibraryPayload;
+      if (!to) break;
+      return `${actor} put ${card} on the ${position} of ${describeZone(to, action.playerId, names)}`;
+    }
+
+    case GameActionTypes.CAST_COMMANDER: {
+      const casts = after.players[action.playerId]?.commanderCasts?.[cardId as string] || 1;
+      const tax = (casts - 1) * COMMANDER_TAX_PER_CAST;
+      return `${actor} cast ${card} from the command zone${tax > 0 ? ` (tax ${tax})` : ""}`;
+    }
+
+    case GameActionTypes.RETURN_COMMANDER:
+      return `${actor} returned ${card} to the command zone`;
+
+    case GameActionTypes.DECLINE_COMMANDER_RETURN:
+      return `${actor} left ${card} in ${from ? describeZone(from, action.playerId, names) : "its zone"}`;
+
+    case GameActionTypes.ADD_COUNTER:
+    case GameActionTypes.REMOVE_COUNTER: {
+      const { counter, amount = 1 } = action.payload as unknown as CounterPayload;
+      return action.type === GameActionTypes.ADD_COUNTER
+        ? `${actor} put ${plural(amount, `${counter} counter`)} on ${card}`
+        : `${actor} removed ${plural(amount, `${counter} counter`)} from ${card}`;
+    }
+
+    case GameActionTypes.CREATE_TOKEN: {
+      const { name, tokenIds = [] } = action.payload as unknown as CreateTokenPayload;
+      return `${actor} created ${plural(tokenIds.length, `${name} token`)}`;
+    }
+
+    case GameActionTypes.ADD_PLAYER_COUNTER:
+    case GameActionTypes.REMOVE_PLAYER_COUNTER: {
+      const { playerId, counter, amount = 1 } = action.payload as unknown as PlayerCounterPayload;
+      const target = playerId === action.playerId ? "themselves" : playerName(names, playerId);
+      const description = action.type === GameActionTypes.ADD_PLAYER_COUNTER
+        ? `${actor} gave ${target} ${plural(amount, `${counter} counter`)}`
+        : `${actor} removed ${plural(amount, `${counter} counter`)} from ${target}`;
+      return !before.players[playerId]?.isEliminated && after.players[playerId]?.isEliminated
+        ? `${description}; ${playerName(names, playerId)} was eliminated`
+        : description;
+    }
+
+    case GameActionTypes.UPDATE_LIFE: {
+      const { playerId } = action.payload as unknown as UpdateLifePayload;
+      const previous = before.players[playerId].lifeTotal;
+      const next = after.players[playerId].lifeTotal;
+      const target = playerName(names, playerId);
+      return next > previous
+        ? `${target} gained ${next - previous} life (${next})`
+        : `${target} lost ${previous - next} life (${next})`;
+    }
+
+    case GameActionTypes.DEAL_COMMANDER_DAMAGE: {
+      const { targetPlayerId, commanderId, amount } =
+        action.payload as unknown as CommanderDamagePayload;
+      const commander = findCard(before, commanderId)?.card.name || "a commander";
+      const target = playerName(names, targetPlayerId);
+      const total = after.players[targetPlayerId]?.commanderDamage[commanderId] || 0;
+      const description = amount > 0
+        ? `${target} took ${amount} commander damage from ${commander} (${total})`
+        : `${target} removed ${-amount} commander damage from ${commander} (${total})`;
+      return !before.players[targetPlayerId]?.isEliminated && after.players[targetPlayerId]?.isEliminated
+        ? `${description} and was eliminated`
+        : description;
+    }
+
+    case GameActionTypes.PASS_TURN:
+      return `${actor} passed the turn to ${playerName(names, after.activePlayerId)}`;
+
+    case GameActionTypes.PASS_PRIORITY: {
+      const top = before.stack?.[0];
+      if (top && !after.stack?.some((item) => item.id === top.id)) {
+        return `${actor} passed priority and ${top.text} resolved`;
+      }
+      return after.phase === before.phase && after.turnNumber === before.turnNumber
+        ? `${actor} passed priority`
+        : `${actor} passed priority, moving to ${describeStep(after)}`;
+    }
+
+    case GameActionTypes.NEXT_STEP:
+      return `${actor} moved to ${describeStep(after)}`;
+
+    case GameActionTypes.SET_AUTO_STOPS:
+      return `${actor} changed their auto-stops`;
+
+    case GameActionTypes.SHUFFLE_LIBRARY:
+      return `${actor} shuffled their library`;
+
+    case GameActionTypes.REVEAL_CARD: {
+      const { to: viewers } = action.payload as unknown as RevealCardPayload;
+      if (!viewers) {
+        return `${actor} revealed ${from?.name || "a card"}`;
+      }
+      const audience = viewers.map((id) => playerName(names, id)).join(", ");
+      return `${actor} revealed ${card} to ${audience}`;
+    }
+
+    case GameActionTypes.DRAW_ARROW: {
+      const { from: source, to: target } = action.payload as unknown as DrawArrowPayload;
+      return `${actor} pointed ${describeEndpoint(after, source, names)} at ${describeEndpoint(after, target, names)}`;
+    }
+
+    case GameActionTypes.CLEAR_ARROW: {
+      const { arrowId } = action.payload as ClearArrowPayload;
+      return arrowId ? `${actor} removed an arrow` : `${actor} cleared their arrows`;
+    }
+
+    case GameActionTypes.CAST_SPELL:
+      // Spells on the stack are public
+      return `${actor} cast ${after.stack?.[0]?.text || "a spell"}`;
+
+    case GameActionTypes.ADD_TO_STACK: {
+      const { text } = action.payload as unknown as AddToStackPayload;
+      return `${actor} put an ability on the stack: ${text.trim()}`;
+    }
+
+    case GameActionTypes.REMOVE_FROM_STACK: {
+      const { itemId } = action.payload as unknown as RemoveFromStackPayload;
+      const item = before.stack?.find((i) => i.id === itemId);
+      return item?.kind === "spell"
+        ? `${actor} countered ${item.text}`
+        : `${actor} removed ${item?.text || "an ability"} from the stack`;
+    }
+
+    case GameActionTypes.CONCEDE:
+      return `${actor} conceded`;
+
+    case GameActionTypes.OFFER_DRAW:
+      return `${actor} offered a draw`;
+
+    case GameActionTypes.RESPOND_DRAW: {
+      const { accept } = action.payload as unknown as RespondDrawPayload;
+      if (accept) return `${actor} accepted the draw`;
+      return before.drawOffer?.playerId === action.playerId
+        ? `${actor} withdrew their draw offer`
+        : `${actor} declined the draw`;
+    }
+
+    case GameActionTypes.START_AFK_VOTE: {
+      const { targetId, kind } = action.payload as unknown as StartAfkVotePayload;
+      return `${actor} called a vote to ${describeAfkVote(kind, playerName(names, targetId))}`;
+    }
+
+    case GameActionTypes.RESPOND_AFK_VOTE: {
+      const { accept } = action.payload as unknown as RespondAfkVotePayload;
+      const vote = before.afkVote;
+      if (!vote) break;
+
+      if (vote.targetId === action.playerId) return `${actor} is back`;
+      const target = playerName(names, vote.targetId);
+      if (!accept) {
+        return vote.playerId === action.playerId
+          ? `${actor} called off their vote`
+          : `${actor} voted against the vote on ${target}`;
+      }
+
+      const voted = vote.acceptedBy.includes(action.playerId)
+        ? `${actor} went ahead with the vote to ${describeAfkVote(vote.kind, target)}`
+        : `${actor} voted to ${describeAfkVote(vote.kind, target)}`;
+      return after.afkVote ? voted : `${voted}, and the vote passed`;
+    }
+
+    case GameActionTypes.MULLIGAN: {
+      const status = after.mulligans?.[action.playerId];
+      const free = status && status.mulligans <= FREE_MULLIGANS;
+      return `${actor} took a mulligan${free ? " (free)" : ""}`;
+    }
+
+    case GameActionTypes.KEEP_HAND: {
+      const hand = after.players[action.playerId].zones.hand.length;
+      const started = !after.mulligans ? ". Turn 1 begins" : "";
+      return `${actor} kept ${plural(hand, "card")}${started}`;
+    }
+
+    case GameActionTypes.REQUEST_UNDO: {
+      const { seqs = [] } = action.payload as unknown as RequestUndoPayload;
+      return `${actor} asked to undo their last ${seqs.length === 1 ? "action" : `${seqs.length} actions`}`;
+    }
+
+    case GameActionTypes.RESPOND_UNDO: {
+      const { approve } = action.payload as unknown as RespondUndoPayload;
+      if (approve) return `${actor} approved the undo`;
+      return before.undoRequest?.playerId === action.playerId
+        ? `${actor} withdrew their undo request`
+        : `${actor} rejected the undo`;
+    }
+
+    case GameActionTypes.UNDO: {
+      const { seqs } = action.payload as unknown as UndoPayload;
+      return `Undid ${plural(seqs.length, "action")} by ${actor}`;
+    }
+  }
+
+  return `${actor}: ${action.type.toLowerCase().replace(/_/g, " ")}`;
+}
+
+/**
+ * Whether every player at the table can see a card.
+ */
+function isCardPublic(card: GameCard): boolean {
+  return !HIDDEN_ZONES.includes(card.zone) && !card.faceDown;
+}
+
+/**
+ * Names a card if it is public on either side of the action.
+ */
+function describeCard(from: GameCard | undefined, to: GameCard | undefined): string {
+  if (from && isCardPublic(from)) return from.name;
+  if (to && isCardPublic(to)) return to.name;
+  return "a card";
+}
+
+function describeHost(state: GameState, hostId: string | undefined): string {
+  const host = hostId ? findCard(state, hostId)?.card : undefined;
+  return describeCard(host, undefined);
+}
+
+function describeEndpoint(state: GameState, end: ArrowEndpoint, names: PlayerNames): string {
+  if ("playerId" in end) return playerName(names, end.playerId);
+  return describeCard(findCard(state, end.cardId)?.card, undefined);
+}
+
+function describeZone(card: GameCard, actorId: string, names: PlayerNames): string {
+  const shared: Partial<Record<Zone, string>> = {
+    battlefield: "the battlefield",
+    exile: "exile",
+    command: "the command zone",
+  };
+  if (shared[card.zone]) return shared[card.zone]!;
+
+  const owner = card.ownerId === actorId ? "their" : `${playerName(names, card.ownerId)}'s`;
+  return `${owner} ${card.zone}`;
+}
+
+function describeAfkVote(kind: AfkVoteKind, target: string): string {
+  return kind === "skip" ? `skip ${target}'s turn` : `remove ${target} from the game`;
+}
+
+function describeStep(state: GameState): string {
+  return `${GAME_PHASE_LABELS[state.phase] ?? state.phase} (turn ${state.turnNumber})`;
+}
+
+function playerName(names: PlayerNames, userId: string): string {
+  return names[userId] || "A player";
+}
+
+function plural(count: number, noun: string): string {
+  if (count !== 1) return `${count} ${noun}s`;
+  return /^[aeiou]/i.test(noun) ? `an ${noun}` : `a ${noun}`;
+}
@@ -0,0 +1,95 @@
+/**
+ * Who is connected to a game, from the realtime channel's presence.
+ * Connection times are measured by each client's own clock, so they only
+ * drive what the game page shows; the server never relies on them.
+ */
+
+import { isHoldingUpGame } from "@/lib/game-reducer";
+import { DEFAULT_AFK_TIMEOUT_SECONDS, GameState } from "@/lib/game-state";
+
+/**
+ * How long a player may be gone before they count as disconnected
+ * rather than reconnecting, e.g. after a page reload.
+ */
+export const DISCONNECT_GRACE_SECONDS = 30;
+
+export interface PlayerConnection {
+  online: boolean;
+  since: number; // When this client saw them connect or drop, in ms
+}
+
+export interface GamePresence {
+  startedAt: number; // First presence sync; players never seen are offline since then
+  players: Record<string, PlayerConnection>; // Keyed by userId
+}
+
+export type ConnectionStatus = "online" | "reconnecting" | "disconnected";
+
+/**
+ * Handles a presence sync listing the players with a connected tab.
+ */
+export function receivePresence(
+  presence: GamePresence | null,
+  onlineIds: string[],
+  now: number
+): GamePresence {
+  const players = { ...presence?.players };
+
+  for (const userId of onlineIds) {
+    if (!players[userId]?.online) players[userId] = { online: true, since: now };
+  }
+
+  for (const [userId, connection] of Object.entries(players)) {
+    if (connection.online && !onlineIds.includes(userId)) {
+      players[userId] = { online: false, since: now };
+    }
+  }
+
+  return { startedAt: presence?.startedAt ?? now, players };
+}
+
+export function getConnection(presence: GamePresence, userId: string): PlayerConnection {
+  return presence.players[userId] ?? { online: false, since: presence.startedAt };
+}
+
+export function getConnectionStatus(connection: PlayerConnection, now: number): ConnectionStatus {
+  if (connection.online) return "online";
+  return now - connection.since < DISCONNECT_GRACE_SECONDS * 1000 ? "reconnecting" : "disconnected";
+}
+
+/**
+ * How many connected users are watching rather than playing.
+ */
+export function countSpectators(state: GameState, presence: GamePresence): number {
+  return Object.entries(presence.players).filter(
+    ([userId, connection]) => connection.online && !state.players[userId]
+  ).length;
+}
+
+/**
+ * How long, in ms, the player has been away: disconnected, or holding up
+ * the game without anything happening. Zero while they are around.
+ */
+export function getAwayTime(
+  state: GameState,
+  presence: GamePresence,
+  userId: string,
+  now: number
+): number {
+  const connection = getConnection(presence, userId);
+  const disconnected = connection.online ? 0 : now - connection.since;
+
+  const lastActivity = state.lastAction ? Date.parse(state.lastAction.timestamp) : presence.startedAt;
+  const idle = isHoldingUpGame(state, userId) ? now - lastActivity : 0;
+
+  return Math.max(disconnected, idle, 0);
+}
+
+/**
+ * Whether the player has been away for longer than the game's AFK
+ * timeout, so the rest of the table may vote to skip or remove them.
+ */
+export function isAfk(state: GameState, presence: GamePresence, userId: string, now: number): boolean {
+  const timeout = (state.afkTimeoutSeconds ?? DEFAULT_AFK_TIMEOUT_SECONDS) * 1000;
+  return getAwayTime(state, presence, userId, now) >= timeout;
+}
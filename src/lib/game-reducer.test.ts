@@ -0,0 +1,1228 @@
+import { describe, expect, it } from "vitest";
+import { AFK_VOTE_GRACE_SECONDS, DEFAULT_AFK_TIMEOUT_SECONDS, GameActionTypes, GameState } from "@/lib/game-state";
+import {
+  applyGameAction,
+  canMulligan,
+  cardsToBottom,
+  COMMANDER_TAX_PER_CAST,
+  getCommanderTax,
+  hasTimedOut,
+  isUndoApproved,
+  LETHAL_COMMANDER_DAMAGE,
+  LETHAL_POISON_COUNTERS,
+  OPENING_HAND_SIZE,
+  startMulligan,
+} from "@/lib/game-reducer";
+import {
+  getCard,
+  makeAction,
+  makeCard,
+  makePlayer,
+  makeState,
+  PLAYERS,
+  START,
+  withZone,
+  zoneIds,
+} from "@/lib/game-test-utils";
+
+function act(
+  state: GameState,
+  type: string,
+  playerId: string,
+  payload: Record<string, unknown> = {},
+  seconds = 0
+): GameState {
+  return applyGameAction(state, makeAction(type, playerId, payload, seconds));
+}
+
+// ============================================
+// applyGameAction
+// ============================================
+
+describe("applyGameAction", () => {
+  it("records the last action and leaves the input state untouched", () => {
+    const state = makeState();
+    const snapshot = structuredClone(state);
+    const next = act(state, GameActionTypes.DRAW_CARD, "alice", {}, 5);
+
+    expect(state).toEqual(snapshot);
+    expect(next.lastAction).toEqual({
+      playerId: "alice",
+      action: GameActionTypes.DRAW_CARD,
+      timestamp: new Date(START + 5000).toISOString(),
+    });
+  });
+
+  it("returns the same state for unknown action types", () => {
+    const state = makeState();
+    expect(act(state, "NOT_AN_ACTION", "alice")).toBe(state);
+  });
+});
+
+// ============================================
+// Card movement
+// ============================================
+
+describe(GameActionTypes.MOVE_CARD, () => {
+  it("moves a card to another zone and resets it", () => {
+    let state = makeState();
+    state = withZone(state, "alice", "battlefield", [
+      makeCard("b1", "alice", "battlefield", { tapped: true, counters: { "+1/+1": 2 } }),
+    ]);
+
+    const next = act(state, GameActionTypes.MOVE_CARD, "alice", { cardId: "b1", toZone: "graveyard" });
+
+    expect(zoneIds(next, "alice", "battlefield")).toEqual([]);
+    expect(getCard(next, "alice", "graveyard", "b1")).toMatchObject({
+      zone: "graveyard",
+      tapped: false,
+      counters: {},
+    });
+  });
+
+  it("repositions a card on the battlefield and unattaches it", () => {
+    let state = makeState();
+    state = act(state, GameActionTypes.ATTACH_CARD, "alice", { cardId: "b2", targetId: "b1" });
+
+    const next = act(state, GameActionTypes.MOVE_CARD, "alice", { cardId: "b2", x: 10, y: 20 });
+
+    expect(getCard(next, "alice", "battlefield", "b2")).toMatchObject({
+      position: { x: 10, y: 20 },
+      attachedTo: undefined,
+    });
+  });
+
+  it("gives control of a permanent to another player", () => {
+    const next = act(makeState(), GameActionTypes.MOVE_CARD, "alice", {
+      cardId: "b1",
+      toZone: "battlefield",
+      toPlayerId: "bob",
+    });
+
+    expect(zoneIds(next, "alice", "battlefield")).not.toContain("b1");
+    expect(getCard(next, "bob", "battlefield", "b1")).toMatchObject({ controllerId: "bob", ownerId: "alice" });
+  });
+
+  it("detaches anything attached to a card leaving the battlefield", () => {
+    let state = makeState();
+    state = act(state, GameActionTypes.ATTACH_CARD, "alice", { cardId: "b2", targetId: "b1" });
+
+    const next = act(state, GameActionTypes.MOVE_CARD, "alice", { cardId: "b1", toZone: "exile" });
+
+    expect(getCard(next, "alice", "battlefield", "b2").attachedTo).toBeUndefined();
+  });
+
+  it("removes tokens that leave the battlefield", () => {
+    let state = makeState();
+    state = act(state, GameActionTypes.CREATE_TOKEN, "alice", {
+      cardId: "soldier",
+      name: "Soldier",
+      imageUrl: "https://cards.scryfall.io/soldier.png",
+      count: 1,
+      tokenIds: ["t1"],
+    });
+
+    const next = act(state, GameActionTypes.MOVE_CARD, "alice", { cardId: "t1", toZone: "graveyard" });
+
+    expect(zoneIds(next, "alice", "battlefield")).not.toContain("t1");
+    expect(zoneIds(next, "alice", "graveyard")).not.toContain("t1");
+  });
+
+  it("ignores a move without a zone or a position", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.MOVE_CARD, "alice", { cardId: "b1" })).toBe(state);
+  });
+
+  it("ignores unknown cards and players", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.MOVE_CARD, "alice", { cardId: "nope", toZone: "hand" })).toBe(state);
+    expect(
+      act(state, GameActionTypes.MOVE_CARD, "alice", { cardId: "b1", toZone: "battlefield", toPlayerId: "nobody" })
+    ).toBe(state);
+  });
+});
+
+describe(GameActionTypes.TAP_CARD, () => {
+  it("taps and untaps a permanent", () => {
+    const tapped = act(makeState(), GameActionTypes.TAP_CARD, "alice", { cardId: "b1" });
+    expect(getCard(tapped, "alice", "battlefield", "b1").tapped).toBe(true);
+
+    const untapped = act(tapped, GameActionTypes.TAP_CARD, "alice", { cardId: "b1", tapped: false });
+    expect(getCard(untapped, "alice", "battlefield", "b1").tapped).toBe(false);
+  });
+
+  it("ignores cards that are not on the battlefield or already tapped", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.TAP_CARD, "alice", { cardId: "h1" })).toBe(state);
+    expect(act(state, GameActionTypes.TAP_CARD, "bob", { cardId: "bb1" })).toBe(state);
+  });
+});
+
+describe(GameActionTypes.UNTAP_CARD, () => {
+  it("untaps a tapped permanent", () => {
+    const next = act(makeState(), GameActionTypes.UNTAP_CARD, "bob", { cardId: "bb1" });
+    expect(getCard(next, "bob", "battlefield", "bb1").tapped).toBe(false);
+  });
+
+  it("ignores untapped and unknown cards", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.UNTAP_CARD, "alice", { cardId: "b1" })).toBe(state);
+    expect(act(state, GameActionTypes.UNTAP_CARD, "alice", { cardId: "nope" })).toBe(state);
+  });
+});
+
+describe(GameActionTypes.FLIP_CARD, () => {
+  it("turns a permanent face down and back up", () => {
+    const down = act(makeState(), GameActionTypes.FLIP_CARD, "alice", { cardId: "b1" });
+    expect(getCard(down, "alice", "battlefield", "b1").faceDown).toBe(true);
+
+    const up = act(down, GameActionTypes.FLIP_CARD, "alice", { cardId: "b1" });
+    expect(getCard(up, "alice", "battlefield", "b1").faceDown).toBe(false);
+  });
+
+  it("ignores cards in hand", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.FLIP_CARD, "alice", { cardId: "h1" })).toBe(state);
+  });
+});
+
+describe(GameActionTypes.TRANSFORM_CARD, () => {
+  const faces = [
+    { name: "Front", imageUrl: "https://cards.scryfall.io/front.png", type: "Creature" },
+    { name: "Back", imageUrl: "https://cards.scryfall.io/back.png", type: "Planeswalker" },
+  ];
+
+  it("turns a double-faced card to its next face and back", () => {
+    const state = withZone(makeState(), "alice", "battlefield", [
+      makeCard("dfc", "alice", "battlefield", { name: "Front", type: "Creature", faces }),
+    ]);
+
+    const back = act(state, GameActionTypes.TRANSFORM_CARD, "alice", { cardId: "dfc" });
+    expect(getCard(back, "alice", "battlefield", "dfc")).toMatchObject({
+      name: "Back",
+      type: "Planeswalker",
+      faceIndex: 1,
+    });
+
+    const front = act(back, GameActionTypes.TRANSFORM_CARD, "alice", { cardId: "dfc" });
+    expect(getCard(front, "alice", "battlefield", "dfc")).toMatchObject({ name: "Front", faceIndex: undefined });
+  });
+
+  it("shows the front face again once the card leaves the battlefield", () => {
+    let state = withZone(makeState(), "alice", "battlefield", [
+      makeCard("dfc", "alice", "battlefield", { name: "Front", type: "Creature", faces }),
+    ]);
+    state = act(state, GameActionTypes.TRANSFORM_CARD, "alice", { cardId: "dfc" });
+
+    const next = act(state, GameActionTypes.MOVE_CARD, "alice", { cardId: "dfc", toZone: "graveyard" });
+    expect(getCard(next, "alice", "graveyard", "dfc")).toMatchObject({ name: "Front", faceIndex: undefined });
+  });
+
+  it("ignores cards with a single face", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.TRANSFORM_CARD, "alice", { cardId: "b1" })).toBe(state);
+  });
+});
+
+
+describe(GameActionTypes.ATTACH_CARD, () => {
+  it("attaches a card to another and detaches it without a target", () => {
+    const attached = act(makeState(), GameActionTypes.ATTACH_CARD, "alice", { cardId: "b2", targetId: "b1" });
+    expect(getCard(attached, "alice", "battlefield", "b2").attachedTo).toBe("b1");
+
+    const detached = act(attached, GameActionTypes.ATTACH_CARD, "alice", { cardId: "b2" });
+    expect(getCard(detached, "alice", "battlefield", "b2").attachedTo).toBeUndefined();
+  });
+
+  it("ignores cards off the battlefield and unchanged attachments", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.ATTACH_CARD, "alice", { cardId: "h1", targetId: "b1" })).toBe(state);
+    expect(act(state, GameActionTypes.ATTACH_CARD, "alice", { cardId: "b2" })).toBe(state);
+  });
+});
+// ============================================
+// Zone changes
+// ============================================
+
+describe(GameActionTypes.DRAW_CARD, () => {
+  it("draws from the top of the library", () => {
+    const next = act(makeState(), GameActionTypes.DRAW_CARD, "alice");
+
+    expect(zoneIds(next, "alice", "hand")).toEqual(["h1", "h2", "l1"]);
+    expect(getCard(next, "alice", "hand", "l1").faceDown).toBe(false);
+    expect(zoneIds(next, "alice", "library")).toEqual(["l2", "l3", "l4", "l5"]);
+  });
+
+  it("draws several cards at once", () => {
+    const next = act(makeState(), GameActionTypes.DRAW_CARD, "alice", { count: 3 });
+    expect(zoneIds(next, "alice", "hand")).toEqual(["h1", "h2", "l1", "l2", "l3"]);
+  });
+
+  it("ignores non-positive counts and empty libraries", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.DRAW_CARD, "alice", { count: 0 })).toBe(state);
+    expect(act(state, GameActionTypes.DRAW_CARD, "bob")).toBe(state);
+  });
+});
+
+describe(GameActionTypes.LOOK_AT_LIBRARY, () => {
+  it("shows the top cards to the player only", () => {
+    const next = act(makeState(), GameActionTypes.LOOK_AT_LIBRARY, "alice", { count: 2 });
+
+    expect(next.players.alice.libraryView).toEqual({ count: 2, reveal: false });
+    expect(next.players.alice.zones.library.map((card) => card.revealedTo)).toEqual([
+      ["alice"],
+      ["alice"],
+      undefined,
+      undefined,
+      undefined,
+    ]);
+  });
+
+  it("reveals the top cards to every player", () => {
+    const next = act(makeState(), GameActionTypes.LOOK_AT_LIBRARY, "alice", { count: 1, reveal: true });
+    expect(getCard(next, "alice", "library", "l1").revealedTo).toEqual(PLAYERS);
+  });
+
+  it("shows the whole library when searching", () => {
+    const next = act(makeState(), GameActionTypes.LOOK_AT_LIBRARY, "alice", { reveal: true });
+
+    expect(next.players.alice.libraryView).toEqual({});
+    expect(next.players.alice.zones.library.every((card) => card.revealedTo?.join() === "alice")).toBe(true);
+  });
+
+  it("ignores a second look and non-positive counts", () => {
+    const state = makeState();
+    const looking = act(state, GameActionTypes.LOOK_AT_LIBRARY, "alice", { count: 1 });
+
+    expect(act(looking, GameActionTypes.LOOK_AT_LIBRARY, "alice", { count: 2 })).toBe(looking);
+    expect(act(state, GameActionTypes.LOOK_AT_LIBRARY, "alice", { count: 0 })).toBe(state);
+  });
+});
+
+describe(GameActionTypes.CLOSE_LIBRARY, () => {
+  it("puts looked-at cards on the top and bottom", () => {
+    const looking = act(makeState(), GameActionTypes.LOOK_AT_LIBRARY, "alice", { count: 2 });
+    const next = act(looking, GameActionTypes.CLOSE_LIBRARY, "alice", { top: ["l2"], bottom: ["l1"] });
+
+    expect(next.players.alice.libraryView).toBeUndefined();
+    expect(zoneIds(next, "alice", "library")).toEqual(["l2", "l3", "l4", "l5", "l1"]);
+    expect(next.players.alice.zones.library.every((card) => !card.revealedTo)).toBe(true);
+  });
+
+  it("shuffles after a search", () => {
+    const searching = act(makeState(), GameActionTypes.LOOK_AT_LIBRARY, "alice");
+    const next = act(searching, GameActionTypes.CLOSE_LIBRARY, "alice", { seed: 42 });
+
+    expect(zoneIds(next, "alice", "library").sort()).toEqual(["l1", "l2", "l3", "l4", "l5"]);
+    expect(next.players.alice.zones.library.every((card) => !card.revealedTo)).toBe(true);
+  });
+
+  it("ignores a search without a seed and players who are not looking", () => {
+    const state = makeState();
+    const searching = act(state, GameActionTypes.LOOK_AT_LIBRARY, "alice");
+
+    expect(act(searching, GameActionTypes.CLOSE_LIBRARY, "alice", {})).toBe(searching);
+    expect(act(state, GameActionTypes.CLOSE_LIBRARY, "alice", { seed: 1 })).toBe(state);
+  });
+});
+
+describe(GameActionTypes.MILL_CARDS, () => {
+  it("puts the top cards into the graveyard, last one on top", () => {
+    const next = act(makeState(), GameActionTypes.MILL_CARDS, "alice", { count: 2 });
+
+    expect(zoneIds(next, "alice", "graveyard")).toEqual(["l2", "l1"]);
+    expect(zoneIds(next, "alice", "library")).toEqual(["l3", "l4", "l5"]);
+  });
+
+  it("offers to return a milled commander", () => {
+    const state = withZone(makeState(), "alice", "library", [
+      makeCard("lc", "alice", "library", { isCommander: true }),
+    ]);
+    const next = act(state, GameActionTypes.MILL_CARDS, "alice", { count: 1 });
+
+    expect(next.players.alice.pendingCommanderReturns).toEqual(["lc"]);
+  });
+
+  it("ignores missing and non-positive counts", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.MILL_CARDS, "alice", {})).toBe(state);
+    expect(act(state, GameActionTypes.MILL_CARDS, "alice", { count: -1 })).toBe(state);
+  });
+});
+
+describe(GameActionTypes.PLAY_CARD, () => {
+  it("puts a card from hand onto the battlefield without commander tax", () => {
+    const next = act(makeState(), GameActionTypes.PLAY_CARD, "alice", { cardId: "h1", x: 5, y: 6 });
+
+    expect(zoneIds(next, "alice", "hand")).toEqual(["h2"]);
+    expect(getCard(next, "alice", "battlefield", "h1").position).toEqual({ x: 5, y: 6 });
+    expect(next.players.alice.commanderCasts).toBeUndefined();
+  });
+
+  it("ignores cards that are not in hand", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.PLAY_CARD, "alice", { cardId: "b1" })).toBe(state);
+  });
+});
+
+describe(GameActionTypes.CAST_SPELL, () => {
+  it("puts the spell on the stack and gives its caster priority", () => {
+    const state = makeState({ priorityPlayerId: "bob", priorityPasses: ["alice"] });
+    const next = act(state, GameActionTypes.CAST_SPELL, "bob", { cardId: "bh1", itemId: "s1" });
+
+    expect(zoneIds(next, "bob", "hand")).toEqual([]);
+    expect(next.stack).toEqual([
+      expect.objectContaining({ id: "s1", playerId: "bob", kind: "spell", text: "bh1" }),
+    ]);
+    expect(next.priorityPlayerId).toBe("bob");
+    expect(next.priorityPasses).toEqual([]);
+  });
+
+  it("ignores spells without an item id or from outside the hand", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.CAST_SPELL, "alice", { cardId: "h1" })).toBe(state);
+    expect(act(state, GameActionTypes.CAST_SPELL, "alice", { cardId: "b1", itemId: "s1" })).toBe(state);
+  });
+});
+
+describe(GameActionTypes.DISCARD_CARD, () => {
+  it("puts a card from hand on top of the graveyard", () => {
+    const next = act(makeState(), GameActionTypes.DISCARD_CARD, "alice", { cardId: "h2" });
+
+    expect(zoneIds(next, "alice", "hand")).toEqual(["h1"]);
+    expect(zoneIds(next, "alice", "graveyard")).toEqual(["h2"]);
+  });
+
+  it("ignores cards that are not in hand", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.DISCARD_CARD, "alice", { cardId: "b1" })).toBe(state);
+  });
+});
+
+describe(GameActionTypes.EXILE_CARD, () => {
+  it("exiles a card, face down if asked", () => {
+    const next = act(makeState(), GameActionTypes.EXILE_CARD, "alice", { cardId: "b1", faceDown: true });
+    expect(getCard(next, "alice", "exile", "b1").faceDown).toBe(true);
+  });
+
+  it("ignores unknown cards", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.EXILE_CARD, "alice", { cardId: "nope" })).toBe(state);
+  });
+});
+
+describe(GameActionTypes.RETURN_TO_HAND, () => {
+  it("returns a card to its owner's hand", () => {
+    const next = act(makeState(), GameActionTypes.RETURN_TO_HAND, "bob", { cardId: "b1" });
+    expect(zoneIds(next, "alice", "hand")).toEqual(["h1", "h2", "b1"]);
+  });
+
+  it("ignores unknown cards", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.RETURN_TO_HAND, "alice", { cardId: "nope" })).toBe(state);
+  });
+});
+
+describe(GameActionTypes.RETURN_TO_LIBRARY, () => {
+  it("puts a card on the top or the bottom of the library", () => {
+    const top = act(makeState(), GameActionTypes.RETURN_TO_LIBRARY, "alice", { cardId: "b1" });
+    expect(zoneIds(top, "alice", "library")[0]).toBe("b1");
+    expect(getCard(top, "alice", "library", "b1").faceDown).toBe(true);
+
+    const bottom = act(makeState(), GameActionTypes.RETURN_TO_LIBRARY, "alice", {
+      cardId: "b1",
+      position: "bottom",
+    });
+    expect(zoneIds(bottom, "alice", "library").at(-1)).toBe("b1");
+  });
+
+  it("ignores unknown cards", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.RETURN_TO_LIBRARY, "alice", { cardId: "nope" })).toBe(state);
+  });
+});
+
+describe(GameActionTypes.CAST_COMMANDER, () => {
+  it("puts the commander on the stack and adds to its tax", () => {
+    const next = act(makeState(), GameActionTypes.CAST_COMMANDER, "alice", { cardId: "cmd", itemId: "s1" });
+
+    expect(zoneIds(next, "alice", "command")).toEqual([]);
+    expect(next.stack).toEqual([expect.objectContaining({ id: "s1", kind: "spell", text: "cmd" })]);
+    expect(next.players.alice.commanderCasts).toEqual({ cmd: 1 });
+    expect(getCommanderTax(next.players.alice, "cmd")).toBe(COMMANDER_TAX_PER_CAST);
+  });
+
+  it("enters the battlefield once everyone passed", () => {
+    let state = act(makeState(), GameActionTypes.CAST_COMMANDER, "alice", { cardId: "cmd", itemId: "s1" });
+    for (const userId of PLAYERS) {
+      state = act(state, GameActionTypes.PASS_PRIORITY, userId);
+    }
+
+    expect(state.stack).toBeUndefined();
+    expect(zoneIds(state, "alice", "battlefield")).toContain("cmd");
+  });
+
+  it("adds to the tax on every cast from the command zone", () => {
+    let state = act(makeState(), GameActionTypes.CAST_COMMANDER, "alice", { cardId: "cmd", itemId: "s1" });
+    state = act(state, GameActionTypes.REMOVE_FROM_STACK, "bob", { itemId: "s1" });
+    state = act(state, GameActionTypes.RETURN_COMMANDER, "alice", { cardId: "cmd" });
+    state = act(state, GameActionTypes.CAST_COMMANDER, "alice", { cardId: "cmd", itemId: "s2" });
+
+    expect(getCommanderTax(state.players.alice, "cmd")).toBe(2 * COMMANDER_TAX_PER_CAST);
+  });
+
+  it("ignores casts without an item id or from outside the command zone", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.CAST_COMMANDER, "alice", { cardId: "cmd" })).toBe(state);
+    expect(act(state, GameActionTypes.CAST_COMMANDER, "alice", { cardId: "h1", itemId: "s1" })).toBe(state);
+  });
+});
+
+describe(GameActionTypes.RETURN_COMMANDER, () => {
+  it("moves a commander back to the command zone", () => {
+    let state = act(makeState(), GameActionTypes.CAST_COMMANDER, "alice", { cardId: "cmd" });
+    state = act(state, GameActionTypes.MOVE_CARD, "alice", { cardId: "cmd", toZone: "graveyard" });
+    expect(state.players.alice.pendingCommanderReturns).toEqual(["cmd"]);
+
+    const next = act(state, GameActionTypes.RETURN_COMMANDER, "alice", { cardId: "cmd" });
+
+    expect(zoneIds(next, "alice", "command")).toEqual(["cmd"]);
+    expect(next.players.alice.pendingCommanderReturns).toEqual([]);
+  });
+
+  it("ignores cards that are not commanders", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.RETURN_COMMANDER, "alice", { cardId: "b1" })).toBe(state);
+  });
+});
+
+describe(GameActionTypes.DECLINE_COMMANDER_RETURN, () => {
+  it("leaves the commander where it went", () => {
+    const state = act(makeState(), GameActionTypes.MOVE_CARD, "alice", { cardId: "cmd", toZone: "exile" });
+    const next = act(state, GameActionTypes.DECLINE_COMMANDER_RETURN, "alice", { cardId: "cmd" });
+
+    expect(next.players.alice.pendingCommanderReturns).toEqual([]);
+    expect(zoneIds(next, "alice", "exile")).toEqual(["cmd"]);
+  });
+
+  it("ignores commanders that are not waiting on a decision", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.DECLINE_COMMANDER_RETURN, "alice", { cardId: "cmd" })).toBe(state);
+  });
+});
+
+// ============================================
+// Counters
+// ============================================
+
+describe(GameActionTypes.ADD_COUNTER, () => {
+  it("adds counters to a card", () => {
+    const next = act(makeState(), GameActionTypes.ADD_COUNTER, "alice", {
+      cardId: "b1",
+      counter: "+1/+1",
+      amount: 2,
+    });
+    expect(getCard(next, "alice", "battlefield", "b1").counters).toEqual({ "+1/+1": 2 });
+  });
+
+  it("cancels out +1/+1 and -1/-1 counters", () => {
+    let state = act(makeState(), GameActionTypes.ADD_COUNTER, "alice", { cardId: "b1", counter: "+1/+1", amount: 3 });
+    state = act(state, GameActionTypes.ADD_COUNTER, "bob", { cardId: "b1", counter: "-1/-1", amount: 1 });
+
+    expect(getCard(state, "alice", "battlefield", "b1").counters).toEqual({ "+1/+1": 2 });
+  });
+
+  it("ignores empty counter names and non-positive amounts", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.ADD_COUNTER, "alice", { cardId: "b1", counter: "" })).toBe(state);
+    expect(act(state, GameActionTypes.ADD_COUNTER, "alice", { cardId: "b1", counter: "charge", amount: 0 })).toBe(
+      state
+    );
+  });
+});
+
+describe(GameActionTypes.REMOVE_COUNTER, () => {
+  it("removes counters and drops them at zero", () => {
+    let state = act(makeState(), GameActionTypes.ADD_COUNTER, "alice", { cardId: "b1", counter: "charge", amount: 2 });
+
+    state = act(state, GameActionTypes.REMOVE_COUNTER, "alice", { cardId: "b1", counter: "charge" });
+    expect(getCard(state, "alice", "battlefield", "b1").counters).toEqual({ charge: 1 });
+
+    state = act(state, GameActionTypes.REMOVE_COUNTER, "alice", { cardId: "b1", counter: "charge", amount: 5 });
+    expect(getCard(state, "alice", "battlefield", "b1").counters).toEqual({});
+  });
+
+  it("ignores counters the card does not have", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.REMOVE_COUNTER, "alice", { cardId: "b1", counter: "charge" })).toBe(state);
+  });
+});
+
+// ============================================
+// Life
+// ============================================
+
+describe(GameActionTypes.UPDATE_LIFE, () => {
+  it("changes a life total by a delta or sets it", () => {
+    const lost = act(makeState(), GameActionTypes.UPDATE_LIFE, "bob", { playerId: "bob", delta: -5 });
+    expect(lost.players.bob.lifeTotal).toBe(35);
+
+    const set = act(lost, GameActionTypes.UPDATE_LIFE, "bob", { playerId: "bob", lifeTotal: 20 });
+    expect(set.players.bob.lifeTotal).toBe(20);
+  });
+
+  it("ignores unchanged totals and unknown players", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.UPDATE_LIFE, "bob", { playerId: "bob", lifeTotal: 40 })).toBe(state);
+    expect(act(state, GameActionTypes.UPDATE_LIFE, "bob", { playerId: "nobody", delta: -1 })).toBe(state);
+  });
+});
+
+describe(GameActionTypes.DEAL_COMMANDER_DAMAGE, () => {
+  it("tracks damage per commander and takes it off the life total", () => {
+    const next = act(makeState(), GameActionTypes.DEAL_COMMANDER_DAMAGE, "alice", {
+      targetPlayerId: "bob",
+      commanderId: "cmd",
+      amount: 5,
+    });
+
+    expect(next.players.bob.lifeTotal).toBe(35);
+    expect(next.players.bob.commanderDamage).toEqual({ cmd: 5 });
+  });
+
+  it("gives life back when damage is corrected", () => {
+    let state = act(makeState(), GameActionTypes.DEAL_COMMANDER_DAMAGE, "alice", {
+      targetPlayerId: "bob",
+      commanderId: "cmd",
+      amount: 5,
+    });
+    state = act(state, GameActionTypes.DEAL_COMMANDER_DAMAGE, "alice", {
+      targetPlayerId: "bob",
+      commanderId: "cmd",
+      amount: -8,
+    });
+
+    expect(state.players.bob.lifeTotal).toBe(40);
+    expect(state.players.bob.commanderDamage).toEqual({ cmd: 0 });
+  });
+
+  it("eliminates a player at lethal commander damage", () => {
+    const next = act(makeState(), GameActionTypes.DEAL_COMMANDER_DAMAGE, "alice", {
+      targetPlayerId: "bob",
+      commanderId: "cmd",
+      amount: LETHAL_COMMANDER_DAMAGE,
+    });
+
+    expect(next.players.bob.isEliminated).toBe(true);
+  });
+
+  it("ignores damage from non-commanders and zero amounts", () => {
+    const state = makeState();
+    expect(
+      act(state, GameActionTypes.DEAL_COMMANDER_DAMAGE, "alice", { targetPlayerId: "bob", commanderId: "b1", amount: 3 })
+    ).toBe(state);
+    expect(
+      act(state, GameActionTypes.DEAL_COMMANDER_DAMAGE, "alice", { targetPlayerId: "bob", commanderId: "cmd", amount: 0 })
+    ).toBe(state);
+  });
+});
+
+describe(GameActionTypes.CREATE_TOKEN, () => {
+  it("creates one token per id on the creator's battlefield", () => {
+    const next = act(makeState(), GameActionTypes.CREATE_TOKEN, "bob", {
+      cardId: "soldier",
+      name: "Soldier",
+      imageUrl: "https://cards.scryfall.io/soldier.png",
+      type: "Creature",
+      count: 2,
+      tokenIds: ["t1", "t2"],
+    });
+
+    expect(zoneIds(next, "bob", "battlefield")).toEqual(["bb1", "t1", "t2"]);
+    expect(getCard(next, "bob", "battlefield", "t1")).toMatchObject({ isToken: true, ownerId: "bob", type: "Creature" });
+  });
+
+  it("ignores requests without token ids", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.CREATE_TOKEN, "bob", { cardId: "soldier", name: "Soldier", count: 1 })).toBe(
+      state
+    );
+  });
+});
+
+describe(GameActionTypes.ADD_PLAYER_COUNTER, () => {
+  it("adds counters to a player", () => {
+    const next = act(makeState(), GameActionTypes.ADD_PLAYER_COUNTER, "alice", {
+      playerId: "bob",
+      counter: "poison",
+      amount: 3,
+    });
+    expect(next.players.bob.counters).toEqual({ poison: 3 });
+  });
+
+  it("eliminates a player at lethal poison", () => {
+    const next = act(makeState(), GameActionTypes.ADD_PLAYER_COUNTER, "alice", {
+      playerId: "bob",
+      counter: "poison",
+      amount: LETHAL_POISON_COUNTERS,
+    });
+    expect(next.players.bob.isEliminated).toBe(true);
+  });
+
+  it("ignores unknown counters, players and non-positive amounts", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.ADD_PLAYER_COUNTER, "bob", { playerId: "bob", counter: "mana" })).toBe(state);
+    expect(act(state, GameActionTypes.ADD_PLAYER_COUNTER, "bob", { playerId: "nobody", counter: "energy" })).toBe(
+      state
+    );
+    expect(
+      act(state, GameActionTypes.ADD_PLAYER_COUNTER, "bob", { playerId: "bob", counter: "energy", amount: 0 })
+    ).toBe(state);
+  });
+});
+
+describe(GameActionTypes.REMOVE_PLAYER_COUNTER, () => {
+  it("removes counters and drops them at zero", () => {
+    let state = act(makeState(), GameActionTypes.ADD_PLAYER_COUNTER, "bob", {
+      playerId: "bob",
+      counter: "energy",
+      amount: 2,
+    });
+
+    state = act(state, GameActionTypes.REMOVE_PLAYER_COUNTER, "bob", { playerId: "bob", counter: "energy" });
+    expect(state.players.bob.counters).toEqual({ energy: 1 });
+
+    state = act(state, GameActionTypes.REMOVE_PLAYER_COUNTER, "bob", { playerId: "bob", counter: "energy" });
+    expect(state.players.bob.counters).toEqual({});
+  });
+
+  it("ignores counters the player does not have", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.REMOVE_PLAYER_COUNTER, "bob", { playerId: "bob", counter: "energy" })).toBe(
+      state
+    );
+  });
+});
+
+// ============================================
+// Turn management
+// ============================================
+
+describe(GameActionTypes.PASS_TURN, () => {
+  it("starts the next player's turn at their first stop", () => {
+    const state = makeState({
+      arrows: [{ id: "a1", playerId: "alice", from: { cardId: "b1" }, to: { playerId: "bob" } }],
+    });
+    const next = act(state, GameActionTypes.PASS_TURN, "alice");
+
+    expect(next).toMatchObject({ activePlayerId: "bob", turnNumber: 2, phase: "upkeep", priorityPlayerId: "bob" });
+    expect(next.arrows).toBeUndefined();
+    expect(getCard(next, "bob", "battlefield", "bb1").tapped).toBe(false);
+  });
+
+  it("skips eliminated players", () => {
+    const state = act(makeState(), GameActionTypes.CONCEDE, "bob");
+    expect(act(state, GameActionTypes.PASS_TURN, "alice").activePlayerId).toBe("carol");
+  });
+
+  it("ignores players whose turn it is not", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.PASS_TURN, "bob")).toBe(state);
+  });
+});
+
+describe(GameActionTypes.PASS_PRIORITY, () => {
+  it("moves on to the next step somebody stops at", () => {
+    const next = act(makeState(), GameActionTypes.PASS_PRIORITY, "alice");
+    expect(next).toMatchObject({ phase: "declare_attackers", priorityPlayerId: "alice", priorityPasses: [] });
+  });
+
+  it("hands priority to the next player who stops at this step", () => {
+    const state = makeState({ phase: "declare_attackers" });
+    const next = act(state, GameActionTypes.PASS_PRIORITY, "alice");
+
+    expect(next).toMatchObject({ phase: "declare_attackers", priorityPlayerId: "bob", priorityPasses: ["alice"] });
+  });
+
+  it("skips players without an auto-stop on the step", () => {
+    let state = makeState({ phase: "declare_attackers" });
+    state = act(state, GameActionTypes.SET_AUTO_STOPS, "bob", { phases: [] });
+
+    expect(act(state, GameActionTypes.PASS_PRIORITY, "alice").priorityPlayerId).toBe("carol");
+  });
+
+
+  it("resolves the top of the stack once everyone passed in a row", () => {
+    let state = act(makeState(), GameActionTypes.CAST_SPELL, "alice", { cardId: "h2", itemId: "s1" });
+    state = act(state, GameActionTypes.PASS_PRIORITY, "alice");
+    state = act(state, GameActionTypes.PASS_PRIORITY, "bob");
+    expect(state.stack).toHaveLength(1);
+
+    state = act(state, GameActionTypes.PASS_PRIORITY, "carol");
+    expect(state.stack).toBeUndefined();
+    expect(zoneIds(state, "alice", "graveyard")).toEqual(["h2"]);
+    expect(state.priorityPlayerId).toBe("alice");
+  });
+
+
+  it("ignores players without priority", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.PASS_PRIORITY, "bob")).toBe(state);
+  });
+});
+
+describe(GameActionTypes.NEXT_STEP, () => {
+  it("moves the active player on to the next stop", () => {
+    const next = act(makeState(), GameActionTypes.NEXT_STEP, "alice");
+    expect(next.phase).toBe("declare_attackers");
+  });
+
+  it("passes the turn after the last step", () => {
+    const next = act(makeState({ phase: "cleanup" }), GameActionTypes.NEXT_STEP, "alice");
+    expect(next.activePlayerId).toBe("bob");
+  });
+
+  it("ignores players whose turn it is not", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.NEXT_STEP, "bob")).toBe(state);
+  });
+});
+
+describe(GameActionTypes.SET_AUTO_STOPS, () => {
+  it("keeps known steps in turn order", () => {
+    const next = act(makeState(), GameActionTypes.SET_AUTO_STOPS, "bob", { phases: ["end", "upkeep", "lunch"] });
+    expect(next.players.bob.autoStops).toEqual(["upkeep", "end"]);
+  });
+
+  it("ignores payloads without a list of steps", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.SET_AUTO_STOPS, "bob", { phases: "upkeep" })).toBe(state);
+  });
+});
+
+// ============================================
+// Game state
+// ============================================
+
+describe(GameActionTypes.SHUFFLE_LIBRARY, () => {
+  it("shuffles the same way for the same seed and forgets revealed cards", () => {
+    const revealed = act(makeState(), GameActionTypes.REVEAL_CARD, "alice", { cardId: "l1" });
+    const once = act(revealed, GameActionTypes.SHUFFLE_LIBRARY, "alice", { seed: 7 });
+    const again = act(revealed, GameActionTypes.SHUFFLE_LIBRARY, "alice", { seed: 7 });
+
+    expect(zoneIds(once, "alice", "library")).toEqual(zoneIds(again, "alice", "library"));
+    expect(zoneIds(once, "alice", "library").sort()).toEqual(["l1", "l2", "l3", "l4", "l5"]);
+    expect(once.players.alice.zones.library.every((card) => !card.revealedTo)).toBe(true);
+  });
+
+  it("ignores shuffles without a seed", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.SHUFFLE_LIBRARY, "alice", {})).toBe(state);
+  });
+});
+
+describe(GameActionTypes.REVEAL_CARD, () => {
+  it("reveals a card to every player or to some", () => {
+    const all = act(makeState(), GameActionTypes.REVEAL_CARD, "alice", { cardId: "h1" });
+    expect(getCard(all, "alice", "hand", "h1").revealedTo).toEqual(PLAYERS);
+
+    const some = act(makeState(), GameActionTypes.REVEAL_CARD, "alice", { cardId: "h1", to: ["bob"] });
+    expect(getCard(some, "alice", "hand", "h1").revealedTo).toEqual(["bob"]);
+  });
+
+  it("is forgotten once the card changes zones", () => {
+    const state = act(makeState(), GameActionTypes.REVEAL_CARD, "alice", { cardId: "h1" });
+    const next = act(state, GameActionTypes.PLAY_CARD, "alice", { cardId: "h1" });
+
+    expect(getCard(next, "alice", "battlefield", "h1").revealedTo).toBeUndefined();
+  });
+
+  it("ignores unknown cards and cards already revealed to those players", () => {
+    const state = act(makeState(), GameActionTypes.REVEAL_CARD, "alice", { cardId: "h1", to: ["bob"] });
+    expect(act(state, GameActionTypes.REVEAL_CARD, "alice", { cardId: "h1", to: ["bob"] })).toBe(state);
+    expect(act(state, GameActionTypes.REVEAL_CARD, "alice", { cardId: "nope" })).toBe(state);
+  });
+});
+
+describe(GameActionTypes.DRAW_ARROW, () => {
+  it("adds an arrow for the player", () => {
+    const next = act(makeState(), GameActionTypes.DRAW_ARROW, "alice", {
+      from: { cardId: "b1" },
+      to: { playerId: "bob" },
+      arrowId: "a1",
+    });
+    expect(next.arrows).toEqual([{ id: "a1", playerId: "alice", from: { cardId: "b1" }, to: { playerId: "bob" } }]);
+  });
+
+  it("ignores arrows without an id", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.DRAW_ARROW, "alice", { from: { cardId: "b1" }, to: { playerId: "bob" } })).toBe(
+      state
+    );
+  });
+});
+
+describe(GameActionTypes.CLEAR_ARROW, () => {
+  const withArrows = () =>
+    makeState({
+      arrows: [
+        { id: "a1", playerId: "alice", from: { cardId: "b1" }, to: { playerId: "bob" } },
+        { id: "a2", playerId: "alice", from: { cardId: "b2" }, to: { playerId: "carol" } },
+        { id: "a3", playerId: "bob", from: { cardId: "bb1" }, to: { playerId: "alice" } },
+      ],
+    });
+
+  it("removes one arrow by id", () => {
+    const next = act(withArrows(), GameActionTypes.CLEAR_ARROW, "alice", { arrowId: "a2" });
+    expect(next.arrows?.map((arrow) => arrow.id)).toEqual(["a1", "a3"]);
+  });
+
+  it("clears all of the player's arrows without an id", () => {
+    const next = act(withArrows(), GameActionTypes.CLEAR_ARROW, "alice");
+    expect(next.arrows?.map((arrow) => arrow.id)).toEqual(["a3"]);
+  });
+
+  it("ignores players without arrows", () => {
+    const state = withArrows();
+    expect(act(state, GameActionTypes.CLEAR_ARROW, "carol")).toBe(state);
+  });
+});
+describe(GameActionTypes.ADD_TO_STACK, () => {
+  it("puts an ability on the stack", () => {
+    const next = act(makeState(), GameActionTypes.ADD_TO_STACK, "bob", { text: "  Draw a card  ", itemId: "s1" });
+    expect(next.stack).toEqual([{ id: "s1", playerId: "bob", kind: "ability", text: "Draw a card" }]);
+    expect(next.priorityPlayerId).toBe("bob");
+  });
+
+  it("ignores blank abilities and missing item ids", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.ADD_TO_STACK, "bob", { text: "   ", itemId: "s1" })).toBe(state);
+    expect(act(state, GameActionTypes.ADD_TO_STACK, "bob", { text: "Draw a card" })).toBe(state);
+  });
+});
+
+describe(GameActionTypes.REMOVE_FROM_STACK, () => {
+  it("counters a spell into its owner's graveyard", () => {
+    const state = act(makeState(), GameActionTypes.CAST_SPELL, "alice", { cardId: "h1", itemId: "s1" });
+    const next = act(state, GameActionTypes.REMOVE_FROM_STACK, "bob", { itemId: "s1" });
+
+    expect(next.stack).toBeUndefined();
+    expect(zoneIds(next, "alice", "graveyard")).toEqual(["h1"]);
+  });
+
+  it("removes an ability", () => {
+    const state = act(makeState(), GameActionTypes.ADD_TO_STACK, "alice", { text: "Scry 1", itemId: "s1" });
+    expect(act(state, GameActionTypes.REMOVE_FROM_STACK, "alice", { itemId: "s1" }).stack).toBeUndefined();
+  });
+
+  it("ignores unknown items", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.REMOVE_FROM_STACK, "alice", { itemId: "nope" })).toBe(state);
+  });
+});
+
+describe(GameActionTypes.CONCEDE, () => {
+  it("eliminates the player and moves their turn along", () => {
+    const next = act(makeState(), GameActionTypes.CONCEDE, "alice");
+
+    expect(next.players.alice).toMatchObject({ isEliminated: true, placement: 3 });
+    expect(next.activePlayerId).toBe("bob");
+    expect(next.result).toBeUndefined();
+  });
+
+  it("ends the game once a single player is left", () => {
+    let state = act(makeState(), GameActionTypes.CONCEDE, "bob");
+    state = act(state, GameActionTypes.CONCEDE, "carol");
+
+    expect(state.result).toEqual({ winnerId: "alice" });
+    expect(PLAYERS.map((userId) => state.players[userId].placement)).toEqual([1, 3, 2]);
+  });
+
+  it("passes priority on when the player held it", () => {
+    const state = makeState({ phase: "declare_attackers", priorityPlayerId: "bob", priorityPasses: ["alice"] });
+    expect(act(state, GameActionTypes.CONCEDE, "bob").priorityPlayerId).toBe("carol");
+  });
+
+  it("ignores players who are already out", () => {
+    const state = act(makeState(), GameActionTypes.CONCEDE, "bob");
+    expect(act(state, GameActionTypes.CONCEDE, "bob")).toBe(state);
+  });
+});
+
+
+describe(GameActionTypes.OFFER_DRAW, () => {
+  it("opens an offer accepted by the player who made it", () => {
+    const next = act(makeState(), GameActionTypes.OFFER_DRAW, "bob");
+    expect(next.drawOffer).toEqual({ playerId: "bob", acceptedBy: ["bob"] });
+  });
+
+  it("ignores a second offer", () => {
+    const state = act(makeState(), GameActionTypes.OFFER_DRAW, "bob");
+    expect(act(state, GameActionTypes.OFFER_DRAW, "carol")).toBe(state);
+  });
+});
+
+describe(GameActionTypes.RESPOND_DRAW, () => {
+  it("ends the game in a draw once everyone accepted", () => {
+    let state = act(makeState(), GameActionTypes.OFFER_DRAW, "bob");
+    state = act(state, GameActionTypes.RESPOND_DRAW, "alice", { accept: true });
+    expect(state.result).toBeUndefined();
+
+    state = act(state, GameActionTypes.RESPOND_DRAW, "carol", { accept: true });
+    expect(state.result).toEqual({ winnerId: null });
+    expect(PLAYERS.map((userId) => state.players[userId].placement)).toEqual([1, 1, 1]);
+  });
+
+  it("cancels the offer when declined", () => {
+    const state = act(makeState(), GameActionTypes.OFFER_DRAW, "bob");
+    expect(act(state, GameActionTypes.RESPOND_DRAW, "carol", { accept: false }).drawOffer).toBeUndefined();
+  });
+
+  it("ignores repeated answers and missing offers", () => {
+    const offered = act(makeState(), GameActionTypes.OFFER_DRAW, "bob");
+    expect(act(offered, GameActionTypes.RESPOND_DRAW, "bob", { accept: true })).toBe(offered);
+
+    const state = makeState();
+    expect(act(state, GameActionTypes.RESPOND_DRAW, "bob", { accept: true })).toBe(state);
+  });
+});
+
+describe("hasTimedOut", () => {
+  const waited = (state: GameState, seconds: number) => {
+    const last = act(state, GameActionTypes.TAP_CARD, "alice", { cardId: "b1" });
+    return (userId: string) => hasTimedOut(last, userId, START + seconds * 1000);
+  };
+
+  it("times out the player the game is waiting on after the AFK timeout", () => {
+    expect(waited(makeState(), DEFAULT_AFK_TIMEOUT_SECONDS - 1)("alice")).toBe(false);
+    expect(waited(makeState(), DEFAULT_AFK_TIMEOUT_SECONDS)("alice")).toBe(true);
+    expect(waited(makeState({ afkTimeoutSeconds: 60 }), 60)("alice")).toBe(true);
+  });
+
+  it("never times out players the game is not waiting on", () => {
+    expect(waited(makeState(), DEFAULT_AFK_TIMEOUT_SECONDS)("bob")).toBe(false);
+    expect(hasTimedOut(makeState(), "alice", START + DEFAULT_AFK_TIMEOUT_SECONDS * 1000)).toBe(false);
+  });
+});
+
+describe(GameActionTypes.START_AFK_VOTE, () => {
+  it("opens a vote carried by the player who called it", () => {
+    const next = act(makeState(), GameActionTypes.START_AFK_VOTE, "alice", { targetId: "bob", kind: "remove" });
+
+    expect(next.afkVote).toEqual({
+      playerId: "alice",
+      targetId: "bob",
+      kind: "remove",
+      acceptedBy: ["alice"],
+      startedAt: new Date(START).toISOString(),
+    });
+    expect(next.players.bob.isEliminated).toBe(false);
+  });
+
+  it("ignores votes on yourself, on eliminated players, and while one is pending", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.START_AFK_VOTE, "alice", { targetId: "alice", kind: "skip" })).toBe(state);
+
+    const conceded = act(state, GameActionTypes.CONCEDE, "bob");
+    expect(act(conceded, GameActionTypes.START_AFK_VOTE, "alice", { targetId: "bob", kind: "remove" })).toBe(
+      conceded
+    );
+
+    const voting = act(state, GameActionTypes.START_AFK_VOTE, "alice", { targetId: "bob", kind: "remove" });
+    expect(act(voting, GameActionTypes.START_AFK_VOTE, "carol", { targetId: "bob", kind: "skip" })).toBe(voting);
+  });
+});
+
+describe(GameActionTypes.RESPOND_AFK_VOTE, () => {
+  it("removes the player once the rest of the table agreed", () => {
+    let state = act(makeState(), GameActionTypes.START_AFK_VOTE, "alice", { targetId: "bob", kind: "remove" });
+    state = act(state, GameActionTypes.RESPOND_AFK_VOTE, "carol", { accept: true });
+
+    expect(state.afkVote).toBeUndefined();
+    expect(state.players.bob.isEliminated).toBe(true);
+  });
+
+  it("skips the turn of the active player", () => {
+    let state = makeState({ activePlayerId: "bob", priorityPlayerId: "bob" });
+    state = act(state, GameActionTypes.START_AFK_VOTE, "alice", { targetId: "bob", kind: "skip" });
+    state = act(state, GameActionTypes.RESPOND_AFK_VOTE, "carol", { accept: true });
+
+    expect(state).toMatchObject({ activePlayerId: "carol", turnNumber: 2 });
+  });
+
+  it("is called off by the player it is about or a declined vote", () => {
+    const state = act(makeState(), GameActionTypes.START_AFK_VOTE, "alice", { targetId: "bob", kind: "remove" });
+
+    expect(act(state, GameActionTypes.RESPOND_AFK_VOTE, "bob", { accept: true }).afkVote).toBeUndefined();
+    expect(act(state, GameActionTypes.RESPOND_AFK_VOTE, "carol", { accept: false }).afkVote).toBeUndefined();
+  });
+
+  it("lets the caller alone go ahead only after the grace period", () => {
+    const state = act(makeState({}, ["alice", "bob"]), GameActionTypes.START_AFK_VOTE, "alice", {
+      targetId: "bob",
+      kind: "remove",
+    });
+
+    const early = act(state, GameActionTypes.RESPOND_AFK_VOTE, "alice", { accept: true }, AFK_VOTE_GRACE_SECONDS - 1);
+    expect(early).toBe(state);
+
+    const late = act(state, GameActionTypes.RESPOND_AFK_VOTE, "alice", { accept: true }, AFK_VOTE_GRACE_SECONDS);
+    expect(late.players.bob.isEliminated).toBe(true);
+    expect(late.result).toEqual({ winnerId: "alice" });
+  });
+
+  it("ignores repeated answers and answers when there is no vote", () => {
+    const voting = act(makeState(), GameActionTypes.START_AFK_VOTE, "alice", { targetId: "bob", kind: "remove" });
+    expect(act(voting, GameActionTypes.RESPOND_AFK_VOTE, "alice", { accept: true })).toBe(voting);
+
+    const state = makeState();
+    expect(act(state, GameActionTypes.RESPOND_AFK_VOTE, "alice", { accept: true })).toBe(state);
+  });
+});
+
+// ============================================
+// Pre-game
+// ============================================
+
+describe("mulligans", () => {
+  const makeMulliganState = () => {
+    const libraries = PLAYERS.flatMap((userId) =>
+      Array.from({ length: 10 }, (_, i) => makeCard(`${userId}-${i}`, userId, "library"))
+    );
+    const base = makeState();
+    return startMulligan({
+      ...base,
+      players: Object.fromEntries(PLAYERS.map((userId) => [userId, makePlayer(userId, libraries)])),
+    });
+  };
+
+  describe(GameActionTypes.MULLIGAN, () => {
+    it("shuffles the hand back in and draws a new one", () => {
+      const next = act(makeMulliganState(), GameActionTypes.MULLIGAN, "bob", { seed: 3 });
+
+      expect(next.players.bob.zones.hand).toHaveLength(OPENING_HAND_SIZE);
+      expect(next.players.bob.zones.library).toHaveLength(10 - OPENING_HAND_SIZE);
+      expect(next.mulligans?.bob).toEqual({ mulligans: 1, kept: false });
+    });
+
+    it("ignores mulligans without a seed or after keeping", () => {
+      const state = makeMulliganState();
+      expect(act(state, GameActionTypes.MULLIGAN, "bob", {})).toBe(state);
+
+      const kept = act(state, GameActionTypes.KEEP_HAND, "bob", { bottomCardIds: [] });
+      expect(act(kept, GameActionTypes.MULLIGAN, "bob", { seed: 3 })).toBe(kept);
+    });
+
+    it("stops once another mulligan would leave no card to keep", () => {
+      let state = makeMulliganState();
+      for (let seed = 1; seed <= 10; seed++) {
+        state = act(state, GameActionTypes.MULLIGAN, "bob", { seed });
+      }
+
+      const status = state.mulligans!.bob;
+      expect(canMulligan(status)).toBe(false);
+      expect(cardsToBottom(status)).toBe(OPENING_HAND_SIZE - 1);
+    });
+  });
+
+  describe(GameActionTypes.KEEP_HAND, () => {
+    it("keeps after the free mulligan without bottoming anything", () => {
+      const state = act(makeMulliganState(), GameActionTypes.MULLIGAN, "alice", { seed: 3 });
+      const next = act(state, GameActionTypes.KEEP_HAND, "alice", { bottomCardIds: [] });
+
+      expect(next.players.alice.zones.hand).toHaveLength(OPENING_HAND_SIZE);
+      expect(next.mulligans?.alice).toEqual({ mulligans: 1, kept: true });
+    });
+
+    it("puts cards on the bottom after paid mulligans", () => {
+      const state = { ...makeMulliganState(), mulligans: { alice: { mulligans: 2, kept: false } } };
+      const bottom = state.players.alice.zones.hand[0].id;
+      const next = act(state, GameActionTypes.KEEP_HAND, "alice", { bottomCardIds: [bottom] });
+
+      expect(next.players.alice.zones.hand).toHaveLength(OPENING_HAND_SIZE - 1);
+      expect(zoneIds(next, "alice", "library").at(-1)).toBe(bottom);
+    });
+
+    it("starts turn 1 once everyone kept", () => {
+      let state = makeMulliganState();
+      for (const userId of PLAYERS) {
+        state = act(state, GameActionTypes.KEEP_HAND, userId, { bottomCardIds: [] });
+      }
+
+      expect(state.mulligans).toBeUndefined();
+      expect(state).toMatchObject({ activePlayerId: "alice", phase: "upkeep", priorityPlayerId: "alice" });
+    });
+
+    it("ignores the wrong number of bottom cards and cards not in hand", () => {
+      const state = makeMulliganState();
+      const inHand = state.players.alice.zones.hand[0].id;
+
+      expect(act(state, GameActionTypes.KEEP_HAND, "alice", { bottomCardIds: [inHand] })).toBe(state);
+
+      const paid = { ...state, mulligans: { ...state.mulligans, alice: { mulligans: 2, kept: false } } };
+      expect(act(paid, GameActionTypes.KEEP_HAND, "alice", { bottomCardIds: ["alice-9"] })).toBe(paid);
+    });
+  });
+});
+
+// ============================================
+// Undo
+// ============================================
+
+
+describe(GameActionTypes.REQUEST_UNDO, () => {
+  it("opens a request for the given actions", () => {
+    const next = act(makeState(), GameActionTypes.REQUEST_UNDO, "alice", { count: 2, seqs: [3, 4] });
+    expect(next.undoRequest).toEqual({
+      playerId: "alice",
+      seqs: [3, 4],
+      approvedBy: [],
+      requestedAt: new Date(START).toISOString(),
+    });
+  });
+
+  it("ignores requests without actions and while one is pending", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.REQUEST_UNDO, "alice", { count: 1, seqs: [] })).toBe(state);
+
+    const pending = act(state, GameActionTypes.REQUEST_UNDO, "alice", { count: 1, seqs: [3] });
+    expect(act(pending, GameActionTypes.REQUEST_UNDO, "bob", { count: 1, seqs: [4] })).toBe(pending);
+  });
+});
+
+describe(GameActionTypes.RESPOND_UNDO, () => {
+  const requested = () => act(makeState(), GameActionTypes.REQUEST_UNDO, "alice", { count: 1, seqs: [3] });
+
+  it("records approvals", () => {
+    const next = act(requested(), GameActionTypes.RESPOND_UNDO, "bob", { approve: true });
+    expect(next.undoRequest?.approvedBy).toEqual(["bob"]);
+  });
+
+  it("is approved once every other player still in the game approved", () => {
+    let state = act(requested(), GameActionTypes.RESPOND_UNDO, "bob", { approve: true });
+    expect(isUndoApproved(state)).toBe(false);
+
+    state = act(state, GameActionTypes.CONCEDE, "carol");
+    expect(isUndoApproved(state)).toBe(true);
+  });
+
+  it("clears the request when rejected", () => {
+    expect(act(requested(), GameActionTypes.RESPOND_UNDO, "carol", { approve: false }).undoRequest).toBeUndefined();
+  });
+
+  it("ignores the requester's own approval and repeated approvals", () => {
+    const state = requested();
+    expect(act(state, GameActionTypes.RESPOND_UNDO, "alice", { approve: true })).toBe(state);
+
+    const approved = act(state, GameActionTypes.RESPOND_UNDO, "bob", { approve: true });
+    expect(act(approved, GameActionTypes.RESPOND_UNDO, "bob", { approve: true })).toBe(approved);
+  });
+});
+
+describe(GameActionTypes.UNDO, () => {
+  it("is left to rebuildGameState", () => {
+    const state = makeState();
+    expect(act(state, GameActionTypes.UNDO, "alice", { seqs: [3] })).toBe(state);
+  });
+});
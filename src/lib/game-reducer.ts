@@ -0,0 +1,1350 @@
+/**
+ * Pure game state reducer.
+ * Every GameActionTypes entry is applied here so the game page, the server
+ * and replays all run exactly the same logic. The one exception is UNDO,
+ * which rebuilds the state from the action history (see game-replay.ts).
+ */
+
+import {
+  AddToStackPayload,
+  AFK_VOTE_GRACE_SECONDS,
+  AttachCardPayload,
+  CardPayload,
+  CastSpellPayload,
+  ClearArrowPayload,
+  CloseLibraryPayload,
+  CommanderDamagePayload,
+  CounterPayload,
+  CreateTokenPayload,
+  DEFAULT_AFK_TIMEOUT_SECONDS,
+  DEFAULT_AUTO_STOPS,
+  DrawArrowPayload,
+  DrawCardPayload,
+  ExileCardPayload,
+  GameAction,
+  GameActionTypes,
+  GameArrow,
+  GameCard,
+  GamePhase,
+  GamePhases,
+  GamePlayer,
+  GameState,
+  KeepHandPayload,
+  LookAtLibraryPayload,
+  MillCardsPayload,
+  MoveCardPayload,
+  MulliganPayload,
+  MulliganStatus,
+  PlayCardPayload,
+  PlayerCounterPayload,
+  PlayerCounterTypes,
+  RemoveFromStackPayload,
+  ReturnToLibraryPayload,
+  RequestUndoPayload,
+  RespondAfkVotePayload,
+  RespondDrawPayload,
+  RespondUndoPayload,
+  RevealCardPayload,
+  SetAutoStopsPayload,
+  ShuffleLibraryPayload,
+  StackItem,
+  StartAfkVotePayload,
+  TapCardPayload,
+  UpdateLifePayload,
+  Zone,
+} from "@/lib/game-state";
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Applies a single action to the game state and returns the next state.
+ * The input state is never mutated. Actions that reference unknown players
+ * or cards leave the state untouched.
+ */
+export function applyGameAction(state: GameState, action: GameAction): GameState {
+  const next = reduce(state, action);
+
+  if (next === state) {
+    return state;
+  }
+
+  return {
+    ...next,
+    lastAction: {
+      playerId: action.playerId,
+      action: action.type,
+      timestamp: action.timestamp,
+    },
+  };
+}
+
+/**
+ * Applies a list of actions in order.
+ */
+export function applyGameActions(state: GameState, actions: GameAction[]): GameState {
+  return actions.reduce(applyGameAction, state);
+}
+
+/**
+ * Locates a card in any player's zones.
+ */
+export function findCard(state: GameState, cardId: string): CardLocation | null {
+  for (const player of Object.values(state.players)) {
+    for (const zone of ZONES) {
+      const index = player.zones[zone].findIndex((card) => card.id === cardId);
+      if (index !== -1) {
+        return { playerId: player.userId, zone, index, card: player.zones[zone][index] };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Generates a seed for SHUFFLE_LIBRARY actions.
+ */
+export function createShuffleSeed(): number {
+  return Math.floor(Math.random() * 0xffffffff);
+}
+
+/**
+ * Deterministic Fisher-Yates shuffle driven by a 32-bit seed.
+ */
+export function shuffleWithSeed<T>(array: T[], seed: number): T[] {
+  const random = mulberry32(seed);
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Whether every player still in the game accepted the pending draw offer.
+ */
+export function isDrawAgreed(state: GameState): boolean {
+  const offer = state.drawOffer;
+  if (!offer) return false;
+
+  return state.turnOrder.every(
+    (userId) => state.players[userId]?.isEliminated || offer.acceptedBy.includes(userId)
+  );
+}
+
+/**
+ * Whether every player still in the game, other than the one it is
+ * about, voted for the pending AFK vote. The caller alone is not enough
+ * until AFK_VOTE_GRACE_SECONDS passed by `now`, if given.
+ */
+export function isAfkVoteAgreed(state: GameState, now?: number): boolean {
+  const vote = state.afkVote;
+  if (!vote) return false;
+
+  const everyoneVoted = state.turnOrder.every(
+    (userId) =>
+      userId === vote.targetId ||
+      state.players[userId]?.isEliminated ||
+      vote.acceptedBy.includes(userId)
+  );
+  const seconded = vote.acceptedBy.some((userId) => userId !== vote.playerId);
+  const graceOver =
+    now !== undefined && now - Date.parse(vote.startedAt) >= AFK_VOTE_GRACE_SECONDS * 1000;
+
+  return everyoneVoted && (seconded || graceOver);
+}
+
+/**
+ * Whether the game is waiting on the player: they have yet to keep
+ * their opening hand, hold priority, or it is their turn.
+ */
+export function isHoldingUpGame(state: GameState, userId: string): boolean {
+  const player = state.players[userId];
+  if (!player || player.isEliminated || state.result) return false;
+
+  if (state.mulligans) return !state.mulligans[userId]?.kept;
+  return state.priorityPlayerId === userId || state.activePlayerId === userId;
+}
+
+/**
+ * Whether the game has waited on the player for the AFK timeout,
+ * counted from the last action anyone took, so a vote may be called.
+ */
+export function hasTimedOut(state: GameState, userId: string, now: number): boolean {
+  if (!isHoldingUpGame(state, userId) || !state.lastAction) return false;
+
+  const timeout = (state.afkTimeoutSeconds ?? DEFAULT_AFK_TIMEOUT_SECONDS) * 1000;
+  return now - Date.parse(state.lastAction.timestamp) >= timeout;
+}
+
+/**
+ * Whether a vote could skip the player: it is their turn and nothing is
+ * waiting on the stack, or they hold priority.
+ */
+export function canSkipTurn(state: GameState, userId: string): boolean {
+  if (state.mulligans || state.result) return false;
+
+  return (
+    state.priorityPlayerId === userId ||
+    (state.activePlayerId === userId && !state.stack?.length)
+  );
+}
+
+/**
+ * Whether every other player still in the game approved the pending undo.
+ */
+export function isUndoApproved(state: GameState): boolean {
+  const request = state.undoRequest;
+  if (!request) return false;
+
+  return state.turnOrder.every(
+    (userId) =>
+      userId === request.playerId ||
+      state.players[userId]?.isEliminated ||
+      request.approvedBy.includes(userId)
+  );
+}
+
+export const OPENING_HAND_SIZE = 7;
+
+export const COMMANDER_TAX_PER_CAST = 2;
+
+export const LETHAL_COMMANDER_DAMAGE = 21;
+
+export const LETHAL_POISON_COUNTERS = 10;
+
+export const MAX_TOKENS_PER_ACTION = 50;
+
+/**
+ * Card types that go to the graveyard instead of the battlefield when they resolve.
+ */
+const NON_PERMANENT_TYPES = ["Instant", "Sorcery"];
+
+/**
+ * Extra generic mana a commander costs to cast from the command zone:
+ * two for every previous cast. Partners are counted separately.
+ */
+export function getCommanderTax(player: GamePlayer, cardId: string): number {
+  return (player.commanderCasts?.[cardId] || 0) * COMMANDER_TAX_PER_CAST;
+}
+
+/**
+ * Commander lets every player take their first mulligan for free.
+ */
+export const FREE_MULLIGANS = 1;
+
+/**
+ * Deals every player an opening hand and starts the mulligan.
+ * Expects shuffled libraries.
+ */
+export function startMulligan(state: GameState): GameState {
+  const mulligans: Record<string, MulliganStatus> = {};
+  let next = state;
+
+  for (const userId of state.turnOrder) {
+    next = drawCards(next, userId, OPENING_HAND_SIZE);
+    mulligans[userId] = { mulligans: 0, kept: false };
+  }
+
+  return { ...next, mulligans, priorityPlayerId: "", priorityPasses: [] };
+}
+
+/**
+ * How many cards a player puts on the bottom when keeping (London mulligan).
+ */
+export function cardsToBottom(status: MulliganStatus): number {
+  return Math.max(0, status.mulligans - FREE_MULLIGANS);
+}
+
+/**
+ * Whether the player may mulligan again. Another mulligan has to leave
+ * at least one card to keep, or the hand could never be kept.
+ */
+export function canMulligan(status: MulliganStatus): boolean {
+  return !status.kept && cardsToBottom({ ...status, mulligans: status.mulligans + 1 }) < OPENING_HAND_SIZE;
+}
+
+/**
+ * Begins the active player's turn: untaps their permanents and moves
+ * to the first step somebody stops at.
+ */
+export function startTurn(state: GameState): GameState {
+  // Arrows only point things out for the turn they were drawn in
+  const untapped = updatePlayer({ ...state, phase: "untap", arrows: undefined }, state.activePlayerId, (player) => ({
+    ...player,
+    zones: {
+      ...player.zones,
+      battlefield: player.zones.battlefield.map((card) =>
+        card.tapped ? { ...card, tapped: false } : card
+      ),
+    },
+  }));
+
+  return advanceStep(untapped);
+}
+
+/**
+ * Whether the game stops at a step instead of skipping it.
+ * Main phases always stop so the active player gets to act.
+ */
+export function isStopStep(state: GameState, phase: GamePhase): boolean {
+  if (phase === "main1" || phase === "main2") return true;
+  if (phase === "untap") return false;
+
+  return state.turnOrder.some((userId) => playerStopsAt(state, userId, phase));
+}
+
+export interface CardLocation {
+  playerId: string; // Player whose zones currently hold the card
+  zone: Zone;
+  index: number;
+  card: GameCard;
+}
+
+// ============================================
+// Reducer
+// ============================================
+
+/**
+ * Every zone a card can be moved to.
+ */
+export const ZONES: Zone[] = ["library", "hand", "battlefield", "graveyard", "exile", "command"];
+
+function reduce(state: GameState, action: GameAction): GameState {
+  switch (action.type) {
+    case GameActionTypes.MOVE_CARD: {
+      const { cardId, toZone, toPlayerId, x, y, index, faceDown } =
+        action.payload as unknown as MoveCardPayload;
+      const position = x !== undefined && y !== undefined ? { x, y } : undefined;
+
+      // Without a destination zone this is a reposition on the battlefield.
+      // Dragging an attached card away from its host unattaches it.
+      if (!toZone) {
+        if (!position) return state;
+        return updateCard(state, cardId, (card) =>
+          card.zone === "battlefield" ? { ...card, position, attachedTo: undefined } : card
+        );
+      }
+
+      return moveCard(state, cardId, toZone, { toPlayerId, position, index, faceDown });
+    }
+
+    case GameActionTypes.TAP_CARD: {
+      const { cardId, tapped = true } = action.payload as unknown as TapCardPayload;
+      return updateCard(state, cardId, (card) =>
+        card.zone === "battlefield" && card.tapped !== tapped ? { ...card, tapped } : card
+      );
+    }
+
+    case GameActionTypes.UNTAP_CARD: {
+      const { cardId } = action.payload as unknown as CardPayload;
+      return updateCard(state, cardId, (card) =>
+        card.tapped ? { ...card, tapped: false } : card
+      );
+    }
+
+    case GameActionTypes.FLIP_CARD: {
+      const { cardId } = action.payload as unknown as CardPayload;
+      return updateCard(state, cardId, (card) =>
+        card.zone === "battlefield" || card.zone === "exile"
+          ? { ...card, faceDown: !card.faceDown }
+          : card
+      );
+    }
+
+    case GameActionTypes.TRANSFORM_CARD: {
+      const { cardId } = action.payload as unknown as CardPayload;
+      return updateCard(state, cardId, (card) =>
+        card.faces && card.faces.length > 1
+          ? turnToFace(card, ((card.faceIndex || 0) + 1) % card.faces.length)
+          : card
+      );
+    }
+
+    case GameActionTypes.ATTACH_CARD: {
+      const { cardId, targetId } = action.payload as unknown as AttachCardPayload;
+      return updateCard(state, cardId, (card) =>
+        card.zone === "battlefield" && card.attachedTo !== targetId
+          ? { ...card, attachedTo: targetId }
+          : card
+      );
+    }
+
+    case GameActionTypes.DRAW_CARD: {
+      const { count = 1 } = action.payload as DrawCardPayload;
+      if (count <= 0) return state;
+      return drawCards(state, action.playerId, count);
+    }
+
+    case GameActionTypes.LOOK_AT_LIBRARY: {
+      const { count, reveal } = action.payload as LookAtLibraryPayload;
+      const player = state.players[action.playerId];
+      if (!player || player.libraryView || (count !== undefined && count <= 0)) return state;
+
+      // Searching shows the whole library to its owner only
+      const viewers = count !== undefined && reveal ? state.turnOrder : [action.playerId];
+      const looked = count ?? player.zones.library.length;
+
+      return updatePlayer(state, action.playerId, (p) => ({
+        ...p,
+        libraryView: count !== undefined ? { count, reveal: !!reveal } : {},
+        zones: {
+          ...p.zones,
+          library: p.zones.library.map((card, index) =>
+            index < looked
+              ? { ...card, revealedTo: Array.from(new Set([...(card.revealedTo || []), ...viewers])) }
+              : card
+          ),
+        },
+      }));
+    }
+
+    case GameActionTypes.CLOSE_LIBRARY: {
+      const { top = [], bottom = [], seed } = action.payload as CloseLibraryPayload;
+      const player = state.players[action.playerId];
+      if (!player?.libraryView) return state;
+
+      const searching = player.libraryView.count === undefined;
+      if (searching && typeof seed !== "number") return state;
+
+      const library = player.zones.library;
+      const pick = (ids: string[]) =>
+        ids.map((id) => library.find((card) => card.id === id)).filter((card) => !!card);
+      const placed = new Set([...top, ...bottom]);
+      const arranged = [...pick(top), ...library.filter((card) => !placed.has(card.id)), ...pick(bottom)];
+
+      // Put back cards are unknown again
+      const hidden = arranged.map((card) => (card.revealedTo ? { ...card, revealedTo: undefined } : card));
+
+      return updatePlayer(state, action.playerId, (p) => ({
+        ...p,
+        libraryView: undefined,
+        zones: {
+          ...p.zones,
+          library: searching ? shuffleWithSeed(hidden, seed!) : hidden,
+        },
+      }));
+    }
+
+    case GameActionTypes.MILL_CARDS: {
+      const { count } = action.payload as unknown as MillCardsPayload;
+      const player = state.players[action.playerId];
+      if (!player || !count || count <= 0) return state;
+
+      const milled = player.zones.library
+        .slice(0, count)
+        .map((card) => enterZone(card, "graveyard", player.userId, {}));
+
+      const next = updatePlayer(state, action.playerId, (p) => ({
+        ...p,
+        zones: {
+          ...p.zones,
+          library: p.zones.library.slice(milled.length),
+          graveyard: [...[...milled].reverse(), ...p.zones.graveyard],
+        },
+      }));
+
+      return milled
+        .filter((card) => card.isCommander)
+        .reduce((current, card) => trackCommanderReturn(current, card, "graveyard"), next);
+    }
+
+    case GameActionTypes.PLAY_CARD: {
+      const { cardId, x, y } = action.payload as unknown as PlayCardPayload;
+      const location = findCard(state, cardId);
+      if (!location || location.zone !== "hand") return state;
+
+      const position = x !== undefined && y !== undefined ? { x, y } : undefined;
+      return moveCard(state, cardId, "battlefield", { position });
+    }
+
+    case GameActionTypes.CAST_SPELL: {
+      const { cardId, itemId } = action.payload as unknown as CastSpellPayload;
+      const location = findCard(state, cardId);
+      if (!itemId || !location || location.zone !== "hand") return state;
+
+      const card = { ...location.card, revealedTo: undefined };
+      return addToStack(removeCard(state, location), {
+        id: itemId,
+        playerId: action.playerId,
+        kind: "spell",
+        text: card.name,
+        card,
+      });
+    }
+
+    case GameActionTypes.DISCARD_CARD: {
+      const { cardId } = action.payload as unknown as CardPayload;
+      const location = findCard(state, cardId);
+      if (!location || location.zone !== "hand") return state;
+
+      return moveCard(state, cardId, "graveyard", {});
+    }
+
+    case GameActionTypes.EXILE_CARD: {
+      const { cardId, faceDown } = action.payload as unknown as ExileCardPayload;
+      return moveCard(state, cardId, "exile", { faceDown });
+    }
+
+    case GameActionTypes.RETURN_TO_HAND: {
+      const { cardId } = action.payload as unknown as CardPayload;
+      return moveCard(state, cardId, "hand", {});
+    }
+
+    case GameActionTypes.RETURN_TO_LIBRARY: {
+      const { cardId, position = "top" } = action.payload as unknown as ReturnToLibraryPayload;
+      return moveCard(state, cardId, "library", {
+        index: position === "top" ? 0 : Number.MAX_SAFE_INTEGER,
+      });
+    }
+
+    case GameActionTypes.CAST_COMMANDER: {
+      const { cardId, itemId } = action.payload as unknown as CastSpellPayload;
+      const location = findCard(state, cardId);
+      if (!itemId || !location || location.zone !== "command" || !location.card.isCommander) return state;
+
+      // Commanders are spells like any other, so the table can respond
+      const card = { ...location.card, revealedTo: undefined };
+      const cast = addToStack(removeCard(state, location), {
+        id: itemId,
+        playerId: action.playerId,
+        kind: "spell",
+        text: card.name,
+        card,
+      });
+
+      // Each cast from the command zone adds to the commander tax
+      return updatePlayer(cast, card.ownerId, (player) => ({
+        ...player,
+        commanderCasts: {
+          ...player.commanderCasts,
+          [cardId]: (player.commanderCasts?.[cardId] || 0) + 1,
+        },
+      }));
+    }
+
+    case GameActionTypes.RETURN_COMMANDER: {
+      const { cardId } = action.payload as unknown as CardPayload;
+      const location = findCard(state, cardId);
+      if (!location || !location.card.isCommander) return state;
+
+      return moveCard(state, cardId, "command", {});
+    }
+
+    case GameActionTypes.DECLINE_COMMANDER_RETURN: {
+      const { cardId } = action.payload as unknown as CardPayload;
+      const player = state.players[action.playerId];
+      if (!player?.pendingCommanderReturns?.includes(cardId)) return state;
+
+      return updatePlayer(state, action.playerId, (p) => ({
+        ...p,
+        pendingCommanderReturns: p.pendingCommanderReturns!.filter((id) => id !== cardId),
+      }));
+    }
+
+    case GameActionTypes.ADD_COUNTER:
+    case GameActionTypes.REMOVE_COUNTER: {
+      const { cardId, counter, amount = 1 } = action.payload as unknown as CounterPayload;
+      if (!counter || amount <= 0) return state;
+
+      const delta = action.type === GameActionTypes.ADD_COUNTER ? amount : -amount;
+      return updateCard(state, cardId, (card) => {
+        const current = card.counters[counter] || 0;
+        const value = Math.max(0, current + delta);
+        if (value === current) return card;
+
+        const counters = { ...card.counters, [counter]: value };
+
+        // +1/+1 and -1/-1 counters on the same permanent cancel out
+        const cancelled = Math.min(counters["+1/+1"] || 0, counters["-1/-1"] || 0);
+        if (cancelled > 0) {
+          counters["+1/+1"] -= cancelled;
+          counters["-1/-1"] -= cancelled;
+        }
+
+        for (const [name, count] of Object.entries(counters)) {
+          if (count === 0) delete counters[name];
+        }
+        return { ...card, counters };
+      });
+    }
+
+    case GameActionTypes.UPDATE_LIFE: {
+      const { playerId, lifeTotal, delta } = action.payload as unknown as UpdateLifePayload;
+      return updatePlayer(state, playerId, (player) => {
+        const next = lifeTotal ?? player.lifeTotal + (delta ?? 0);
+        return next === player.lifeTotal ? player : { ...player, lifeTotal: next };
+      });
+    }
+
+    case GameActionTypes.CREATE_TOKEN: {
+      const { cardId, name, imageUrl, type, tokenIds } = action.payload as unknown as CreateTokenPayload;
+      if (!tokenIds || tokenIds.length === 0) return state;
+
+      const tokens: GameCard[] = tokenIds.map((id) => ({
+        id,
+        cardId,
+        name,
+        imageUrl,
+        type: typeof type === "string" ? type : undefined,
+        zone: "battlefield",
+        ownerId: action.playerId,
+        controllerId: action.playerId,
+        tapped: false,
+        faceDown: false,
+        counters: {},
+        isCommander: false,
+        isToken: true,
+      }));
+
+      return updatePlayer(state, action.playerId, (player) => ({
+        ...player,
+        zones: { ...player.zones, battlefield: [...player.zones.battlefield, ...tokens] },
+      }));
+    }
+
+    case GameActionTypes.ADD_PLAYER_COUNTER:
+    case GameActionTypes.REMOVE_PLAYER_COUNTER: {
+      const { playerId, counter, amount = 1 } = action.payload as unknown as PlayerCounterPayload;
+      const player = state.players[playerId];
+      if (!player || player.isEliminated || !PlayerCounterTypes.includes(counter) || amount <= 0) {
+        return state;
+      }
+
+      const current = player.counters?.[counter] || 0;
+      const delta = action.type === GameActionTypes.ADD_PLAYER_COUNTER ? amount : -amount;
+      const value = Math.max(0, current + delta);
+      if (value === current) return state;
+
+      const counters = { ...player.counters };
+      if (value === 0) {
+        delete counters[counter];
+      } else {
+        counters[counter] = value;
+      }
+      const updated = updatePlayer(state, playerId, (p) => ({ ...p, counters }));
+
+      // Ten or more poison counters eliminates the player
+      return counter === "poison" && value >= LETHAL_POISON_COUNTERS
+        ? eliminatePlayer(updated, playerId)
+        : updated;
+    }
+
+    case GameActionTypes.DEAL_COMMANDER_DAMAGE: {
+      const { targetPlayerId, commanderId, amount } =
+        action.payload as unknown as CommanderDamagePayload;
+      const source = findCard(state, commanderId);
+      const target = state.players[targetPlayerId];
+      if (!amount || !source?.card.isCommander || !target || target.isEliminated) return state;
+
+      const previous = target.commanderDamage[commanderId] || 0;
+      const total = Math.max(0, previous + amount);
+      if (total === previous) return state;
+
+      const damaged = updatePlayer(state, targetPlayerId, (player) => ({
+        ...player,
+        lifeTotal: player.lifeTotal - (total - previous),
+        commanderDamage: { ...player.commanderDamage, [commanderId]: total },
+      }));
+
+      // 21 combat damage from a single commander eliminates the player
+      return total >= LETHAL_COMMANDER_DAMAGE
+        ? eliminatePlayer(damaged, targetPlayerId)
+        : damaged;
+    }
+
+    case GameActionTypes.PASS_TURN: {
+      if (action.playerId !== state.activePlayerId) return state;
+      return passTurn(state);
+    }
+
+    case GameActionTypes.PASS_PRIORITY: {
+      if (action.playerId !== state.priorityPlayerId) return state;
+      return passPriority(state);
+    }
+
+    case GameActionTypes.NEXT_STEP: {
+      if (action.playerId !== state.activePlayerId) return state;
+      return advanceStep(state);
+    }
+
+    case GameActionTypes.SET_AUTO_STOPS: {
+      const { phases } = action.payload as unknown as SetAutoStopsPayload;
+      if (!Array.isArray(phases)) return state;
+
+      const autoStops = GamePhases.filter((phase) => phases.includes(phase));
+      return updatePlayer(state, action.playerId, (player) => ({ ...player, autoStops }));
+    }
+
+    case GameActionTypes.SHUFFLE_LIBRARY: {
+      const { seed } = action.payload as unknown as ShuffleLibraryPayload;
+      if (typeof seed !== "number") return state;
+
+      return updatePlayer(state, action.playerId, (player) => ({
+        ...player,
+        zones: {
+          ...player.zones,
+          // A shuffled library is unknown again, even for revealed cards
+          library: shuffleWithSeed(player.zones.library, seed).map((card) =>
+            card.revealedTo ? { ...card, revealedTo: undefined } : card
+          ),
+        },
+      }));
+    }
+
+    case GameActionTypes.REVEAL_CARD: {
+      const { cardId, to } = action.payload as unknown as RevealCardPayload;
+      const viewers = to ?? state.turnOrder;
+
+      return updateCard(state, cardId, (card) => {
+        const revealedTo = Array.from(new Set([...(card.revealedTo || []), ...viewers]));
+        return revealedTo.length === (card.revealedTo?.length || 0)
+          ? card
+          : { ...card, revealedTo };
+      });
+    }
+
+    case GameActionTypes.DRAW_ARROW: {
+      const { from, to, arrowId } = action.payload as unknown as DrawArrowPayload;
+      if (!arrowId) return state;
+
+      return {
+        ...state,
+        arrows: [...(state.arrows || []), { id: arrowId, playerId: action.playerId, from, to }],
+      };
+    }
+
+    case GameActionTypes.CLEAR_ARROW: {
+      const { arrowId } = action.payload as ClearArrowPayload;
+      return removeArrows(state, (arrow) =>
+        arrowId ? arrow.id === arrowId : arrow.playerId === action.playerId
+      );
+    }
+
+    case GameActionTypes.ADD_TO_STACK: {
+      const { text, itemId } = action.payload as unknown as AddToStackPayload;
+      if (!itemId || typeof text !== "string" || !text.trim()) return state;
+
+      return addToStack(state, { id: itemId, playerId: action.playerId, kind: "ability", text: text.trim() });
+    }
+
+    case GameActionTypes.REMOVE_FROM_STACK: {
+      const { itemId } = action.payload as unknown as RemoveFromStackPayload;
+      const item = state.stack?.find((i) => i.id === itemId);
+      if (!item) return state;
+
+      // A countered spell goes to its owner's graveyard, and the table
+      // gets to respond to the new top of the stack
+      const next = { ...withoutStackItem(state, itemId), priorityPasses: [] };
+      return item.card ? placeCard(next, item.card, "graveyard", item.card.ownerId, {}) : next;
+    }
+
+    case GameActionTypes.CONCEDE: {
+      const player = state.players[action.playerId];
+      if (!player || player.isEliminated) return state;
+
+      return eliminatePlayer(state, player.userId);
+    }
+
+    case GameActionTypes.OFFER_DRAW: {
+      if (state.drawOffer) return state;
+
+      const offered = { ...state, drawOffer: { playerId: action.playerId, acceptedBy: [action.playerId] } };
+      return isDrawAgreed(offered) ? endGame(offered, null) : offered;
+    }
+
+    case GameActionTypes.RESPOND_DRAW: {
+      const { accept } = action.payload as unknown as RespondDrawPayload;
+      const offer = state.drawOffer;
+      if (!offer) return state;
+
+      if (!accept) {
+        return { ...state, drawOffer: undefined };
+      }
+
+      if (offer.acceptedBy.includes(action.playerId)) return state;
+
+      const accepted = {
+        ...state,
+        drawOffer: { ...offer, acceptedBy: [...offer.acceptedBy, action.playerId] },
+      };
+      return isDrawAgreed(accepted) ? endGame(accepted, null) : accepted;
+    }
+
+    case GameActionTypes.START_AFK_VOTE: {
+      const { targetId, kind } = action.payload as unknown as StartAfkVotePayload;
+      const target = state.players[targetId];
+      if (state.afkVote || !target || target.isEliminated || targetId === action.playerId) return state;
+
+      return {
+        ...state,
+        afkVote: {
+          playerId: action.playerId,
+          targetId,
+          kind,
+          acceptedBy: [action.playerId],
+          startedAt: action.timestamp,
+        },
+      };
+    }
+
+    case GameActionTypes.RESPOND_AFK_VOTE: {
+      const { accept } = action.payload as unknown as RespondAfkVotePayload;
+      const vote = state.afkVote;
+      if (!vote) return state;
+
+      // The player it is about answering shows they are back
+      if (!accept || action.playerId === vote.targetId) {
+        return { ...state, afkVote: undefined };
+      }
+
+      // Voting again goes ahead once nobody else is left to vote
+      // and the grace period is over
+      const now = Date.parse(action.timestamp);
+      if (vote.acceptedBy.includes(action.playerId)) {
+        return isAfkVoteAgreed(state, now) ? carryOutAfkVote(state) : state;
+      }
+
+      const accepted = {
+        ...state,
+        afkVote: { ...vote, acceptedBy: [...vote.acceptedBy, action.playerId] },
+      };
+      return isAfkVoteAgreed(accepted, now) ? carryOutAfkVote(accepted) : accepted;
+    }
+
+    case GameActionTypes.MULLIGAN: {
+      const { seed } = action.payload as unknown as MulliganPayload;
+      const status = state.mulligans?.[action.playerId];
+      if (!status || !canMulligan(status) || typeof seed !== "number") return state;
+
+      // Shuffle the hand back in and draw a fresh seven
+      const shuffled = updatePlayer(state, action.playerId, (player) => ({
+        ...player,
+        zones: {
+          ...player.zones,
+          hand: [],
+          library: shuffleWithSeed(
+            [
+              ...player.zones.hand.map((card) => enterZone(card, "library", player.userId, {})),
+              ...player.zones.library,
+            ],
+            seed
+          ).map((card) => (card.revealedTo ? { ...card, revealedTo: undefined } : card)),
+        },
+      }));
+
+      return {
+        ...drawCards(shuffled, action.playerId, OPENING_HAND_SIZE),
+        mulligans: {
+          ...state.mulligans,
+          [action.playerId]: { ...status, mulligans: status.mulligans + 1 },
+        },
+      };
+    }
+
+    case GameActionTypes.KEEP_HAND: {
+      const { bottomCardIds = [] } = action.payload as unknown as KeepHandPayload;
+      const status = state.mulligans?.[action.playerId];
+      const player = state.players[action.playerId];
+      if (!status || status.kept || !player) return state;
+
+      const toBottom = bottomCardIds.map((id) => player.zones.hand.find((card) => card.id === id));
+      if (
+        toBottom.length !== cardsToBottom(status) ||
+        new Set(bottomCardIds).size !== bottomCardIds.length ||
+        toBottom.some((card) => !card)
+      ) {
+        return state;
+      }
+
+      const kept = updatePlayer(state, action.playerId, (p) => ({
+        ...p,
+        zones: {
+          ...p.zones,
+          hand: p.zones.hand.filter((card) => !bottomCardIds.includes(card.id)),
+          library: [
+            ...p.zones.library,
+            ...toBottom.map((card) => enterZone(card!, "library", p.userId, {})),
+          ],
+        },
+      }));
+      return startGameIfAllKept({
+        ...kept,
+        mulligans: { ...state.mulligans, [action.playerId]: { ...status, kept: true } },
+      });
+    }
+
+    case GameActionTypes.REQUEST_UNDO: {
+      const { seqs } = action.payload as unknown as RequestUndoPayload;
+      if (state.undoRequest || !seqs || seqs.length === 0) return state;
+
+      return {
+        ...state,
+        undoRequest: {
+          playerId: action.playerId,
+          seqs,
+          approvedBy: [],
+          requestedAt: action.timestamp,
+        },
+      };
+    }
+
+    case GameActionTypes.RESPOND_UNDO: {
+      const { approve } = action.payload as unknown as RespondUndoPayload;
+      const request = state.undoRequest;
+      if (!request) return state;
+
+      if (!approve) {
+        return { ...state, undoRequest: undefined };
+      }
+
+      if (action.playerId === request.playerId || request.approvedBy.includes(action.playerId)) {
+        return state;
+      }
+
+      return {
+        ...state,
+        undoRequest: { ...request, approvedBy: [...request.approvedBy, action.playerId] },
+      };
+    }
+
+    // UNDO needs the action history and is applied by rebuildGameState (game-replay.ts)
+    default:
+      return state;
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+interface MoveOptions {
+  toPlayerId?: string;
+  position?: { x: number; y: number };
+  index?: number;
+  faceDown?: boolean;
+}
+
+/**
+ * Moves a card between zones, applying the zone-change rules:
+ * cards leaving the battlefield lose their tapped state, counters,
+ * attachments and any control change, and non-battlefield zones
+ * always belong to the card's owner.
+ */
+function moveCard(
+  state: GameState,
+  cardId: string,
+  toZone: Zone,
+  options: MoveOptions
+): GameState {
+  const location = findCard(state, cardId);
+  if (!location) return state;
+
+  const { card } = location;
+  const destinationId =
+    toZone === "battlefield" ? options.toPlayerId ?? card.controllerId : card.ownerId;
+  if (!state.players[destinationId]) return state;
+
+  let next = removeCard(state, location);
+
+  // Anything attached to a card leaving the battlefield falls off,
+  // and arrows pointing at it have nothing left to point at
+  if (location.zone === "battlefield" && toZone !== "battlefield") {
+    next = detachFrom(next, cardId);
+    next = removeArrows(next, (arrow) =>
+      [arrow.from, arrow.to].some((end) => "cardId" in end && end.cardId === cardId)
+    );
+  }
+
+  return placeCard(next, card, toZone, destinationId, options);
+}
+
+function removeCard(state: GameState, location: CardLocation): GameState {
+  return updatePlayer(state, location.playerId, (player) => ({
+    ...player,
+    zones: {
+      ...player.zones,
+      [location.zone]: player.zones[location.zone].filter((c) => c.id !== location.card.id),
+    },
+  }));
+}
+
+/**
+ * Puts a card that is not in any zone (just removed from one, or coming
+ * off the stack) into a player's zone.
+ */
+function placeCard(
+  state: GameState,
+  card: GameCard,
+  toZone: Zone,
+  destinationId: string,
+  options: MoveOptions
+): GameState {
+  // Tokens cease to exist anywhere but the battlefield
+  if (card.isToken && toZone !== "battlefield") return state;
+
+  const moved = enterZone(card, toZone, destinationId, options);
+
+  const next = updatePlayer(state, destinationId, (player) => {
+    const cards = [...player.zones[toZone]];
+    const index = options.index ?? (toZone === "library" || toZone === "graveyard" ? 0 : cards.length);
+    cards.splice(Math.min(Math.max(index, 0), cards.length), 0, moved);
+    return { ...player, zones: { ...player.zones, [toZone]: cards } };
+  });
+
+  return card.isCommander ? trackCommanderReturn(next, card, toZone) : next;
+}
+
+/**
+ * A commander put into a graveyard or exile may go back to the command
+ * zone instead; its owner is asked until they decide or it moves again.
+ */
+function trackCommanderReturn(state: GameState, card: GameCard, toZone: Zone): GameState {
+  const offer = toZone === "graveyard" || toZone === "exile";
+
+  return updatePlayer(state, card.ownerId, (player) => {
+    const pending = (player.pendingCommanderReturns || []).filter((id) => id !== card.id);
+    return { ...player, pendingCommanderReturns: offer ? [...pending, card.id] : pending };
+  });
+}
+
+/**
+ * Returns a copy of the card as it should look in its new zone.
+ */
+function enterZone(
+  card: GameCard,
+  toZone: Zone,
+  destinationId: string,
+  options: MoveOptions
+): GameCard {
+  if (toZone === "battlefield") {
+    const stayed = card.zone === "battlefield";
+    return {
+      ...card,
+      zone: toZone,
+      controllerId: destinationId,
+      revealedTo: undefined,
+      position: options.position ?? (stayed ? card.position : undefined),
+      faceDown: options.faceDown ?? (stayed ? card.faceDown : false),
+    };
+  }
+
+  // Anywhere but the battlefield a card shows its front face
+  return {
+    ...turnToFace(card, 0),
+    zone: toZone,
+    controllerId: card.ownerId,
+    revealedTo: undefined,
+    position: undefined,
+    tapped: false,
+    counters: {},
+    attachedTo: undefined,
+    faceDown: toZone === "library" ? true : toZone === "hand" ? false : options.faceDown ?? false,
+  };
+}
+
+/**
+ * Shows another face of a double-faced, flip or meld card.
+ */
+function turnToFace(card: GameCard, faceIndex: number): GameCard {
+  const face = card.faces?.[faceIndex];
+  if (!face || (card.faceIndex || 0) === faceIndex) return card;
+
+  return {
+    ...card,
+    name: face.name,
+    imageUrl: face.imageUrl,
+    type: face.type,
+    faceIndex: faceIndex || undefined,
+  };
+}
+
+function detachFrom(state: GameState, hostId: string): GameState {
+  let next = state;
+  for (const player of Object.values(state.players)) {
+    if (!player.zones.battlefield.some((card) => card.attachedTo === hostId)) continue;
+    next = updatePlayer(next, player.userId, (p) => ({
+      ...p,
+      zones: {
+        ...p.zones,
+        battlefield: p.zones.battlefield.map((card) =>
+          card.attachedTo === hostId ? { ...card, attachedTo: undefined } : card
+        ),
+      },
+    }));
+  }
+  return next;
+}
+
+function removeArrows(state: GameState, matches: (arrow: GameArrow) => boolean): GameState {
+  if (!state.arrows?.some(matches)) return state;
+
+  const arrows = state.arrows.filter((arrow) => !matches(arrow));
+  return { ...state, arrows: arrows.length > 0 ? arrows : undefined };
+}
+
+/**
+ * Puts a spell or ability on top of the stack. Whoever put it there gets
+ * priority, and everyone has to pass again before anything resolves.
+ */
+function addToStack(state: GameState, item: StackItem): GameState {
+  return {
+    ...state,
+    stack: [item, ...(state.stack || [])],
+    priorityPlayerId: item.playerId,
+    priorityPasses: [],
+  };
+}
+
+/**
+ * Resolves the top of the stack. Permanent spells enter the battlefield
+ * under their caster's control, instants and sorceries go to the graveyard.
+ * The active player gets priority again.
+ */
+function resolveStack(state: GameState): GameState {
+  const top = state.stack?.[0];
+  if (!top) return state;
+
+  const next = {
+    ...withoutStackItem(state, top.id),
+    priorityPlayerId: state.activePlayerId,
+    priorityPasses: [],
+  };
+  if (!top.card) return next;
+
+  return NON_PERMANENT_TYPES.includes(top.card.type || "")
+    ? placeCard(next, top.card, "graveyard", top.card.ownerId, {})
+    : placeCard(next, top.card, "battlefield", top.playerId, {});
+}
+
+function withoutStackItem(state: GameState, itemId: string): GameState {
+  const stack = (state.stack || []).filter((item) => item.id !== itemId);
+  return { ...state, stack: stack.length > 0 ? stack : undefined };
+}
+
+/**
+ * Takes a player out of the game, moving the turn or priority
+ * along if they were holding it. They place behind everyone still
+ * in, and the game is over once a single player is left.
+ */
+function eliminatePlayer(state: GameState, userId: string): GameState {
+  const remaining = state.turnOrder.filter((id) => !state.players[id]?.isEliminated);
+  const eliminated = updatePlayer(
+    state.afkVote?.targetId === userId ? { ...state, afkVote: undefined } : state,
+    userId,
+    (p) => ({ ...p, isEliminated: true, placement: remaining.length })
+  );
+
+  const survivors = remaining.filter((id) => id !== userId);
+  if (survivors.length <= 1) return endGame(eliminated, survivors[0] ?? null);
+  // The only player yet to accept a draw may have just left
+  if (isDrawAgreed(eliminated)) return endGame(eliminated, null);
+
+  const next = eliminated.mulligans
+    ? startGameIfAllKept(eliminated)
+    : state.activePlayerId === userId
+      ? passTurn(eliminated)
+      : state.priorityPlayerId === userId
+        ? passPriority(eliminated)
+        : eliminated;
+
+  // Likewise the only player yet to vote on an AFK player
+  return isAfkVoteAgreed(next) ? carryOutAfkVote(next) : next;
+}
+
+/**
+ * Skips the turn of, or removes, the player an agreed AFK vote was about.
+ * While they hold priority on a non-empty stack, skipping passes for them.
+ */
+function carryOutAfkVote(state: GameState): GameState {
+  const vote = state.afkVote;
+  if (!vote) return state;
+
+  const next = { ...state, afkVote: undefined };
+  if (vote.kind === "remove") return eliminatePlayer(next, vote.targetId);
+  if (!canSkipTurn(next, vote.targetId)) return next;
+
+  return next.activePlayerId === vote.targetId && !next.stack?.length
+    ? passTurn(next)
+    : passPriority(next);
+}
+
+/**
+ * Ends the game with a winner, or in a draw shared by every player
+ * still in it. Nobody holds priority afterwards.
+ */
+function endGame(state: GameState, winnerId: string | null): GameState {
+  const players = { ...state.players };
+  for (const userId of state.turnOrder) {
+    if (players[userId] && !players[userId].isEliminated) {
+      players[userId] = { ...players[userId], placement: 1 };
+    }
+  }
+
+  return {
+    ...state,
+    players,
+    result: { winnerId },
+    mulligans: undefined,
+    drawOffer: undefined,
+    afkVote: undefined,
+    undoRequest: undefined,
+    priorityPlayerId: "",
+    priorityPasses: [],
+  };
+}
+
+/**
+ * Ends the mulligan and begins turn 1 once every player still
+ * in the game has kept their opening hand.
+ */
+function startGameIfAllKept(state: GameState): GameState {
+  const mulligans = state.mulligans || {};
+  const waiting = state.turnOrder.some(
+    (userId) => !state.players[userId]?.isEliminated && !mulligans[userId]?.kept
+  );
+  if (waiting) return state;
+
+  const firstPlayer = state.turnOrder.find((userId) => !state.players[userId]?.isEliminated);
+  if (!firstPlayer) return { ...state, mulligans: undefined };
+
+  return startTurn({ ...state, mulligans: undefined, activePlayerId: firstPlayer });
+}
+
+function drawCards(state: GameState, playerId: string, count: number): GameState {
+  const player = state.players[playerId];
+  if (!player || player.zones.library.length === 0) return state;
+
+  const drawn = player.zones.library
+    .slice(0, count)
+    .map((card) => enterZone(card, "hand", player.userId, {}));
+
+  return updatePlayer(state, player.userId, (p) => ({
+    ...p,
+    zones: {
+      ...p.zones,
+      library: p.zones.library.slice(drawn.length),
+      hand: [...p.zones.hand, ...drawn],
+    },
+  }));
+}
+
+function passTurn(state: GameState): GameState {
+  const currentIndex = state.turnOrder.indexOf(state.activePlayerId);
+
+  for (let offset = 1; offset <= state.turnOrder.length; offset++) {
+    const candidate = state.turnOrder[(currentIndex + offset) % state.turnOrder.length];
+    if (!state.players[candidate]?.isEliminated) {
+      return startTurn({
+        ...state,
+        activePlayerId: candidate,
+        turnNumber: state.turnNumber + 1,
+      });
+    }
+  }
+
+  return state;
+}
+
+/**
+ * Moves to the next step somebody stops at, giving the active player
+ * priority. Leaving cleanup passes the turn.
+ */
+function advanceStep(state: GameState): GameState {
+  for (let index = GamePhases.indexOf(state.phase) + 1; index < GamePhases.length; index++) {
+    const phase = GamePhases[index];
+    if (isStopStep(state, phase)) {
+      return {
+        ...state,
+        phase,
+        priorityPlayerId: state.activePlayerId,
+        priorityPasses: [],
+      };
+    }
+  }
+
+  return passTurn(state);
+}
+
+/**
+ * Hands priority to the next player in turn order who stops at this step,
+ * or to every player in turn while the stack is not empty. Once nobody is
+ * left to act, the top of the stack resolves or the game moves on to the
+ * next step.
+ */
+function passPriority(state: GameState): GameState {
+  const passes = [...state.priorityPasses, state.priorityPlayerId];
+  const currentIndex = state.turnOrder.indexOf(state.priorityPlayerId);
+  const responding = !!state.stack?.length;
+
+  for (let offset = 1; offset < state.turnOrder.length; offset++) {
+    const candidate = state.turnOrder[(currentIndex + offset) % state.turnOrder.length];
+    if (
+      !passes.includes(candidate) &&
+      !state.players[candidate]?.isEliminated &&
+      (responding || playerStopsAt(state, candidate, state.phase))
+    ) {
+      return { ...state, priorityPlayerId: candidate, priorityPasses: passes };
+    }
+  }
+
+  return responding ? resolveStack(state) : advanceStep(state);
+}
+
+function playerStopsAt(state: GameState, userId: string, phase: GamePhase): boolean {
+  const player = state.players[userId];
+  if (!player || player.isEliminated) return false;
+
+  return (player.autoStops ?? DEFAULT_AUTO_STOPS).includes(phase);
+}
+
+function updatePlayer(
+  state: GameState,
+  playerId: string,
+  updater: (player: GamePlayer) => GamePlayer
+): GameState {
+  const player = state.players[playerId];
+  if (!player) return state;
+
+  const updated = updater(player);
+  if (updated === player) return state;
+
+  return {
+    ...state,
+    players: { ...state.players, [playerId]: updated },
+  };
+}
+
+function updateCard(
+  state: GameState,
+  cardId: string,
+  updater: (card: GameCard) => GameCard
+): GameState {
+  const location = findCard(state, cardId);
+  if (!location) return state;
+
+  const updated = updater(location.card);
+  if (updated === location.card) return state;
+
+  return updatePlayer(state, location.playerId, (player) => {
+    const cards = [...player.zones[location.zone]];
+    cards[location.index] = updated;
+    return { ...player, zones: { ...player.zones, [location.zone]: cards } };
+  });
+}
+
+/**
+ * Small, fast seeded PRNG returning floats in [0, 1).
+ */
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { AppliedGameAction, GameActionTypes } from "@/lib/game-state";
+import { buildReplayFrames, findUndoableActions, rebuildGameState } from "@/lib/game-replay";
+import { getCard, makeAction, makeState, zoneIds } from "@/lib/game-test-utils";
+
+function applied(
+  version: number,
+  type: string,
+  playerId: string,
+  payload: Record<string, unknown> = {}
+): AppliedGameAction {
+  return { ...makeAction(type, playerId, payload), version };
+}
+
+/**
+ * Alice taps b1 and draws, Bob loses life, and Alice asks to undo her draw.
+ */
+function history(): AppliedGameAction[] {
+  return [
+    applied(1, GameActionTypes.TAP_CARD, "alice", { cardId: "b1" }),
+    applied(2, GameActionTypes.UPDATE_LIFE, "bob", { playerId: "bob", delta: -3 }),
+    applied(3, GameActionTypes.DRAW_CARD, "alice"),
+    applied(4, GameActionTypes.REQUEST_UNDO, "alice", { count: 1, seqs: [3] }),
+    applied(5, GameActionTypes.RESPOND_UNDO, "bob", { approve: true }),
+    applied(6, GameActionTypes.RESPOND_UNDO, "carol", { approve: true }),
+  ];
+}
+
+describe("findUndoableActions", () => {
+  it("picks the player's latest actions, oldest first", () => {
+    expect(findUndoableActions(history(), "alice", 1)).toEqual([3]);
+    expect(findUndoableActions(history(), "alice", 5)).toEqual([1, 3]);
+    expect(findUndoableActions(history(), "bob", 1)).toEqual([2]);
+  });
+
+  it("skips the undo flow and actions that were already undone", () => {
+    const actions = [...history(), applied(7, GameActionTypes.UNDO, "alice", { seqs: [3] })];
+
+    expect(findUndoableActions(actions, "alice", 1)).toEqual([1]);
+    expect(findUndoableActions(actions, "carol", 1)).toEqual([]);
+  });
+});
+
+describe("rebuildGameState", () => {
+  it("replays every action on the initial state", () => {
+    const state = rebuildGameState({ initialState: makeState(), actions: history().slice(0, 3) });
+
+    expect(getCard(state, "alice", "battlefield", "b1").tapped).toBe(true);
+    expect(state.players.bob.lifeTotal).toBe(37);
+    expect(zoneIds(state, "alice", "hand")).toEqual(["h1", "h2", "l1"]);
+  });
+
+  it("rolls back undone actions and clears the request", () => {
+    const actions = [...history(), applied(7, GameActionTypes.UNDO, "alice", { seqs: [3] })];
+    const state = rebuildGameState({ initialState: makeState(), actions });
+
+    expect(zoneIds(state, "alice", "hand")).toEqual(["h1", "h2"]);
+    expect(zoneIds(state, "alice", "library")[0]).toBe("l1");
+    expect(getCard(state, "alice", "battlefield", "b1").tapped).toBe(true);
+    expect(state.players.bob.lifeTotal).toBe(37);
+    expect(state.undoRequest).toBeUndefined();
+  });
+
+  it("keeps actions taken after an undo", () => {
+    const actions = [
+      ...history(),
+      applied(7, GameActionTypes.UNDO, "alice", { seqs: [3] }),
+      applied(8, GameActionTypes.UNTAP_CARD, "alice", { cardId: "b1" }),
+    ];
+    const state = rebuildGameState({ initialState: makeState(), actions });
+
+    expect(getCard(state, "alice", "battlefield", "b1").tapped).toBe(false);
+    expect(zoneIds(state, "alice", "hand")).toEqual(["h1", "h2"]);
+  });
+});
+
+describe("buildReplayFrames", () => {
+  it("has one frame per action after the initial state", () => {
+    const initialState = makeState();
+    const actions = [...history(), applied(7, GameActionTypes.UNDO, "alice", { seqs: [3] })];
+    const frames = buildReplayFrames({ initialState, actions });
+
+    expect(frames).toHaveLength(actions.length + 1);
+    expect(frames[0]).toEqual({ state: initialState, action: null });
+    expect(frames[3].action).toBe(actions[2]);
+    expect(zoneIds(frames[3].state, "alice", "hand")).toEqual(["h1", "h2", "l1"]);
+    expect(frames.at(-1)!.state).toEqual(rebuildGameState({ initialState, actions }));
+  });
+});
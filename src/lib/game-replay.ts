@@ -0,0 +1,132 @@
+/**
+ * Game replays and rollbacks.
+ * A replay is the initial state of a game plus every action recorded in
+ * game_actions; each step is rebuilt by running the actions through the
+ * reducer again. An UNDO action rebuilds the state from the initial
+ * snapshot without the actions it rolls back.
+ */
+
+import {
+  AppliedGameAction,
+  GameActionTypes,
+  GameState,
+  UndoPayload,
+} from "@/lib/game-state";
+import { applyGameAction, applyGameActions } from "@/lib/game-reducer";
+import { redactGameState } from "@/lib/game-visibility";
+
+export interface GameReplay {
+  initialState: GameState;
+  actions: AppliedGameAction[]; // Ordered by version, with full payloads
+}
+
+/**
+ * The game as it was after `action` was applied.
+ * The first frame is the initial state and has no action.
+ */
+export interface ReplayFrame {
+  state: GameState;
+  action: AppliedGameAction | null;
+}
+
+/**
+ * Actions that only drive the undo flow. They never end up in the
+ * history an UNDO rebuilds from, so a rollback also clears the request.
+ */
+const UNDO_FLOW_ACTIONS = new Set<string>([
+  GameActionTypes.REQUEST_UNDO,
+  GameActionTypes.RESPOND_UNDO,
+  GameActionTypes.UNDO,
+]);
+
+/**
+ * Rebuilds the state after every action of the game.
+ * The reducer shares unchanged parts between states, so keeping
+ * every frame in memory stays cheap.
+ */
+export function buildReplayFrames(replay: GameReplay): ReplayFrame[] {
+  const frames: ReplayFrame[] = [{ state: replay.initialState, action: null }];
+  let history: AppliedGameAction[] = [];
+
+  for (const action of replay.actions) {
+    const previous = frames[frames.length - 1].state;
+    const step = applyRecordedAction(replay.initialState, history, previous, action);
+    history = step.history;
+    frames.push({ state: step.state, action });
+  }
+
+  return frames;
+}
+
+/**
+ * Rebuilds the current state of a game from its recorded actions.
+ */
+export function rebuildGameState(replay: GameReplay): GameState {
+  let state = replay.initialState;
+  let history: AppliedGameAction[] = [];
+
+  for (const action of replay.actions) {
+    ({ state, history } = applyRecordedAction(replay.initialState, history, state, action));
+  }
+
+  return state;
+}
+
+/**
+ * Picks the versions of a player's latest actions that can still be
+ * rolled back, oldest first. Undo requests and actions that were
+ * already undone are skipped.
+ */
+export function findUndoableActions(
+  actions: AppliedGameAction[],
+  playerId: string,
+  count: number
+): number[] {
+  const undone = new Set(
+    actions
+      .filter((a) => a.type === GameActionTypes.UNDO)
+      .flatMap((a) => (a.payload as unknown as UndoPayload).seqs)
+  );
+
+  return actions
+    .filter((a) => a.playerId === playerId && !UNDO_FLOW_ACTIONS.has(a.type) && !undone.has(a.version))
+    .slice(-count)
+    .map((a) => a.version);
+}
+
+/**
+ * Index of the first frame of a turn, or -1 if the game never got there.
+ */
+export function findTurnStart(frames: ReplayFrame[], turnNumber: number): number {
+  return frames.findIndex((frame) => frame.state.turnNumber === turnNumber);
+}
+
+/**
+ * The state of a frame as one player saw it, or with every card
+ * revealed when no perspective is given.
+ */
+export function getReplayView(frame: ReplayFrame, perspective: string | null): GameState {
+  return perspective ? redactGameState(frame.state, perspective) : frame.state;
+}
+
+/**
+ * Applies one recorded action, keeping track of the actions that are
+ * still in effect so an UNDO can replay them without the undone ones.
+ */
+function applyRecordedAction(
+  initialState: GameState,
+  history: AppliedGameAction[],
+  state: GameState,
+  action: AppliedGameAction
+): { state: GameState; history: AppliedGameAction[] } {
+  if (action.type === GameActionTypes.UNDO) {
+    const { seqs } = action.payload as unknown as UndoPayload;
+    const remaining = history.filter((a) => !seqs.includes(a.version));
+    return { state: applyGameActions(initialState, remaining), history: remaining };
+  }
+
+  return {
+    state: applyGameAction(state, action),
+    history: UNDO_FLOW_ACTIONS.has(action.type) ? history : [...history, action],
+  };
+}
@@ -0,0 +1,927 @@
+/**
+ * Server-only game operations.
+ * Actions are validated and applied here with the service role client,
+ * so clients can never write games.game_state directly.
+ */
+
+import { createClient as createAdminClient } from "@/lib/supabase/admin";
+import {
+  AppliedGameAction,
+  GameAction,
+  GameActionTypes,
+  GameCard,
+  GameState,
+  RequestUndoPayload,
+} from "@/lib/game-state";
+import {
+  applyGameAction,
+  createShuffleSeed,
+  isUndoApproved,
+  MAX_TOKENS_PER_ACTION,
+} from "@/lib/game-reducer";
+import { validateGameAction } from "@/lib/game-validation";
+import {
+  redactGameAction,
+  redactGameState,
+  SPECTATOR_DELAY_SECONDS,
+  SpectatorView,
+} from "@/lib/game-visibility";
+import { buildGameCards, initializeGameState } from "@/lib/game-setup";
+import { describeGameAction, PlayerNames } from "@/lib/game-log";
+import { findUndoableActions, GameReplay, rebuildGameState } from "@/lib/game-replay";
+import type { GameOperationResult, GamePlayerRecord, GameStateView } from "@/lib/game";
+import type { DeckCardRecord } from "@/lib/decks";
+
+const MAX_SAVE_ATTEMPTS = 3;
+
+/**
+ * Where players go after asking for a rematch: the reopened lobby,
+ * or the next game once the host has started it.
+ */
+export interface RematchTarget {
+  lobbyId: string;
+  gameId: string | null;
+}
+
+/**
+ * Action as submitted by a client. The sender and timestamp are
+ * always filled in by the server.
+ */
+export interface GameActionInput {
+  type: string;
+  payload?: Record<string, unknown>;
+}
+
+/**
+ * Starts a game from a lobby (host only).
+ * Creates the game, loads every player's deck and stores the initial state
+ * before the lobby is switched to in_game, so players are only redirected
+ * once the game is fully set up.
+ */
+export async function startGameFromLobby(
+  lobbyId: string,
+  hostId: string
+): Promise<GameOperationResult<{ gameId: string }>> {
+  const supabase = createAdminClient();
+
+  const { data: lobby, error: lobbyError } = await supabase
+    .from("lobbies")
+    .select("host_id, status, afk_timeout_seconds, lobby_players(user_id, is_ready, deck_id)")
+    .eq("id", lobbyId)
+    .single();
+
+  if (lobbyError || !lobby) {
+    return { success: false, error: "Lobby not found", status: 404 };
+  }
+
+  if (lobby.host_id !== hostId) {
+    return { success: false, error: "Only the host can start the game", status: 403 };
+  }
+
+  if (lobby.status !== "waiting") {
+    return { success: false, error: "Game has already started", status: 409 };
+  }
+
+  const lobbyPlayers = lobby.lobby_players as { user_id: string; is_ready: boolean; deck_id: string | null }[];
+
+  if (lobbyPlayers.length < 2) {
+    return { success: false, error: "At least 2 players are needed", status: 409 };
+  }
+
+  if (!lobbyPlayers.every((p) => p.is_ready || p.user_id === hostId)) {
+    return { success: false, error: "Not all players are ready", status: 409 };
+  }
+
+  if (!lobbyPlayers.every((p) => p.deck_id)) {
+    return { success: false, error: "Every player needs to select a deck", status: 409 };
+  }
+
+  const { data: gameId, error: createError } = await supabase.rpc("start_game_from_lobby", {
+    p_lobby_id: lobbyId,
+  });
+
+  if (createError || !gameId) {
+    console.error("Error creating game:", createError);
+    return { success: false, error: "Failed to create game", status: 500 };
+  }
+
+  const setupError = await setUpGame(gameId as string, lobby.afk_timeout_seconds);
+
+  if (setupError) {
+    console.error("Error setting up game:", setupError);
+    await supabase.from("games").delete().eq("id", gameId);
+    return { success: false, error: "Failed to set up game", status: 500 };
+  }
+
+  // Only now let the lobby know, which redirects everyone to the game
+  const { data: started, error: startError } = await supabase
+    .from("lobbies")
+    .update({ status: "in_game", started_at: new Date().toISOString(), current_game_id: gameId })
+    .eq("id", lobbyId)
+    .eq("status", "waiting")
+    .select("id");
+
+  if (startError || !started || started.length === 0) {
+    // Another start request won the race; drop our copy of the game
+    await supabase.from("games").delete().eq("id", gameId);
+    return { success: false, error: "Game has already started", status: 409 };
+  }
+
+  // Players still looking at the last game's summary follow along
+  const { error: rematchError } = await supabase
+    .from("game_results")
+    .update({ rematch_game_id: gameId })
+    .eq("lobby_id", lobbyId)
+    .is("rematch_game_id", null);
+
+  if (rematchError) {
+    console.error("Error linking rematch:", rematchError);
+  }
+
+  return { success: true, data: { gameId: gameId as string } };
+}
+
+/**
+ * Sends the players of a finished game back to its lobby for a rematch.
+ * The lobby opens again with the same seats and decks and every ready
+ * flag cleared, so players can swap decks (or leave, freeing their seat)
+ * before the host starts the next game. Any player of the finished game
+ * can ask for it; once the rematch has started they are sent to it instead.
+ */
+export async function reopenLobbyForRematch(
+  gameId: string,
+  playerId: string
+): Promise<GameOperationResult<RematchTarget>> {
+  const supabase = createAdminClient();
+
+  const { data: game, error: gameError } = await supabase
+    .from("games")
+    .select("status, lobby_id, game_players!inner(user_id)")
+    .eq("id", gameId)
+    .eq("game_players.user_id", playerId)
+    .maybeSingle();
+
+  if (gameError) {
+    console.error("Error fetching game:", gameError);
+    return { success: false, error: "Failed to start rematch", status: 500 };
+  }
+
+  if (!game) {
+    return { success: false, error: "Game not found", status: 404 };
+  }
+
+  if (game.status !== "finished") {
+    return { success: false, error: "The game is not over yet", status: 409 };
+  }
+
+  if (!game.lobby_id) {
+    return { success: false, error: "This game has no lobby to rematch in", status: 409 };
+  }
+
+  const lobbyId = game.lobby_id as string;
+
+  const { data: result } = await supabase
+    .from("game_results")
+    .select("rematch_game_id")
+    .eq("game_id", gameId)
+    .maybeSingle();
+
+  if (result?.rematch_game_id) {
+    return { success: true, data: { lobbyId, gameId: result.rematch_game_id } };
+  }
+
+  const { data: lobby, error: lobbyError } = await supabase
+    .from("lobbies")
+    .select("status, current_game_id")
+    .eq("id", lobbyId)
+    .single();
+
+  if (lobbyError || !lobby) {
+    return { success: false, error: "Lobby not found", status: 404 };
+  }
+
+  if (lobby.status === "cancelled") {
+    return { success: false, error: "The lobby was closed by its host", status: 409 };
+  }
+
+  // The host already started the rematch but it is not linked yet
+  if (lobby.status === "in_game" && lobby.current_game_id && lobby.current_game_id !== gameId) {
+    return { success: true, data: { lobbyId, gameId: lobby.current_game_id } };
+  }
+
+  if (lobby.status === "completed") {
+    // Ready flags are cleared first, so nobody sees the reopened lobby
+    // with everyone still marked ready from the last game
+    const { error: readyError } = await supabase
+      .from("lobby_players")
+      .update({ is_ready: false })
+      .eq("lobby_id", lobbyId);
+
+    if (readyError) {
+      console.error("Error resetting ready flags:", readyError);
+      return { success: false, error: "Failed to reopen the lobby", status: 500 };
+    }
+
+    // Another player may have reopened it in the meantime, which is fine
+    const { error: reopenError } = await supabase
+      .from("lobbies")
+      .update({ status: "waiting", started_at: null, ended_at: null })
+      .eq("id", lobbyId)
+      .eq("status", "completed");
+
+    if (reopenError) {
+      console.error("Error reopening lobby:", reopenError);
+      return { success: false, error: "Failed to reopen the lobby", status: 500 };
+    }
+  }
+
+  return { success: true, data: { lobbyId, gameId: null } };
+}
+
+/**
+ * Validates and applies an action on behalf of a player, persists the
+ * new state with a bumped version and broadcasts the applied action.
+ * The write only succeeds if nobody else saved in the meantime; on a
+ * conflict the action is re-validated against the fresh state and retried.
+ */
+export async function submitGameAction(
+  gameId: string,
+  playerId: string,
+  input: GameActionInput
+): Promise<GameOperationResult<GameStateView>> {
+  const supabase = createAdminClient();
+  const action = buildAction(playerId, input);
+
+  for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+    const { data: game, error: gameError } = await supabase
+      .from("games")
+      .select("status, game_state, state_version")
+      .eq("id", gameId)
+      .single();
+
+    if (gameError || !game) {
+      return { success: false, error: "Game not found", status: 404 };
+    }
+
+    if (game.status !== "active") {
+      return { success: false, error: "Game is not active", status: 409 };
+    }
+
+    const state = game.game_state as GameState;
+    if (!state.players) {
+      return { success: false, error: "Game has not been set up yet", status: 409 };
+    }
+
+    // Undo requests target the sender's latest actions that are still in effect
+    if (action.type === GameActionTypes.REQUEST_UNDO) {
+      const actions = await getRecordedActions(gameId);
+      if (!actions) {
+        return { success: false, error: "Failed to load game history", status: 500 };
+      }
+      const { count } = action.payload as unknown as RequestUndoPayload;
+      action.payload.seqs = findUndoableActions(actions, playerId, count);
+    }
+
+    const validation = validateGameAction(state, action);
+    if (!validation.valid) {
+      return { success: false, error: validation.error, status: 403 };
+    }
+
+    const nextState = applyGameAction(state, action);
+    if (nextState === state) {
+      return { success: false, error: "Action had no effect", status: 422 };
+    }
+
+    const currentVersion = game.state_version as number;
+    const outcome = await saveGameAction(gameId, currentVersion, state, nextState, action);
+
+    if (outcome === "failed") {
+      return { success: false, error: "Failed to save game state", status: 500 };
+    }
+
+    if (outcome === "conflict") {
+      // Someone else saved first; try again on top of their state
+      continue;
+    }
+
+    // The last approval rolls the actions back right away
+    if (isUndoApproved(nextState)) {
+      return rollBackGameActions(gameId, playerId);
+    }
+
+    return {
+      success: true,
+      data: { version: currentVersion + 1, gameState: redactGameState(nextState, playerId) },
+    };
+  }
+
+  return {
+    success: false,
+    error: "The game changed while your action was being saved. Please try again.",
+    status: 409,
+  };
+}
+
+/**
+ * Applies an approved undo request: rebuilds the state from the initial
+ * snapshot and every recorded action except the ones being rolled back,
+ * then records an UNDO action on behalf of the requester.
+ * Returns the game as seen by `viewerId`.
+ */
+async function rollBackGameActions(
+  gameId: string,
+  viewerId: string
+): Promise<GameOperationResult<GameStateView>> {
+  const supabase = createAdminClient();
+
+  for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+    const { data: game, error: gameError } = await supabase
+      .from("games")
+      .select("game_state, initial_state, state_version")
+      .eq("id", gameId)
+      .single();
+
+    if (gameError || !game || !game.initial_state) {
+      console.error("Error loading game for undo:", gameError);
+      return { success: false, error: "Failed to undo", status: 500 };
+    }
+
+    const state = game.game_state as GameState;
+    const currentVersion = game.state_version as number;
+
+    // Someone else already applied (or cancelled) it
+    if (!isUndoApproved(state)) {
+      return {
+        success: true,
+        data: { version: currentVersion, gameState: redactGameState(state, viewerId) },
+      };
+    }
+
+    const actions = await getRecordedActions(gameId);
+    if (!actions) {
+      return { success: false, error: "Failed to load game history", status: 500 };
+    }
+
+    const request = state.undoRequest!;
+    const undo: AppliedGameAction = {
+      type: GameActionTypes.UNDO,
+      playerId: request.playerId,
+      payload: { seqs: request.seqs },
+      timestamp: new Date().toISOString(),
+      version: currentVersion + 1,
+    };
+    const nextState = rebuildGameState({
+      initialState: game.initial_state as GameState,
+      actions: [...actions, undo],
+    });
+
+    const outcome = await saveGameAction(gameId, currentVersion, state, nextState, undo);
+
+    if (outcome === "failed") {
+      return { success: false, error: "Failed to save game state", status: 500 };
+    }
+
+    if (outcome === "saved") {
+      return {
+        success: true,
+        data: { version: undo.version, gameState: redactGameState(nextState, viewerId) },
+      };
+    }
+  }
+
+  return {
+    success: false,
+    error: "The game changed while the undo was being saved. Please try again.",
+    status: 409,
+  };
+}
+
+/**
+ * Gets the game state as seen by one player or spectator, with every
+ * card they are not allowed to see replaced by a card back.
+ */
+export async function getGameStateForViewer(
+  gameId: string,
+  playerId: string
+): Promise<GameOperationResult<GameStateView>> {
+  const supabase = createAdminClient();
+
+  const { data: game, error: gameError } = await supabase
+    .from("games")
+    .select("game_state, state_version, game_players!inner(user_id)")
+    .eq("id", gameId)
+    .eq("game_players.user_id", playerId)
+    .maybeSingle();
+
+  if (gameError) {
+    console.error("Error fetching game state:", gameError);
+    return { success: false, error: "Failed to load game state", status: 500 };
+  }
+
+  if (!game) {
+    return getGameStateForSpectator(gameId, playerId);
+  }
+
+  const state = game.game_state as GameState;
+
+  return {
+    success: true,
+    data: {
+      version: game.state_version as number,
+      gameState: state.players ? redactGameState(state, playerId) : state,
+    },
+  };
+}
+
+/**
+ * Signs a user up to watch a game, which also lets them read it
+ * directly. The game's lobby has to allow spectators, and players
+ * cannot watch their own game.
+ */
+export async function spectateGame(
+  gameId: string,
+  userId: string
+): Promise<GameOperationResult<null>> {
+  const supabase = createAdminClient();
+
+  const { data: game, error: gameError } = await supabase
+    .from("games")
+    .select("lobby_id, game_players(user_id)")
+    .eq("id", gameId)
+    .maybeSingle();
+
+  if (gameError) {
+    console.error("Error fetching game:", gameError);
+    return { success: false, error: "Failed to watch game", status: 500 };
+  }
+
+  if (!game) {
+    return { success: false, error: "Game not found", status: 404 };
+  }
+
+  const players = game.game_players as { user_id: string }[];
+  if (players.some((p) => p.user_id === userId)) {
+    return { success: false, error: "You are playing in this game", status: 409 };
+  }
+
+  const settings = await getSpectatorSettings(game.lobby_id);
+  if (!settings?.allow_spectators) {
+    return { success: false, error: "Spectating is turned off for this game", status: 403 };
+  }
+
+  const { error: insertError } = await supabase
+    .from("game_spectators")
+    .upsert({ game_id: gameId, user_id: userId }, { onConflict: "game_id,user_id", ignoreDuplicates: true });
+
+  if (insertError) {
+    console.error("Error adding spectator:", insertError);
+    return { success: false, error: "Failed to watch game", status: 500 };
+  }
+
+  return { success: true, data: null };
+}
+
+/**
+ * Gets everything needed to replay a finished game: its initial state
+ * and every recorded action with full payloads. Only players of the game
+ * can load it, and only once it is over, since it reveals every card.
+ */
+export async function getGameReplay(
+  gameId: string,
+  playerId: string
+): Promise<GameOperationResult<GameReplay>> {
+  const supabase = createAdminClient();
+
+  const { data: game, error: gameError } = await supabase
+    .from("games")
+    .select("status, initial_state, game_players!inner(user_id)")
+    .eq("id", gameId)
+    .eq("game_players.user_id", playerId)
+    .maybeSingle();
+
+  if (gameError) {
+    console.error("Error fetching game:", gameError);
+    return { success: false, error: "Failed to load replay", status: 500 };
+  }
+
+  if (!game) {
+    return { success: false, error: "Game not found", status: 404 };
+  }
+
+  if (game.status === "active" || game.status === "paused") {
+    return { success: false, error: "Replays are available once the game is over", status: 409 };
+  }
+
+  if (!game.initial_state) {
+    return { success: false, error: "No replay was recorded for this game", status: 404 };
+  }
+
+  const actions = await getRecordedActions(gameId);
+  if (!actions) {
+    return { success: false, error: "Failed to load replay", status: 500 };
+  }
+
+  return {
+    success: true,
+    data: { initialState: game.initial_state as GameState, actions },
+  };
+}
+
+/**
+ * Builds the initial state of a freshly created game from each player's
+ * deck and the lobby's AFK timeout, and stores it as version 1.
+ * Returns an error message on failure.
+ */
+async function setUpGame(gameId: string, afkTimeoutSeconds?: number): Promise<string | null> {
+  const supabase = createAdminClient();
+
+  const { data: players, error: playersError } = await supabase
+    .from("game_players")
+    .select("*")
+    .eq("game_id", gameId)
+    .order("position");
+
+  if (playersError || !players) {
+    return playersError?.message || "No players found";
+  }
+
+  const deckIds = players.map((p) => p.deck_id).filter(Boolean);
+  const { data: decks, error: decksError } = await supabase
+    .from("decks")
+    .select("id, cards")
+    .in("id", deckIds);
+
+  if (decksError || !decks) {
+    return decksError?.message || "No decks found";
+  }
+
+  const deckCards: Record<string, GameCard[]> = {};
+  for (const player of players as GamePlayerRecord[]) {
+    const deck = decks.find((d) => d.id === player.deck_id);
+    if (!deck) {
+      return `Deck for player ${player.user_id} not found`;
+    }
+    deckCards[player.user_id] = buildGameCards(player.user_id, deck.cards as DeckCardRecord[]);
+  }
+
+  const gameState = initializeGameState(players as GamePlayerRecord[], deckCards, afkTimeoutSeconds);
+
+  const { data: saved, error: updateError } = await supabase
+    .from("games")
+    .update({
+      game_state: gameState,
+      initial_state: gameState,
+      state_version: 1,
+      current_turn_player_id: gameState.activePlayerId || null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", gameId)
+    .eq("state_version", 0)
+    .select("id");
+
+  if (updateError) {
+    return updateError.message;
+  }
+
+  return saved && saved.length > 0 ? null : "Game was already set up";
+}
+
+/**
+ * Saves the state an action produced and appends the action to the log
+ * in one transaction, then broadcasts it. The write only goes through if
+ * the game is still at `currentVersion`.
+ */
+async function saveGameAction(
+  gameId: string,
+  currentVersion: number,
+  state: GameState,
+  nextState: GameState,
+  action: GameAction
+): Promise<"saved" | "conflict" | "failed"> {
+  const supabase = createAdminClient();
+  const version = currentVersion + 1;
+  const description = describeGameAction(state, nextState, action, await getPlayerNames(gameId));
+
+  const { data: saved, error } = await supabase.rpc("record_game_action", {
+    p_game_id: gameId,
+    p_expected_version: currentVersion,
+    p_game_state: nextState,
+    p_current_turn_player_id: nextState.activePlayerId || null,
+    p_turn_number: nextState.turnNumber,
+    p_actor_id: action.playerId,
+    p_type: action.type,
+    p_payload: action.payload,
+    p_description: description,
+  });
+
+  if (error) {
+    console.error("Error saving game state:", error);
+    return "failed";
+  }
+
+  if (!saved) {
+    return "conflict";
+  }
+
+  await syncPlayerRecords(gameId, state, nextState);
+  if (nextState.result && !state.result) {
+    await finishGame(gameId, nextState);
+  }
+  await broadcastGameAction(gameId, redactGameAction({ ...action, version, description }));
+  return "saved";
+}
+
+/**
+ * Writes eliminations and commander damage back to game_players for
+ * every player the action changed, so lobby and results pages see them
+ * without reading the game state.
+ */
+async function syncPlayerRecords(
+  gameId: string,
+  state: GameState,
+  nextState: GameState
+): Promise<void> {
+  const supabase = createAdminClient();
+
+  for (const player of Object.values(nextState.players)) {
+    const previous = state.players[player.userId];
+    if (
+      previous?.isEliminated === player.isEliminated &&
+      previous?.commanderDamage === player.commanderDamage
+    ) {
+      continue;
+    }
+
+    const { error } = await supabase
+      .from("game_players")
+      .update({
+        is_eliminated: player.isEliminated,
+        commander_damage: player.commanderDamage,
+      })
+      .eq("game_id", gameId)
+      .eq("user_id", player.userId);
+
+    if (error) {
+      console.error("Error updating game player:", error);
+    }
+  }
+}
+
+/**
+ * Marks a game as finished, stores its result and closes its lobby.
+ * Runs before the final action is broadcast, so the result is there
+ * by the time players are shown the summary.
+ */
+async function finishGame(gameId: string, state: GameState): Promise<void> {
+  const supabase = createAdminClient();
+  const finishedAt = new Date();
+
+  const { data: game, error: gameError } = await supabase
+    .from("games")
+    .update({ status: "finished", finished_at: finishedAt.toISOString() })
+    .eq("id", gameId)
+    .select("lobby_id, started_at")
+    .single();
+
+  if (gameError || !game) {
+    console.error("Error finishing game:", gameError);
+    return;
+  }
+
+  const placements = state.turnOrder
+    .map((userId) => ({ user_id: userId, placement: state.players[userId]?.placement ?? state.turnOrder.length }))
+    .sort((a, b) => a.placement - b.placement);
+
+  const { error: resultError } = await supabase.from("game_results").insert({
+    game_id: gameId,
+    lobby_id: game.lobby_id,
+    winner_id: state.result?.winnerId ?? null,
+    placements,
+    turn_count: state.turnNumber,
+    duration_seconds: Math.max(
+      0,
+      Math.round((finishedAt.getTime() - new Date(game.started_at).getTime()) / 1000)
+    ),
+  });
+
+  if (resultError) {
+    console.error("Error saving game result:", resultError);
+  }
+
+  if (game.lobby_id) {
+    const { error: lobbyError } = await supabase
+      .from("lobbies")
+      .update({ status: "completed", ended_at: finishedAt.toISOString() })
+      .eq("id", game.lobby_id);
+
+    if (lobbyError) {
+      console.error("Error closing lobby:", lobbyError);
+    }
+  }
+}
+
+/**
+ * Gets the game state as a spectator sees it: every hand hidden, or
+ * every hand revealed as of SPECTATOR_DELAY_SECONDS ago, rebuilt from
+ * the recorded actions.
+ */
+async function getGameStateForSpectator(
+  gameId: string,
+  spectatorId: string
+): Promise<GameOperationResult<GameStateView>> {
+  const supabase = createAdminClient();
+
+  const { data: game, error: gameError } = await supabase
+    .from("games")
+    .select("lobby_id, game_state, state_version, initial_state, game_spectators!inner(user_id)")
+    .eq("id", gameId)
+    .eq("game_spectators.user_id", spectatorId)
+    .maybeSingle();
+
+  if (gameError) {
+    console.error("Error fetching game state:", gameError);
+    return { success: false, error: "Failed to load game state", status: 500 };
+  }
+
+  if (!game) {
+    return { success: false, error: "Game not found", status: 404 };
+  }
+
+  const settings = await getSpectatorSettings(game.lobby_id);
+  if (!settings?.allow_spectators) {
+    return { success: false, error: "Spectating is turned off for this game", status: 403 };
+  }
+
+  const state = game.game_state as GameState;
+
+  if (settings.spectator_view !== "delayed" || !game.initial_state) {
+    return {
+      success: true,
+      data: {
+        version: game.state_version as number,
+        gameState: state.players ? redactGameState(state, spectatorId) : state,
+      },
+    };
+  }
+
+  const actions = await getRecordedActions(gameId);
+  if (!actions) {
+    return { success: false, error: "Failed to load game state", status: 500 };
+  }
+
+  const cutoff = Date.now() - SPECTATOR_DELAY_SECONDS * 1000;
+  const shown = actions.filter((action) => Date.parse(action.timestamp) <= cutoff);
+  const delayed = rebuildGameState({ initialState: game.initial_state as GameState, actions: shown });
+
+  return {
+    success: true,
+    data: {
+      version: shown.length > 0 ? shown[shown.length - 1].version : 1,
+      gameState: redactGameState(delayed, spectatorId, true),
+      delaySeconds: SPECTATOR_DELAY_SECONDS,
+    },
+  };
+}
+
+/**
+ * Gets whether a game's lobby lets people watch, and what they see.
+ */
+async function getSpectatorSettings(
+  lobbyId: string | null
+): Promise<{ allow_spectators: boolean; spectator_view: SpectatorView } | null> {
+  if (!lobbyId) return null;
+
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from("lobbies")
+    .select("allow_spectators, spectator_view")
+    .eq("id", lobbyId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching spectator settings:", error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Gets every recorded action of a game with its full payload, oldest first.
+ */
+async function getRecordedActions(gameId: string): Promise<AppliedGameAction[] | null> {
+  const supabase = createAdminClient();
+
+  const { data, error } = await supabase
+    .from("game_actions")
+    .select("seq, actor_id, type, payload, description, created_at")
+    .eq("game_id", gameId)
+    .order("seq");
+
+  if (error) {
+    console.error("Error fetching game actions:", error);
+    return null;
+  }
+
+  return (data || []).map((row) => ({
+    type: row.type,
+    playerId: row.actor_id,
+    payload: row.payload,
+    timestamp: row.created_at,
+    version: row.seq,
+    description: row.description,
+  }));
+}
+
+/**
+ * Gets the display name of every player in a game, for the game log.
+ */
+async function getPlayerNames(gameId: string): Promise<PlayerNames> {
+  const supabase = createAdminClient();
+
+  const { data: players, error: playersError } = await supabase
+    .from("game_players")
+    .select("user_id")
+    .eq("game_id", gameId);
+
+  if (playersError || !players) {
+    console.error("Error fetching game players:", playersError);
+    return {};
+  }
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from("profiles")
+    .select("id, username, display_name")
+    .in("id", players.map((p) => p.user_id));
+
+  if (profilesError) {
+    console.error("Error fetching player profiles:", profilesError);
+    return {};
+  }
+
+  const names: PlayerNames = {};
+  for (const profile of profiles || []) {
+    names[profile.id] = profile.display_name || profile.username;
+  }
+  return names;
+}
+
+/**
+ * Sends an applied action to everyone subscribed to the game channel.
+ */
+async function broadcastGameAction(gameId: string, action: AppliedGameAction): Promise<void> {
+  const supabase = createAdminClient();
+  const channel = supabase.channel(`game:${gameId}`);
+
+  const result = await channel.httpSend("game_action", action);
+  if (!result.success) {
+    console.error("Error broadcasting game action:", result.error);
+  }
+
+  await supabase.removeChannel(channel);
+}
+
+/**
+ * Builds a full action from client input. Randomness is generated here
+ * so a client can never choose the outcome of a shuffle.
+ */
+function buildAction(playerId: string, input: GameActionInput): GameAction {
+  const payload = { ...(input.payload || {}) };
+
+  if (
+    input.type === GameActionTypes.SHUFFLE_LIBRARY ||
+    input.type === GameActionTypes.MULLIGAN ||
+    input.type === GameActionTypes.CLOSE_LIBRARY
+  ) {
+    payload.seed = createShuffleSeed();
+  }
+
+  // Token instance IDs have to be the same wherever the action is replayed
+  if (input.type === GameActionTypes.CREATE_TOKEN) {
+    const count = Number(payload.count);
+    payload.tokenIds = Array.from(
+      { length: Number.isInteger(count) && count > 0 ? Math.min(count, MAX_TOKENS_PER_ACTION) : 0 },
+      () => crypto.randomUUID()
+    );
+  }
+
+  if (input.type === GameActionTypes.DRAW_ARROW) {
+    payload.arrowId = crypto.randomUUID();
+  }
+
+  if (
+    input.type === GameActionTypes.CAST_SPELL ||
+    input.type === GameActionTypes.CAST_COMMANDER ||
+    input.type === GameActionTypes.ADD_TO_STACK
+  ) {
+    payload.itemId = crypto.randomUUID();
+  }
+
+  return {
+    type: input.type,
+    playerId,
+    payload,
+    timestamp: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Builds the initial game state from the players' decks.
+ * Runs on the server when a game is started from a lobby.
+ */
+
+import { DEFAULT_AUTO_STOPS, GameCard, GameState } from "@/lib/game-state";
+import type { GamePlayerRecord } from "@/lib/game";
+import type { DeckCardRecord } from "@/lib/decks";
+import { createShuffleSeed, shuffleWithSeed, startMulligan } from "@/lib/game-reducer";
+
+/**
+ * Creates one GameCard per physical card in a deck, expanding quantities
+ * (e.g. 30 basic lands) into separate instances with opaque IDs.
+ */
+export function buildGameCards(ownerId: string, cards: DeckCardRecord[]): GameCard[] {
+  return cards.flatMap((card) =>
+    Array.from({ length: Math.max(card.quantity || 1, 1) }, () => ({
+      id: crypto.randomUUID(),
+      cardId: card.id,
+      name: card.name,
+      imageUrl: card.image_url,
+      type: card.type,
+      layout: card.layout,
+      faces: card.faces?.map((face) => ({
+        name: face.name,
+        imageUrl: face.image_url,
+        type: face.type,
+        rotated: face.rotated,
+      })),
+      zone: card.is_commander ? ("command" as const) : ("library" as const),
+      ownerId,
+      controllerId: ownerId,
+      tapped: false,
+      faceDown: !card.is_commander,
+      counters: {},
+      isCommander: card.is_commander || false,
+    }))
+  );
+}
+
+/**
+ * Creates the starting state: commanders in the command zone, a shuffled
+ * library and an opening hand for every player, and a random turn order.
+ * The game starts in the mulligan; turn 1 begins once everyone kept.
+ */
+export function initializeGameState(
+  players: GamePlayerRecord[],
+  deckCards: Record<string, GameCard[]>, // Keyed by userId
+  afkTimeoutSeconds?: number
+): GameState {
+  const turnOrder = shuffleWithSeed(
+    players.map((p) => p.user_id),
+    createShuffleSeed()
+  );
+
+  const gameState: GameState = {
+    players: {},
+    turnOrder,
+    activePlayerId: turnOrder[0] || "",
+    turnNumber: 1,
+    phase: "untap",
+    priorityPlayerId: "",
+    priorityPasses: [],
+    afkTimeoutSeconds,
+  };
+
+  for (const player of players) {
+    const cards = deckCards[player.user_id] || [];
+
+    // Separate commanders from library
+    const commanders = cards.filter((c) => c.isCommander);
+    const library = cards.filter((c) => !c.isCommander);
+
+    gameState.players[player.user_id] = {
+      id: player.id,
+      userId: player.user_id,
+      position: player.position,
+      deckId: player.deck_id,
+      deckName: player.deck_name,
+      commanderName: player.commander_name,
+      commanderImageUrl: player.commander_image_url,
+      commander2Name: player.commander2_name,
+      commander2ImageUrl: player.commander2_image_url,
+      lifeTotal: player.life_total,
+      isEliminated: player.is_eliminated,
+      commanderDamage: player.commander_damage || {},
+      commanders: commanders.map(({ id, name, imageUrl }) => ({ id, name, imageUrl })),
+      autoStops: DEFAULT_AUTO_STOPS,
+      zones: {
+        library: shuffleWithSeed(library, createShuffleSeed()),
+        hand: [],
+        battlefield: [],
+        graveyard: [],
+        exile: [],
+        command: commanders,
+      },
+    };
+  }
+
+  return startMulligan(gameState);
+}
@@ -0,0 +1,527 @@
+/**
+ * Game state model shared by the game page, the server and replays.
+ * This module is intentionally free of React and Supabase imports.
+ */
+
+import type { CardFace, CardLayout } from "@/lib/scryfall";
+
+// ============================================
+// Types
+// ============================================
+
+export type GameStatus = "active" | "paused" | "finished" | "abandoned";
+
+export type Zone = "library" | "hand" | "battlefield" | "graveyard" | "exile" | "command";
+
+/**
+ * Steps of a turn in order. Untap is handled automatically and main
+ * phases always stop; every other step is skipped unless a player
+ * has an auto-stop on it.
+ */
+export const GamePhases = [
+  "untap",
+  "upkeep",
+  "draw",
+  "main1",
+  "beginning_of_combat",
+  "declare_attackers",
+  "declare_blockers",
+  "combat_damage",
+  "end_of_combat",
+  "main2",
+  "end",
+  "cleanup",
+] as const;
+
+export type GamePhase = (typeof GamePhases)[number];
+
+export const GAME_PHASE_LABELS: Record<GamePhase, string> = {
+  untap: "Untap",
+  upkeep: "Upkeep",
+  draw: "Draw",
+  main1: "Main 1",
+  beginning_of_combat: "Beginning of Combat",
+  declare_attackers: "Declare Attackers",
+  declare_blockers: "Declare Blockers",
+  combat_damage: "Combat Damage",
+  end_of_combat: "End of Combat",
+  main2: "Main 2",
+  end: "End Step",
+  cleanup: "Cleanup",
+};
+
+/**
+ * Steps a new player stops at until they change their auto-stops.
+ */
+export const DEFAULT_AUTO_STOPS: GamePhase[] = ["upkeep", "draw", "declare_attackers", "declare_blockers", "end"];
+
+/**
+ * Counters a player (rather than a card) can have.
+ */
+export const PlayerCounterTypes = ["poison", "energy", "experience", "rad", "ticket"] as const;
+
+export type PlayerCounterType = (typeof PlayerCounterTypes)[number];
+
+export const PLAYER_COUNTER_LABELS: Record<PlayerCounterType, string> = {
+  poison: "Poison",
+  energy: "Energy",
+  experience: "Experience",
+  rad: "Rad",
+  ticket: "Tickets",
+};
+
+/**
+ * Card counters offered in the card menu. Any other name can be used too.
+ */
+export const CardCounterPresets = ["+1/+1", "-1/-1", "loyalty", "charge", "shield", "stun"] as const;
+
+export const MAX_COUNTER_NAME_LENGTH = 24;
+
+export const MAX_STACK_TEXT_LENGTH = 200;
+
+/**
+ * How long a player can be away before the table may vote to skip
+ * their turn or remove them, unless the lobby set its own timeout.
+ */
+export const DEFAULT_AFK_TIMEOUT_SECONDS = 180;
+
+/**
+ * How long the player an AFK vote is about has to call it off when
+ * nobody but the caller gets a say, e.g. in a two-player game.
+ */
+export const AFK_VOTE_GRACE_SECONDS = 30;
+
+export interface CardPosition {
+  x: number;
+  y: number;
+}
+
+export interface GameCard {
+  id: string; // Unique instance ID for this card in this game
+  cardId: string; // Original card ID from the deck
+  name: string;
+  imageUrl: string;
+  type?: string; // Main card type, e.g. "Creature" or "Land", for arranging the battlefield
+  layout?: CardLayout; // Only set for double-faced, flip and meld cards
+  faces?: CardFace[]; // Every face, front first; name, imageUrl and type show the current one
+  faceIndex?: number; // Current face, 0 (the front) when absent
+  zone: Zone;
+  ownerId: string; // Player who owns this card
+  controllerId: string; // Player who currently controls this card
+  position?: CardPosition; // Position on battlefield (only for battlefield zone)
+  tapped: boolean;
+  faceDown: boolean;
+  counters: Record<string, number>; // e.g., { "+1/+1": 3, "loyalty": 4 }
+  attachedTo?: string; // ID of card this is attached to
+  isCommander: boolean;
+  isToken?: boolean; // Ceases to exist when it leaves the battlefield
+  revealedTo?: string[]; // Players who may see this card while it is in a hidden zone
+  hidden?: boolean; // Set on card backs sent to players who cannot see this card
+}
+
+export interface PlayerZones {
+  library: GameCard[]; // Index 0 is the top of the library
+  hand: GameCard[];
+  battlefield: GameCard[];
+  graveyard: GameCard[]; // Index 0 is the top of the graveyard
+  exile: GameCard[];
+  command: GameCard[];
+}
+
+export interface GamePlayer {
+  id: string;
+  userId: string;
+  position: number;
+  deckId: string | null;
+  deckName: string;
+  commanderName: string;
+  commanderImageUrl: string | null;
+  commander2Name: string | null;
+  commander2ImageUrl: string | null;
+  lifeTotal: number;
+  isEliminated: boolean;
+  commanderDamage: Record<string, number>; // Damage taken, keyed by source commander GameCard id
+  counters?: Partial<Record<PlayerCounterType, number>>; // Only counters above zero are kept
+  libraryView?: LibraryView; // Set while the player is looking through their library
+  commanders?: CommanderIdentity[]; // Public even while a commander sits in a hidden zone
+  autoStops?: GamePhase[]; // Steps this player wants to stop at, defaults to DEFAULT_AUTO_STOPS
+  commanderCasts?: Record<string, number>; // Casts from the command zone, keyed by commander GameCard id
+  pendingCommanderReturns?: string[]; // Commanders in the graveyard or exile the owner may return
+  placement?: number; // 1 is first; set once the player is out or the game is over
+  zones: PlayerZones;
+}
+
+/**
+ * What a player is currently looking at in their own library.
+ * The cards themselves are marked with `revealedTo`.
+ */
+export interface LibraryView {
+  count?: number; // Top X cards; absent while searching the whole library
+  reveal?: boolean; // The cards are revealed to the whole table
+}
+
+/**
+ * A commander as every player knows it, wherever the card currently is.
+ */
+export interface CommanderIdentity {
+  id: string; // GameCard id
+  name: string;
+  imageUrl: string;
+}
+
+/**
+ * A player's progress through the pre-game mulligan.
+ */
+export interface MulliganStatus {
+  mulligans: number; // Mulligans taken so far; the first one is free
+  kept: boolean;
+}
+
+export interface GameState {
+  players: Record<string, GamePlayer>; // Keyed by userId
+  turnOrder: string[]; // Array of userIds in turn order
+  activePlayerId: string;
+  turnNumber: number;
+  phase: GamePhase;
+  priorityPlayerId: string; // Player who may act in the current step
+  priorityPasses: string[]; // Players who passed priority in a row this step
+  mulligans?: Record<string, MulliganStatus>; // Keyed by userId, present until every player kept
+  undoRequest?: UndoRequest; // Pending request to roll back actions
+  arrows?: GameArrow[]; // Targeting arrows, cleared when the turn passes
+  stack?: StackItem[]; // Shared by every player, index 0 is the top
+  drawOffer?: DrawOffer; // Pending proposal to end the game in a draw
+  afkVote?: AfkVote; // Pending vote on a player who stopped responding
+  afkTimeoutSeconds?: number; // From the lobby settings, DEFAULT_AFK_TIMEOUT_SECONDS when missing
+  result?: GameResult; // Set when the game is over
+  lastAction?: {
+    playerId: string;
+    action: string;
+    timestamp: string;
+  };
+}
+
+/**
+ * A temporary arrow a player drew to point out a target or an attacker.
+ */
+export interface GameArrow {
+  id: string;
+  playerId: string; // Player who drew it
+  from: ArrowEndpoint;
+  to: ArrowEndpoint;
+}
+
+/**
+ * Either end of an arrow: a card on a battlefield or a player.
+ */
+export type ArrowEndpoint = { cardId: string } | { playerId: string };
+
+/**
+ * A spell or ability waiting to resolve. Everything on the stack is public.
+ */
+export interface StackItem {
+  id: string;
+  playerId: string; // Player who cast or activated it
+  kind: "spell" | "ability";
+  text: string; // Card name for spells, the ability's text otherwise
+  card?: GameCard; // The spell itself, until it resolves or is countered
+}
+
+/**
+ * A proposal to end the game in a draw. It goes through once every
+ * player still in the game accepted it.
+ */
+export interface DrawOffer {
+  playerId: string;
+  acceptedBy: string[]; // Includes the player who offered it
+}
+
+/**
+ * A vote to skip the turn of a player who stopped responding, or to
+ * remove them from the game. It goes through once every other player
+ * still in the game voted for it, and someone besides the caller did or
+ * the grace period ran out; the player it is about can call it off.
+ */
+export interface AfkVote {
+  playerId: string; // Player who called the vote
+  targetId: string;
+  kind: AfkVoteKind;
+  acceptedBy: string[]; // Includes the player who called it
+  startedAt: string;
+}
+
+export type AfkVoteKind = "skip" | "remove";
+
+/**
+ * How the game ended. No more actions are accepted once it is set.
+ */
+export interface GameResult {
+  winnerId: string | null; // null when the remaining players agreed to a draw
+}
+
+/**
+ * A player's request to roll back some of their own actions.
+ * It goes through once every other player still in the game approved it.
+ */
+export interface UndoRequest {
+  playerId: string;
+  seqs: number[]; // game_actions.seq of the actions to roll back
+  approvedBy: string[];
+  requestedAt: string;
+}
+
+export interface GameAction {
+  type: string;
+  playerId: string;
+  payload: Record<string, unknown>;
+  timestamp: string;
+}
+
+/**
+ * An action as broadcast by the server after it has been applied.
+ * `version` is the games.state_version the action produced.
+ */
+export interface AppliedGameAction extends GameAction {
+  version: number;
+  description?: string; // Game log line, see game-log.ts
+}
+
+// ============================================
+// Game Action Types
+// ============================================
+
+export const GameActionTypes = {
+  // Card movement
+  MOVE_CARD: "MOVE_CARD",
+  TAP_CARD: "TAP_CARD",
+  UNTAP_CARD: "UNTAP_CARD",
+  FLIP_CARD: "FLIP_CARD",
+  TRANSFORM_CARD: "TRANSFORM_CARD", // Turn a double-faced, flip or meld card to its next face
+  ATTACH_CARD: "ATTACH_CARD", // Attach an aura or equipment, or detach it without a target
+
+  // Zone changes
+  DRAW_CARD: "DRAW_CARD",
+  LOOK_AT_LIBRARY: "LOOK_AT_LIBRARY", // Search, look at or reveal the top X
+  CLOSE_LIBRARY: "CLOSE_LIBRARY", // Put looked-at cards back; shuffles after a search
+  MILL_CARDS: "MILL_CARDS",
+  PLAY_CARD: "PLAY_CARD",
+  CAST_SPELL: "CAST_SPELL", // Puts a card from hand on the stack
+  DISCARD_CARD: "DISCARD_CARD",
+  EXILE_CARD: "EXILE_CARD",
+  RETURN_TO_HAND: "RETURN_TO_HAND",
+  RETURN_TO_LIBRARY: "RETURN_TO_LIBRARY",
+  CAST_COMMANDER: "CAST_COMMANDER", // Puts a commander from the command zone on the stack
+  RETURN_COMMANDER: "RETURN_COMMANDER",
+  DECLINE_COMMANDER_RETURN: "DECLINE_COMMANDER_RETURN", // Leave the commander where it went
+
+  // Counters
+  ADD_COUNTER: "ADD_COUNTER",
+  REMOVE_COUNTER: "REMOVE_COUNTER",
+
+  // Life
+  UPDATE_LIFE: "UPDATE_LIFE",
+  DEAL_COMMANDER_DAMAGE: "DEAL_COMMANDER_DAMAGE",
+  CREATE_TOKEN: "CREATE_TOKEN",
+  ADD_PLAYER_COUNTER: "ADD_PLAYER_COUNTER",
+  REMOVE_PLAYER_COUNTER: "REMOVE_PLAYER_COUNTER",
+
+  // Turn management
+  PASS_TURN: "PASS_TURN",
+  PASS_PRIORITY: "PASS_PRIORITY", // Resolves the top of the stack once everyone passed in a row
+  NEXT_STEP: "NEXT_STEP", // Active player moves on without waiting for priority
+  SET_AUTO_STOPS: "SET_AUTO_STOPS",
+
+  // Game state
+  SHUFFLE_LIBRARY: "SHUFFLE_LIBRARY",
+  REVEAL_CARD: "REVEAL_CARD",
+  DRAW_ARROW: "DRAW_ARROW",
+  CLEAR_ARROW: "CLEAR_ARROW", // Without an arrowId, clears all of the player's arrows
+  ADD_TO_STACK: "ADD_TO_STACK", // An activated or triggered ability
+  REMOVE_FROM_STACK: "REMOVE_FROM_STACK", // Counters a spell or ability
+  CONCEDE: "CONCEDE",
+  OFFER_DRAW: "OFFER_DRAW",
+  RESPOND_DRAW: "RESPOND_DRAW", // Declining cancels the offer
+  START_AFK_VOTE: "START_AFK_VOTE",
+  RESPOND_AFK_VOTE: "RESPOND_AFK_VOTE", // Declining cancels the vote
+
+  // Pre-game
+  MULLIGAN: "MULLIGAN",
+  KEEP_HAND: "KEEP_HAND",
+
+  // Undo
+  REQUEST_UNDO: "REQUEST_UNDO",
+  RESPOND_UNDO: "RESPOND_UNDO",
+  UNDO: "UNDO", // Issued by the server once everyone approved
+} as const;
+
+export type GameActionType = (typeof GameActionTypes)[keyof typeof GameActionTypes];
+
+// ============================================
+// Action Payloads
+// ============================================
+
+/**
+ * Moves a card to another zone, or repositions it on the battlefield
+ * when no destination zone is given.
+ */
+export interface MoveCardPayload {
+  cardId: string;
+  toZone?: Zone;
+  toPlayerId?: string; // Battlefield only: gives control to another player
+  x?: number;
+  y?: number;
+  index?: number; // Insertion index in the destination zone
+  faceDown?: boolean;
+}
+
+export interface TapCardPayload {
+  cardId: string;
+  tapped?: boolean; // Defaults to true for TAP_CARD
+}
+
+export interface AttachCardPayload {
+  cardId: string;
+  targetId?: string; // Host card; omit to detach
+}
+
+export interface CardPayload {
+  cardId: string;
+}
+
+export interface PlayCardPayload {
+  cardId: string;
+  x?: number;
+  y?: number;
+}
+
+export interface RevealCardPayload {
+  cardId: string;
+  to?: string[]; // Defaults to every player
+}
+
+export interface DrawArrowPayload {
+  from: ArrowEndpoint;
+  to: ArrowEndpoint;
+  arrowId?: string; // Filled in by the server
+}
+
+export interface ClearArrowPayload {
+  arrowId?: string;
+}
+
+export interface CastSpellPayload {
+  cardId: string;
+  itemId?: string; // Filled in by the server
+}
+
+export interface AddToStackPayload {
+  text: string;
+  itemId?: string; // Filled in by the server
+}
+
+export interface RemoveFromStackPayload {
+  itemId: string;
+}
+
+export interface ExileCardPayload {
+  cardId: string;
+  faceDown?: boolean;
+}
+
+export interface ReturnToLibraryPayload {
+  cardId: string;
+  position?: "top" | "bottom";
+}
+
+export interface DrawCardPayload {
+  count?: number;
+}
+
+export interface LookAtLibraryPayload {
+  count?: number; // Omit to search the whole library
+  reveal?: boolean;
+}
+
+export interface CloseLibraryPayload {
+  top?: string[]; // Card IDs to put on top, first one on the very top
+  bottom?: string[]; // Card IDs to put on the bottom, last one at the very bottom
+  seed?: number; // Filled in by the server, used to shuffle after a search
+}
+
+export interface MillCardsPayload {
+  count: number;
+}
+
+export interface CounterPayload {
+  cardId: string;
+  counter: string; // One of CardCounterPresets or a custom name
+  amount?: number;
+}
+
+export interface CreateTokenPayload {
+  cardId: string; // Scryfall ID of the token card
+  name: string;
+  imageUrl: string;
+  type?: string;
+  count: number;
+  tokenIds?: string[]; // Instance IDs, one per copy, filled in by the server
+}
+
+export interface PlayerCounterPayload {
+  playerId: string;
+  counter: PlayerCounterType;
+  amount?: number;
+}
+
+export interface UpdateLifePayload {
+  playerId: string;
+  lifeTotal?: number;
+  delta?: number;
+}
+
+export interface CommanderDamagePayload {
+  targetPlayerId: string;
+  commanderId: string; // GameCard id of the commander dealing the damage
+  amount: number;
+}
+
+export interface SetAutoStopsPayload {
+  phases: GamePhase[];
+}
+
+export interface ShuffleLibraryPayload {
+  seed: number;
+}
+
+export interface MulliganPayload {
+  seed: number; // Filled in by the server
+}
+
+export interface KeepHandPayload {
+  bottomCardIds: string[]; // London mulligan: cards to put on the bottom, in order
+}
+
+export interface RequestUndoPayload {
+  count: number; // How many of the sender's latest actions to roll back
+  seqs?: number[]; // Filled in by the server
+}
+
+export interface RespondUndoPayload {
+  approve: boolean; // Rejecting your own request withdraws it
+}
+
+export interface RespondDrawPayload {
+  accept: boolean;
+}
+
+export interface StartAfkVotePayload {
+  targetId: string;
+  kind: AfkVoteKind;
+}
+
+export interface RespondAfkVotePayload {
+  accept: boolean;
+}
+
+export interface UndoPayload {
+  seqs: number[];
+}
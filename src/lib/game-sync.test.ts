@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { AppliedGameAction, GameActionTypes } from "@/lib/game-state";
+import { redactGameState } from "@/lib/game-visibility";
+import {
+  GameSyncState,
+  initialGameSyncState,
+  receiveGameAction,
+  receiveGameStateView,
+} from "@/lib/game-sync";
+import { getCard, makeAction, makeState } from "@/lib/game-test-utils";
+
+function applied(
+  version: number,
+  type: string,
+  playerId: string,
+  payload: Record<string, unknown> = {}
+): AppliedGameAction {
+  return { ...makeAction(type, playerId, payload), version };
+}
+
+const tap = (version: number, cardId: string) =>
+  applied(version, GameActionTypes.TAP_CARD, "alice", { cardId });
+
+/**
+ * Bob's view of the game at version 5.
+ */
+function synced(): GameSyncState {
+  return { state: redactGameState(makeState(), "bob"), version: 5, pending: [] };
+}
+
+describe("receiveGameAction", () => {
+  it("applies the next action in order", () => {
+    const { sync, needsResync } = receiveGameAction(synced(), tap(6, "b1"), "bob");
+
+    expect(needsResync).toBe(false);
+    expect(sync.version).toBe(6);
+    expect(sync.pending).toEqual([]);
+    expect(getCard(sync.state!, "alice", "battlefield", "b1").tapped).toBe(true);
+  });
+
+  it("ignores actions it already has", () => {
+    const sync = synced();
+    expect(receiveGameAction(sync, tap(5, "b1"), "bob")).toEqual({ sync, needsResync: false });
+
+    const buffered = receiveGameAction(sync, tap(7, "b1"), "bob").sync;
+    expect(receiveGameAction(buffered, tap(7, "b2"), "bob")).toEqual({ sync: buffered, needsResync: false });
+  });
+
+  it("buffers actions after a gap and asks for a resync", () => {
+    const { sync, needsResync } = receiveGameAction(synced(), tap(7, "b2"), "bob");
+
+    expect(needsResync).toBe(true);
+    expect(sync.version).toBe(5);
+    expect(sync.pending.map((a) => a.version)).toEqual([7]);
+  });
+
+  it("drains buffered actions once the gap is filled", () => {
+    let { sync } = receiveGameAction(synced(), tap(8, "b2"), "bob");
+    ({ sync } = receiveGameAction(sync, tap(7, "b1"), "bob"));
+    const life = applied(6, GameActionTypes.UPDATE_LIFE, "alice", { playerId: "alice", delta: -1 });
+    const result = receiveGameAction(sync, life, "bob");
+
+    expect(result.needsResync).toBe(false);
+    expect(result.sync.version).toBe(8);
+    expect(result.sync.pending).toEqual([]);
+    expect(result.sync.state!.players.alice.lifeTotal).toBe(39);
+    expect(getCard(result.sync.state!, "alice", "battlefield", "b2").tapped).toBe(true);
+  });
+
+  it("stops at actions that need hidden information", () => {
+    const draw = applied(6, GameActionTypes.DRAW_CARD, "bob");
+    const { sync, needsResync } = receiveGameAction(synced(), draw, "bob");
+
+    expect(needsResync).toBe(true);
+    expect(sync.version).toBe(5);
+    expect(sync.pending).toEqual([draw]);
+  });
+
+  it("buffers everything until the first view arrives", () => {
+    const { sync, needsResync } = receiveGameAction(initialGameSyncState, tap(1, "b1"), "bob");
+
+    expect(needsResync).toBe(true);
+    expect(sync.state).toBeNull();
+    expect(sync.pending).toHaveLength(1);
+  });
+});
+
+describe("receiveGameStateView", () => {
+  it("applies buffered actions that follow the view", () => {
+    let { sync } = receiveGameAction(synced(), tap(7, "b1"), "bob");
+    ({ sync } = receiveGameAction(sync, tap(8, "b2"), "bob"));
+
+    const view = { version: 7, gameState: redactGameState(makeState(), "bob") };
+    const result = receiveGameStateView(sync, view, "bob");
+
+    expect(result.needsResync).toBe(false);
+    expect(result.sync.version).toBe(8);
+    expect(result.sync.pending).toEqual([]);
+    expect(getCard(result.sync.state!, "alice", "battlefield", "b1").tapped).toBe(false);
+    expect(getCard(result.sync.state!, "alice", "battlefield", "b2").tapped).toBe(true);
+  });
+
+  it("ignores views older than the current state", () => {
+    const sync = synced();
+    const view = { version: 4, gameState: makeState() };
+
+    expect(receiveGameStateView(sync, view, "bob")).toEqual({ sync, needsResync: false });
+  });
+
+  it("takes the first view whatever its version", () => {
+    const view = { version: 3, gameState: redactGameState(makeState(), "bob") };
+    const { sync, needsResync } = receiveGameStateView(initialGameSyncState, view, "bob");
+
+    expect(needsResync).toBe(false);
+    expect(sync).toEqual({ state: view.gameState, version: 3, pending: [] });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Client-side ordering of broadcast game actions.
+ * Actions are applied strictly in state_version order. When one is missing
+ * or needs hidden information, the client refetches its view from the
+ * server and then applies whatever was buffered after that version.
+ */
+
+import { AppliedGameAction, GameState } from "@/lib/game-state";
+import { applyGameAction } from "@/lib/game-reducer";
+import { redactGameState, requiresResync } from "@/lib/game-visibility";
+
+export interface GameSyncState {
+  state: GameState | null;
+  version: number;
+  pending: AppliedGameAction[]; // Received ahead of `version`, sorted by version
+}
+
+export interface GameSyncResult {
+  sync: GameSyncState;
+  needsResync: boolean;
+}
+
+export const initialGameSyncState: GameSyncState = {
+  state: null,
+  version: 0,
+  pending: [],
+};
+
+/**
+ * Handles an action broadcast by the server.
+ */
+export function receiveGameAction(
+  sync: GameSyncState,
+  action: AppliedGameAction,
+  viewerId: string
+): GameSyncResult {
+  if (action.version <= sync.version || sync.pending.some((a) => a.version === action.version)) {
+    return { sync, needsResync: false };
+  }
+
+  const pending = [...sync.pending, action].sort((a, b) => a.version - b.version);
+  return drainPending({ ...sync, pending }, viewerId);
+}
+
+/**
+ * Handles a full state view fetched from (or returned by) the server.
+ * Views older than what we already have are ignored.
+ */
+export function receiveGameStateView(
+  sync: GameSyncState,
+  view: { version: number; gameState: GameState },
+  viewerId: string
+): GameSyncResult {
+  if (sync.state && view.version < sync.version) {
+    return { sync, needsResync: false };
+  }
+
+  return drainPending(
+    {
+      state: view.gameState,
+      version: view.version,
+      pending: sync.pending.filter((a) => a.version > view.version),
+    },
+    viewerId
+  );
+}
+
+/**
+ * Applies buffered actions that directly follow the current version.
+ * Anything left over means there is a gap or an action we cannot apply
+ * locally, so the caller must resync.
+ */
+function drainPending(sync: GameSyncState, viewerId: string): GameSyncResult {
+  let { state, version } = sync;
+  const pending = [...sync.pending];
+
+  while (state && pending.length > 0 && pending[0].version === version + 1) {
+    if (requiresResync(state, pending[0], viewerId)) break;
+
+    const action = pending.shift()!;
+    state = redactGameState(applyGameAction(state, action), viewerId);
+    version = action.version;
+  }
+
+  return {
+    sync: { state, version, pending },
+    needsResync: pending.length > 0,
+  };
+}
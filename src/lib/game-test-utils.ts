@@ -0,0 +1,114 @@
+/**
+ * Fixtures shared by the game module tests.
+ */
+
+import { GameAction, GameCard, GamePlayer, GameState, PlayerZones, Zone } from "@/lib/game-state";
+
+export const PLAYERS = ["alice", "bob", "carol"];
+
+export const START = Date.parse("2026-01-01T12:00:00.000Z");
+
+export function makeCard(id: string, userId: string, zone: Zone, overrides: Partial<GameCard> = {}): GameCard {
+  return {
+    id,
+    cardId: `card-${id}`,
+    name: id,
+    imageUrl: `https://cards.scryfall.io/${id}.png`,
+    zone,
+    ownerId: userId,
+    controllerId: userId,
+    tapped: false,
+    faceDown: zone === "library",
+    counters: {},
+    isCommander: false,
+    ...overrides,
+  };
+}
+
+export function makePlayer(userId: string, cards: GameCard[]): GamePlayer {
+  const zones: PlayerZones = { library: [], hand: [], battlefield: [], graveyard: [], exile: [], command: [] };
+  for (const card of cards) {
+    if (card.controllerId === userId) zones[card.zone].push(card);
+  }
+
+  return {
+    id: `game-player-${userId}`,
+    userId,
+    position: PLAYERS.indexOf(userId),
+    deckId: null,
+    deckName: `${userId}'s deck`,
+    commanderName: "",
+    commanderImageUrl: null,
+    commander2Name: null,
+    commander2ImageUrl: null,
+    lifeTotal: 40,
+    isEliminated: false,
+    commanderDamage: {},
+    zones,
+  };
+}
+
+/**
+ * Alice's turn, main phase 1, with a small board for every zone.
+ */
+export function makeState(overrides: Partial<GameState> = {}, userIds = PLAYERS): GameState {
+  const cards = [
+    ...["l1", "l2", "l3", "l4", "l5"].map((id) => makeCard(id, "alice", "library")),
+    makeCard("h1", "alice", "hand", { type: "Creature" }),
+    makeCard("h2", "alice", "hand", { type: "Instant" }),
+    makeCard("b1", "alice", "battlefield", { type: "Creature" }),
+    makeCard("b2", "alice", "battlefield", { type: "Enchantment" }),
+    makeCard("cmd", "alice", "command", { type: "Creature", isCommander: true }),
+    makeCard("bb1", "bob", "battlefield", { type: "Creature", tapped: true }),
+    makeCard("bh1", "bob", "hand"),
+  ];
+
+  return {
+    players: Object.fromEntries(userIds.map((userId) => [userId, makePlayer(userId, cards)])),
+    turnOrder: userIds,
+    activePlayerId: "alice",
+    turnNumber: 1,
+    phase: "main1",
+    priorityPlayerId: "alice",
+    priorityPasses: [],
+    ...overrides,
+  };
+}
+
+/**
+ * An action sent `seconds` after the start of the game.
+ */
+export function makeAction(
+  type: string,
+  playerId: string,
+  payload: Record<string, unknown> = {},
+  seconds = 0
+): GameAction {
+  return {
+    type,
+    playerId,
+    payload,
+    timestamp: new Date(START + seconds * 1000).toISOString(),
+  };
+}
+
+export function zoneIds(state: GameState, userId: string, zone: Zone): string[] {
+  return state.players[userId].zones[zone].map((card) => card.id);
+}
+
+export function getCard(state: GameState, userId: string, zone: Zone, cardId: string): GameCard {
+  const card = state.players[userId].zones[zone].find((c) => c.id === cardId);
+  if (!card) throw new Error(`${cardId} is not in ${userId}'s ${zone}`);
+  return card;
+}
+
+/**
+ * Replaces one of a player's zones, e.g. to set up a tapped card.
+ */
+export function withZone(state: GameState, userId: string, zone: Zone, cards: GameCard[]): GameState {
+  const player = state.players[userId];
+  return {
+    ...state,
+    players: { ...state.players, [userId]: { ...player, zones: { ...player.zones, [zone]: cards } } },
+  };
+}
@@ -0,0 +1,598 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_AFK_TIMEOUT_SECONDS,
+  GameActionTypes,
+  GameState,
+  MAX_COUNTER_NAME_LENGTH,
+  MAX_STACK_TEXT_LENGTH,
+} from "@/lib/game-state";
+import { MAX_TOKENS_PER_ACTION, OPENING_HAND_SIZE } from "@/lib/game-reducer";
+import { canActOnCard, validateGameAction } from "@/lib/game-validation";
+import { makeAction, makeCard, makeState, START, withZone } from "@/lib/game-test-utils";
+
+function validate(state: GameState, type: string, playerId: string, payload: Record<string, unknown> = {}) {
+  return validateGameAction(state, makeAction(type, playerId, payload));
+}
+
+describe("validateGameAction", () => {
+  it("rejects unknown actions and players", () => {
+    const state = makeState();
+
+    expect(validate(state, "NOT_AN_ACTION", "alice")).toEqual({
+      valid: false,
+      error: "Unknown action type: NOT_AN_ACTION",
+    });
+    expect(validate(state, GameActionTypes.DRAW_CARD, "mallory").valid).toBe(false);
+  });
+
+  it("rejects actions from eliminated players", () => {
+    const state = makeState();
+    state.players.bob.isEliminated = true;
+
+    expect(validate(state, GameActionTypes.DRAW_CARD, "bob")).toEqual({
+      valid: false,
+      error: "Eliminated players cannot act",
+    });
+  });
+
+  it("rejects every action once the game is over", () => {
+    const state = makeState({ result: { winnerId: "alice" } });
+    expect(validate(state, GameActionTypes.PASS_TURN, "alice")).toEqual({ valid: false, error: "The game is over" });
+  });
+
+  describe("card actions", () => {
+    it("lets players act on cards they own or control", () => {
+      const state = makeState();
+      expect(validate(state, GameActionTypes.TAP_CARD, "alice", { cardId: "b1" })).toEqual({ valid: true });
+      expect(validate(state, GameActionTypes.UNTAP_CARD, "bob", { cardId: "bb1" })).toEqual({ valid: true });
+    });
+
+    it("rejects cards owned and controlled by someone else", () => {
+      const state = makeState();
+      expect(validate(state, GameActionTypes.TAP_CARD, "bob", { cardId: "b1" })).toEqual({
+        valid: false,
+        error: "You do not own or control that card",
+      });
+    });
+
+    it("rejects missing and unknown card ids", () => {
+      const state = makeState();
+      expect(validate(state, GameActionTypes.DISCARD_CARD, "alice", { cardId: "nope" }).error).toBe("Card not found");
+      expect(validate(state, GameActionTypes.DISCARD_CARD, "alice", { cardId: 5 }).error).toBe("Card not found");
+      expect(validate(state, GameActionTypes.DISCARD_CARD, "alice").error).toBe("Card not found");
+    });
+
+    it("rejects moves to players who are not in the game", () => {
+      const state = makeState();
+      expect(
+        validate(state, GameActionTypes.MOVE_CARD, "alice", {
+          cardId: "b1",
+          toZone: "battlefield",
+          toPlayerId: "nobody",
+        }).error
+      ).toBe("Unknown destination player");
+    });
+
+    it("rejects moves to unknown zones and to invalid positions", () => {
+      const move = (payload: Record<string, unknown>) =>
+        validate(makeState(), GameActionTypes.MOVE_CARD, "alice", { cardId: "b1", ...payload });
+
+      expect(move({ toZone: "graveyard", index: 0 }).valid).toBe(true);
+      expect(move({ x: 10.5, y: 20 }).valid).toBe(true);
+      expect(move({ toZone: "stack" }).error).toBe("Unknown destination zone");
+      expect(move({ x: "10", y: 20 }).error).toBe("Invalid card position");
+      expect(move({ x: Infinity, y: 20 }).error).toBe("Invalid card position");
+      expect(move({ toZone: "hand", index: null }).error).toBe("Invalid card position");
+    });
+
+    it("only reveals cards to players in the game", () => {
+      const reveal = (payload: Record<string, unknown>) =>
+        validate(makeState(), GameActionTypes.REVEAL_CARD, "alice", { cardId: "h1", ...payload });
+
+      expect(reveal({}).valid).toBe(true);
+      expect(reveal({ to: ["bob", "carol"] }).valid).toBe(true);
+      expect(reveal({ to: ["mallory"] }).error).toBe("Cards can only be revealed to players in the game");
+      expect(reveal({ to: "bob" }).error).toBe("Cards can only be revealed to players in the game");
+    });
+  });
+
+  describe(GameActionTypes.TRANSFORM_CARD, () => {
+    const faces = [
+      { name: "Front", imageUrl: "https://cards.scryfall.io/front.png", type: "Creature" },
+      { name: "Back", imageUrl: "https://cards.scryfall.io/back.png", type: "Creature" },
+    ];
+
+    it("transforms cards with more than one face outside the library", () => {
+      const state = withZone(makeState(), "alice", "battlefield", [makeCard("dfc", "alice", "battlefield", { faces })]);
+      const library = withZone(makeState(), "alice", "library", [makeCard("dfc", "alice", "library", { faces })]);
+
+      expect(validate(state, GameActionTypes.TRANSFORM_CARD, "alice", { cardId: "dfc" }).valid).toBe(true);
+      expect(validate(state, GameActionTypes.TRANSFORM_CARD, "alice", { cardId: "h1" }).error).toBe(
+        "That card has only one face"
+      );
+      expect(validate(library, GameActionTypes.TRANSFORM_CARD, "alice", { cardId: "dfc" }).error).toBe(
+        "Cards in your library cannot be transformed"
+      );
+    });
+  });
+
+  describe("card counters", () => {
+    const counter = (payload: Record<string, unknown>) =>
+      validate(makeState(), GameActionTypes.ADD_COUNTER, "alice", { cardId: "b1", ...payload });
+
+    it("takes preset and custom names up to the length limit", () => {
+      expect(counter({ counter: "+1/+1" }).valid).toBe(true);
+      expect(counter({ counter: "time" }).valid).toBe(true);
+      expect(counter({ counter: " " }).valid).toBe(false);
+      expect(counter({ counter: "x".repeat(MAX_COUNTER_NAME_LENGTH + 1) }).valid).toBe(false);
+    });
+
+    it("needs a positive whole amount", () => {
+      expect(counter({ counter: "charge", amount: 3 }).valid).toBe(true);
+      expect(counter({ counter: "charge", amount: 0 }).error).toBe("Counter amounts must be a positive whole number");
+      expect(counter({ counter: "charge", amount: 1.5 }).valid).toBe(false);
+      expect(counter({ counter: "charge", amount: "2" }).valid).toBe(false);
+    });
+  });
+
+  describe(GameActionTypes.UPDATE_LIFE, () => {
+    it("only lets players change their own life total", () => {
+      const state = makeState();
+      expect(validate(state, GameActionTypes.UPDATE_LIFE, "bob", { playerId: "bob", delta: -1 }).valid).toBe(true);
+      expect(validate(state, GameActionTypes.UPDATE_LIFE, "bob", { playerId: "alice", lifeTotal: 0 })).toEqual({
+        valid: false,
+        error: "You can only change your own life total",
+      });
+    });
+
+    it("needs whole numbers", () => {
+      const state = makeState();
+      expect(validate(state, GameActionTypes.UPDATE_LIFE, "bob", { playerId: "bob", delta: 1.5 }).valid).toBe(false);
+      expect(validate(state, GameActionTypes.UPDATE_LIFE, "bob", { playerId: "bob", lifeTotal: "20" })).toEqual({
+        valid: false,
+        error: "Life totals must be whole numbers",
+      });
+    });
+  });
+
+  describe(GameActionTypes.DEAL_COMMANDER_DAMAGE, () => {
+    const damage = (playerId: string, payload: Record<string, unknown>) =>
+      validate(makeState(), GameActionTypes.DEAL_COMMANDER_DAMAGE, playerId, {
+        commanderId: "cmd",
+        targetPlayerId: "bob",
+        amount: 3,
+        ...payload,
+      });
+
+    it("must be dealt by the commander's owner or to the sender", () => {
+      expect(damage("alice", {}).valid).toBe(true);
+      expect(damage("bob", {}).valid).toBe(true);
+      expect(damage("carol", {})).toEqual({ valid: false, error: "Commander damage must be dealt by or to yourself" });
+    });
+
+    it("needs a commander, a player in the game and a whole amount", () => {
+      expect(damage("alice", { commanderId: "b1" }).error).toBe("Commander not found");
+      expect(damage("alice", { targetPlayerId: "nobody" }).error).toBe("Unknown target player");
+      expect(damage("alice", { amount: 1.5 }).error).toBe("Commander damage must be a whole number");
+      expect(damage("alice", { amount: 0 }).valid).toBe(false);
+      expect(damage("alice", { amount: -2 }).valid).toBe(true);
+    });
+  });
+
+  describe("library tools", () => {
+    const looking = (count?: number) => {
+      const state = makeState();
+      const alice = state.players.alice;
+      state.players.alice = {
+        ...alice,
+        libraryView: count === undefined ? {} : { count },
+        zones: {
+          ...alice.zones,
+          library: alice.zones.library.map((card, index) =>
+            index < (count ?? Infinity) ? { ...card, revealedTo: ["alice"] } : card
+          ),
+        },
+      };
+      return state;
+    };
+
+    it("looks at a positive number of cards, one look at a time", () => {
+      expect(validate(makeState(), GameActionTypes.LOOK_AT_LIBRARY, "alice", { count: 2 }).valid).toBe(true);
+      expect(validate(makeState(), GameActionTypes.LOOK_AT_LIBRARY, "alice", {}).valid).toBe(true);
+      expect(validate(makeState(), GameActionTypes.LOOK_AT_LIBRARY, "alice", { count: 0 }).error).toBe(
+        "Choose how many cards to look at"
+      );
+      expect(validate(looking(2), GameActionTypes.LOOK_AT_LIBRARY, "alice", { count: 1 }).error).toBe(
+        "You are already looking at your library"
+      );
+    });
+
+    it("only reorders the cards that were looked at", () => {
+      const state = looking(2);
+      expect(validate(state, GameActionTypes.CLOSE_LIBRARY, "alice", { top: ["l2"], bottom: ["l1"] }).valid).toBe(
+        true
+      );
+      expect(validate(state, GameActionTypes.CLOSE_LIBRARY, "alice", { top: ["l3"] }).error).toBe(
+        "You can only reorder the cards you looked at"
+      );
+      expect(validate(state, GameActionTypes.CLOSE_LIBRARY, "alice", { top: ["l1"], bottom: ["l1"] }).valid).toBe(
+        false
+      );
+      expect(validate(state, GameActionTypes.CLOSE_LIBRARY, "alice", { top: "l1" }).error).toBe(
+        "Invalid library order"
+      );
+    });
+
+    it("shuffles after a search and needs an open library to close", () => {
+      expect(validate(looking(), GameActionTypes.CLOSE_LIBRARY, "alice", { top: ["l1"] }).error).toBe(
+        "Your library is shuffled after a search"
+      );
+      expect(validate(looking(), GameActionTypes.CLOSE_LIBRARY, "alice", {}).valid).toBe(true);
+      expect(validate(makeState(), GameActionTypes.CLOSE_LIBRARY, "alice", {}).error).toBe(
+        "You are not looking at your library"
+      );
+    });
+
+    it("mills a positive number of cards", () => {
+      expect(validate(makeState(), GameActionTypes.MILL_CARDS, "alice", { count: 3 }).valid).toBe(true);
+      expect(validate(makeState(), GameActionTypes.MILL_CARDS, "alice", { count: 0 }).valid).toBe(false);
+      expect(validate(makeState(), GameActionTypes.MILL_CARDS, "alice", {}).valid).toBe(false);
+    });
+  });
+
+  describe(GameActionTypes.CREATE_TOKEN, () => {
+    const token = (payload: Record<string, unknown>) =>
+      validate(makeState(), GameActionTypes.CREATE_TOKEN, "bob", {
+        cardId: "soldier",
+        name: "Soldier",
+        imageUrl: "https://cards.scryfall.io/soldier.png",
+        count: 1,
+        ...payload,
+      });
+
+    it("needs a name, Scryfall art and a sensible count", () => {
+      expect(token({}).valid).toBe(true);
+      expect(token({ name: " " }).error).toBe("Tokens need a name");
+      expect(token({ imageUrl: "https://example.com/soldier.png" }).error).toBe("Token images must come from Scryfall");
+      expect(token({ count: 0 }).valid).toBe(false);
+      expect(token({ count: MAX_TOKENS_PER_ACTION + 1 }).valid).toBe(false);
+    });
+  });
+
+  describe("player counters", () => {
+    const counter = (playerId: string, payload: Record<string, unknown>) =>
+      validate(makeState(), GameActionTypes.ADD_PLAYER_COUNTER, playerId, { amount: 1, ...payload });
+
+    it("lets players give themselves any counter and others only poison", () => {
+      expect(counter("bob", { playerId: "bob", counter: "energy" }).valid).toBe(true);
+      expect(counter("alice", { playerId: "bob", counter: "poison" }).valid).toBe(true);
+      expect(counter("alice", { playerId: "bob", counter: "energy" })).toEqual({
+        valid: false,
+        error: "You can only give other players poison counters",
+      });
+    });
+
+    it("only lets players take counters off themselves", () => {
+      const remove = (playerId: string, target: string) =>
+        validate(makeState(), GameActionTypes.REMOVE_PLAYER_COUNTER, playerId, {
+          playerId: target,
+          counter: "poison",
+          amount: 1,
+        });
+
+      expect(remove("bob", "bob").valid).toBe(true);
+      expect(remove("alice", "bob").valid).toBe(false);
+    });
+
+    it("rejects unknown players and counters", () => {
+      expect(counter("bob", { playerId: "nobody", counter: "poison" }).error).toBe("Unknown target player");
+      expect(counter("bob", { playerId: "bob", counter: "mana" }).error).toBe("Unknown player counter: mana");
+    });
+
+    it("needs a positive whole amount", () => {
+      expect(counter("bob", { playerId: "bob", counter: "energy", amount: 3 }).valid).toBe(true);
+      expect(counter("bob", { playerId: "bob", counter: "energy", amount: "abc" }).error).toBe(
+        "Counter amounts must be a positive whole number"
+      );
+      expect(counter("bob", { playerId: "bob", counter: "energy", amount: 0.5 }).valid).toBe(false);
+      expect(counter("bob", { playerId: "bob", counter: "energy", amount: 0 }).valid).toBe(false);
+    });
+  });
+
+  describe(GameActionTypes.ATTACH_CARD, () => {
+    it("attaches battlefield cards to other battlefield cards", () => {
+      const state = makeState();
+      expect(validate(state, GameActionTypes.ATTACH_CARD, "alice", { cardId: "b2", targetId: "bb1" }).valid).toBe(true);
+      expect(validate(state, GameActionTypes.ATTACH_CARD, "alice", { cardId: "b2" }).valid).toBe(true);
+      expect(validate(state, GameActionTypes.ATTACH_CARD, "alice", { cardId: "h1", targetId: "b1" }).error).toBe(
+        "Only cards on the battlefield can be attached"
+      );
+      expect(validate(state, GameActionTypes.ATTACH_CARD, "alice", { cardId: "b2", targetId: "h1" }).error).toBe(
+        "Cards can only be attached to cards on the battlefield"
+      );
+    });
+
+    it("rejects attaching a card to itself or to its own attachment", () => {
+      const state = withZone(makeState(), "alice", "battlefield", [
+        makeCard("b1", "alice", "battlefield"),
+        makeCard("b2", "alice", "battlefield", { attachedTo: "b1" }),
+      ]);
+
+      expect(validate(state, GameActionTypes.ATTACH_CARD, "alice", { cardId: "b1", targetId: "b1" }).error).toBe(
+        "Invalid attachment target"
+      );
+      expect(validate(state, GameActionTypes.ATTACH_CARD, "alice", { cardId: "b1", targetId: "b2" }).error).toBe(
+        "A card cannot be attached to its own attachment"
+      );
+    });
+  });
+
+  describe("arrows", () => {
+    it("draws arrows between battlefield cards and players", () => {
+      const arrow = (from: unknown, to: unknown) =>
+        validate(makeState(), GameActionTypes.DRAW_ARROW, "bob", { from, to });
+
+      expect(arrow({ cardId: "bb1" }, { playerId: "alice" }).valid).toBe(true);
+      expect(arrow({ cardId: "bb1" }, { cardId: "b1" }).valid).toBe(true);
+      expect(arrow({ cardId: "h1" }, { playerId: "alice" }).valid).toBe(false);
+      expect(arrow({ cardId: "bb1" }, { playerId: "nobody" }).valid).toBe(false);
+      expect(arrow(undefined, { playerId: "alice" }).valid).toBe(false);
+    });
+
+    it("only clears the player's own arrows", () => {
+      const state = makeState({
+        arrows: [{ id: "a1", playerId: "alice", from: { cardId: "b1" }, to: { playerId: "bob" } }],
+      });
+
+      expect(validate(state, GameActionTypes.CLEAR_ARROW, "alice", { arrowId: "a1" }).valid).toBe(true);
+      expect(validate(state, GameActionTypes.CLEAR_ARROW, "bob").valid).toBe(true);
+      expect(validate(state, GameActionTypes.CLEAR_ARROW, "bob", { arrowId: "a1" }).error).toBe(
+        "You can only clear your own arrows"
+      );
+      expect(validate(state, GameActionTypes.CLEAR_ARROW, "bob", { arrowId: "a2" }).error).toBe("Arrow not found");
+    });
+  });
+
+  describe("stack", () => {
+    it("casts spells from hand only", () => {
+      const state = makeState();
+      expect(validate(state, GameActionTypes.CAST_SPELL, "alice", { cardId: "h2" }).valid).toBe(true);
+      expect(validate(state, GameActionTypes.CAST_SPELL, "alice", { cardId: "b1" }).error).toBe(
+        "Spells are cast from your hand"
+      );
+    });
+
+    it("needs a short description for abilities", () => {
+      const ability = (text: unknown) => validate(makeState(), GameActionTypes.ADD_TO_STACK, "bob", { text });
+
+      expect(ability("Draw a card").valid).toBe(true);
+      expect(ability(" ").valid).toBe(false);
+      expect(ability("x".repeat(MAX_STACK_TEXT_LENGTH + 1)).valid).toBe(false);
+      expect(ability(undefined).valid).toBe(false);
+    });
+
+    it("lets anyone counter what is on the stack", () => {
+      const state = makeState({ stack: [{ id: "s1", playerId: "alice", kind: "ability", text: "Scry 1" }] });
+      expect(validate(state, GameActionTypes.REMOVE_FROM_STACK, "bob", { itemId: "s1" }).valid).toBe(true);
+      expect(validate(state, GameActionTypes.REMOVE_FROM_STACK, "bob", { itemId: "s2" }).error).toBe(
+        "That is no longer on the stack"
+      );
+    });
+  });
+
+  describe("turn structure", () => {
+    it("only lets the active player pass the turn or move to the next step", () => {
+      const state = makeState();
+      expect(validate(state, GameActionTypes.PASS_TURN, "alice").valid).toBe(true);
+      expect(validate(state, GameActionTypes.PASS_TURN, "bob")).toEqual({ valid: false, error: "It is not your turn" });
+      expect(validate(state, GameActionTypes.NEXT_STEP, "alice").valid).toBe(true);
+      expect(validate(state, GameActionTypes.NEXT_STEP, "bob").valid).toBe(false);
+    });
+
+    it("only lets the player with priority pass it", () => {
+      const state = makeState({ priorityPlayerId: "bob" });
+      expect(validate(state, GameActionTypes.PASS_PRIORITY, "bob").valid).toBe(true);
+      expect(validate(state, GameActionTypes.PASS_PRIORITY, "alice")).toEqual({
+        valid: false,
+        error: "You do not have priority",
+      });
+    });
+
+    it("keeps the turn from moving on while the stack is not empty", () => {
+      const state = makeState({ stack: [{ id: "s1", playerId: "bob", kind: "ability", text: "Draw a card" }] });
+      expect(validate(state, GameActionTypes.PASS_TURN, "alice").error).toBe("Wait for the stack to resolve");
+      expect(validate(state, GameActionTypes.NEXT_STEP, "alice").error).toBe("Wait for the stack to resolve");
+    });
+
+    it("rejects unknown steps in auto-stops", () => {
+      const state = makeState();
+      expect(validate(state, GameActionTypes.SET_AUTO_STOPS, "bob", { phases: ["upkeep", "end"] }).valid).toBe(true);
+      expect(validate(state, GameActionTypes.SET_AUTO_STOPS, "bob", { phases: ["lunch"] }).valid).toBe(false);
+      expect(validate(state, GameActionTypes.SET_AUTO_STOPS, "bob", { phases: "upkeep" }).valid).toBe(false);
+    });
+  });
+
+  describe("mulligans", () => {
+    const mulliganState = () =>
+      makeState({
+        mulligans: { alice: { mulligans: 2, kept: false }, bob: { mulligans: 0, kept: true } },
+      });
+
+    it("only allows pre-game actions until everyone kept", () => {
+      const state = mulliganState();
+      expect(validate(state, GameActionTypes.MULLIGAN, "alice", { seed: 1 }).valid).toBe(true);
+      expect(validate(state, GameActionTypes.CONCEDE, "bob").valid).toBe(true);
+      expect(validate(state, GameActionTypes.RESPOND_AFK_VOTE, "bob", { accept: true }).error).toBe(
+        "There is no vote to respond to"
+      );
+      expect(validate(state, GameActionTypes.DRAW_CARD, "bob")).toEqual({
+        valid: false,
+        error: "Wait until every player has kept their opening hand",
+      });
+    });
+
+    it("needs the right number of cards from hand to bottom", () => {
+      const state = mulliganState();
+      expect(validate(state, GameActionTypes.KEEP_HAND, "alice", { bottomCardIds: ["h1"] }).valid).toBe(true);
+      expect(validate(state, GameActionTypes.KEEP_HAND, "alice", { bottomCardIds: [] }).error).toBe(
+        "Choose 1 card(s) to put on the bottom of your library"
+      );
+      expect(validate(state, GameActionTypes.KEEP_HAND, "alice", { bottomCardIds: ["b1"] }).error).toBe(
+        "You can only bottom cards from your hand"
+      );
+    });
+
+    it("stops mulligans once another would leave no card to keep", () => {
+      const state = makeState({ mulligans: { alice: { mulligans: OPENING_HAND_SIZE, kept: false } } });
+      expect(validate(state, GameActionTypes.MULLIGAN, "alice", { seed: 1 })).toEqual({
+        valid: false,
+        error: "You cannot mulligan any further",
+      });
+    });
+
+    it("rejects players who kept and games that started", () => {
+      expect(validate(mulliganState(), GameActionTypes.MULLIGAN, "bob", { seed: 1 }).error).toBe(
+        "You already kept your hand"
+      );
+      expect(validate(makeState(), GameActionTypes.MULLIGAN, "bob", { seed: 1 }).error).toBe(
+        "The game has already started"
+      );
+    });
+  });
+
+  describe("draws", () => {
+    it("allows one offer at a time and answers only to an open offer", () => {
+      const state = makeState();
+      const offered = makeState({ drawOffer: { playerId: "bob", acceptedBy: ["bob"] } });
+
+      expect(validate(state, GameActionTypes.OFFER_DRAW, "bob").valid).toBe(true);
+      expect(validate(offered, GameActionTypes.OFFER_DRAW, "carol").error).toBe("A draw has already been offered");
+      expect(validate(offered, GameActionTypes.RESPOND_DRAW, "carol", { accept: true }).valid).toBe(true);
+      expect(validate(state, GameActionTypes.RESPOND_DRAW, "carol", { accept: true }).error).toBe(
+        "There is no draw offer to respond to"
+      );
+    });
+  });
+
+  describe("AFK votes", () => {
+    // Nobody has acted since the start, so the game has been waiting on Alice
+    const idle = (overrides: Partial<GameState> = {}) =>
+      makeState({
+        lastAction: { playerId: "bob", action: GameActionTypes.TAP_CARD, timestamp: new Date(START).toISOString() },
+        ...overrides,
+      });
+    const vote = (
+      state: GameState,
+      playerId: string,
+      payload: Record<string, unknown>,
+      seconds = DEFAULT_AFK_TIMEOUT_SECONDS
+    ) => validateGameAction(state, makeAction(GameActionTypes.START_AFK_VOTE, playerId, payload, seconds));
+
+    it("lets anyone call a vote on another player still in the game", () => {
+      const state = idle();
+      expect(vote(state, "bob", { targetId: "alice", kind: "remove" }).valid).toBe(true);
+      expect(vote(state, "bob", { targetId: "bob", kind: "remove" }).error).toBe("You cannot call a vote on yourself");
+      expect(vote(state, "bob", { targetId: "nobody", kind: "remove" }).error).toBe("That player is not in the game");
+      expect(vote(state, "bob", { targetId: "alice", kind: "ban" }).error).toBe("Unknown vote");
+    });
+
+    it("only votes on a player the game has waited on for the AFK timeout", () => {
+      const state = idle();
+      expect(vote(state, "bob", { targetId: "alice", kind: "skip" }).valid).toBe(true);
+      expect(vote(state, "bob", { targetId: "alice", kind: "skip" }, DEFAULT_AFK_TIMEOUT_SECONDS - 1).error).toBe(
+        "That player is not holding up the game"
+      );
+      expect(vote(state, "alice", { targetId: "carol", kind: "remove" }).error).toBe(
+        "That player is not holding up the game"
+      );
+    });
+
+    it("allows one vote at a time and answers only to an open vote", () => {
+      const voting = idle({
+        afkVote: {
+          playerId: "bob",
+          targetId: "alice",
+          kind: "remove",
+          acceptedBy: ["bob"],
+          startedAt: new Date(START).toISOString(),
+        },
+      });
+
+      expect(vote(voting, "carol", { targetId: "alice", kind: "skip" }).error).toBe("A vote is already in progress");
+      expect(validate(voting, GameActionTypes.RESPOND_AFK_VOTE, "carol", { accept: true }).valid).toBe(true);
+      expect(validate(idle(), GameActionTypes.RESPOND_AFK_VOTE, "carol", { accept: true }).error).toBe(
+        "There is no vote to respond to"
+      );
+    });
+
+    it("holds the caller's own vote back until it can go ahead", () => {
+      const voting = idle({
+        afkVote: {
+          playerId: "bob",
+          targetId: "alice",
+          kind: "remove",
+          acceptedBy: ["bob"],
+          startedAt: new Date(START).toISOString(),
+        },
+      });
+
+      expect(validate(voting, GameActionTypes.RESPOND_AFK_VOTE, "bob", { accept: true }).error).toBe(
+        "The vote cannot go ahead yet"
+      );
+      expect(validate(voting, GameActionTypes.RESPOND_AFK_VOTE, "bob", { accept: false }).valid).toBe(true);
+    });
+  });
+
+  describe("undo", () => {
+    it("needs actions to roll back and no pending request", () => {
+      const state = makeState();
+      expect(validate(state, GameActionTypes.REQUEST_UNDO, "alice", { count: 1, seqs: [3] }).valid).toBe(true);
+      expect(validate(state, GameActionTypes.REQUEST_UNDO, "alice", { count: 0, seqs: [3] }).error).toBe(
+        "Choose how many actions to undo"
+      );
+      expect(validate(state, GameActionTypes.REQUEST_UNDO, "alice", { count: 1, seqs: [] }).error).toBe(
+        "You have no actions to undo"
+      );
+
+      const pending = makeState({ undoRequest: { playerId: "bob", seqs: [2], approvedBy: [], requestedAt: "" } });
+      expect(validate(pending, GameActionTypes.REQUEST_UNDO, "alice", { count: 1, seqs: [3] }).error).toBe(
+        "An undo request is already pending"
+      );
+      expect(validate(pending, GameActionTypes.RESPOND_UNDO, "alice", { approve: true }).valid).toBe(true);
+    });
+
+    it("rejects responses without a request and UNDO from players", () => {
+      const state = makeState();
+      expect(validate(state, GameActionTypes.RESPOND_UNDO, "bob", { approve: true }).valid).toBe(false);
+      expect(validate(state, GameActionTypes.UNDO, "alice", { seqs: [3] })).toEqual({
+        valid: false,
+        error: "Undo has to be requested and approved by the table",
+      });
+    });
+  });
+
+  it("draws a positive whole number of cards", () => {
+    const state = makeState();
+    expect(validate(state, GameActionTypes.DRAW_CARD, "alice", { count: 3 }).valid).toBe(true);
+    expect(validate(state, GameActionTypes.DRAW_CARD, "alice", { count: 0 }).error).toBe("Choose how many cards to draw");
+    expect(validate(state, GameActionTypes.DRAW_CARD, "alice", { count: 1.5 }).valid).toBe(false);
+    expect(validate(state, GameActionTypes.DRAW_CARD, "alice", { count: "2" }).valid).toBe(false);
+  });
+
+  it("allows actions that only affect the sender", () => {
+    const state = makeState();
+    expect(validate(state, GameActionTypes.DRAW_CARD, "bob").valid).toBe(true);
+    expect(validate(state, GameActionTypes.SHUFFLE_LIBRARY, "bob", { seed: 1 }).valid).toBe(true);
+    expect(validate(state, GameActionTypes.CONCEDE, "bob").valid).toBe(true);
+  });
+});
+
+describe("canActOnCard", () => {
+  it("is true for the owner and the controller only", () => {
+    const card = makeCard("stolen", "alice", "battlefield", { controllerId: "bob" });
+
+    expect(canActOnCard(card, "alice")).toBe(true);
+    expect(canActOnCard(card, "bob")).toBe(true);
+    expect(canActOnCard(card, "carol")).toBe(false);
+  });
+});
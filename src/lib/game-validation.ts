@@ -0,0 +1,536 @@
+/**
+ * Server-side permission checks for game actions.
+ * Decides whether a player may perform an action before it is applied.
+ */
+
+import {
+  AddToStackPayload,
+  ArrowEndpoint,
+  AttachCardPayload,
+  CardPayload,
+  ClearArrowPayload,
+  CloseLibraryPayload,
+  CommanderDamagePayload,
+  CounterPayload,
+  CreateTokenPayload,
+  DrawArrowPayload,
+  DrawCardPayload,
+  GameAction,
+  GameActionTypes,
+  GameCard,
+  GamePhases,
+  GameState,
+  KeepHandPayload,
+  LookAtLibraryPayload,
+  MAX_COUNTER_NAME_LENGTH,
+  MAX_STACK_TEXT_LENGTH,
+  MillCardsPayload,
+  MoveCardPayload,
+  PlayerCounterPayload,
+  PlayerCounterTypes,
+  RemoveFromStackPayload,
+  RequestUndoPayload,
+  RespondAfkVotePayload,
+  RevealCardPayload,
+  SetAutoStopsPayload,
+  StartAfkVotePayload,
+  UpdateLifePayload,
+} from "@/lib/game-state";
+import {
+  canMulligan,
+  canSkipTurn,
+  cardsToBottom,
+  findCard,
+  hasTimedOut,
+  isAfkVoteAgreed,
+  MAX_TOKENS_PER_ACTION,
+  ZONES,
+} from "@/lib/game-reducer";
+
+/**
+ * Token art is shown to every player, so it must come from Scryfall.
+ */
+const TOKEN_IMAGE_HOST = "https://cards.scryfall.io/";
+
+/**
+ * Result of validating an action against the current game state.
+ */
+export interface GameActionValidation {
+  valid: boolean;
+  error?: string;
+}
+
+/**
+ * Actions whose payload targets a single card by `cardId`.
+ */
+const CARD_ACTIONS = new Set<string>([
+  GameActionTypes.MOVE_CARD,
+  GameActionTypes.TAP_CARD,
+  GameActionTypes.UNTAP_CARD,
+  GameActionTypes.FLIP_CARD,
+  GameActionTypes.TRANSFORM_CARD,
+  GameActionTypes.ATTACH_CARD,
+  GameActionTypes.PLAY_CARD,
+  GameActionTypes.CAST_SPELL,
+  GameActionTypes.DISCARD_CARD,
+  GameActionTypes.EXILE_CARD,
+  GameActionTypes.RETURN_TO_HAND,
+  GameActionTypes.RETURN_TO_LIBRARY,
+  GameActionTypes.CAST_COMMANDER,
+  GameActionTypes.RETURN_COMMANDER,
+  GameActionTypes.DECLINE_COMMANDER_RETURN,
+  GameActionTypes.ADD_COUNTER,
+  GameActionTypes.REMOVE_COUNTER,
+  GameActionTypes.REVEAL_CARD,
+]);
+
+/**
+ * Actions allowed while players are still taking mulligans.
+ */
+const PRE_GAME_ACTIONS = new Set<string>([
+  GameActionTypes.MULLIGAN,
+  GameActionTypes.KEEP_HAND,
+  GameActionTypes.SET_AUTO_STOPS,
+  GameActionTypes.CONCEDE,
+  GameActionTypes.START_AFK_VOTE,
+  GameActionTypes.RESPOND_AFK_VOTE,
+]);
+
+const KNOWN_ACTIONS = new Set<string>(Object.values(GameActionTypes));
+
+/**
+ * Checks that the sender is allowed to perform the action.
+ * Players may only touch cards they own or control, change their own
+ * life total and counters (other than poison), pass priority while
+ * they hold it, and pass the turn or move to the next step while they
+ * are the active player.
+ */
+export function validateGameAction(
+  state: GameState,
+  action: GameAction
+): GameActionValidation {
+  if (!KNOWN_ACTIONS.has(action.type)) {
+    return { valid: false, error: `Unknown action type: ${action.type}` };
+  }
+
+  const player = state.players[action.playerId];
+  if (!player) {
+    return { valid: false, error: "You are not a player in this game" };
+  }
+
+  if (state.result) {
+    return { valid: false, error: "The game is over" };
+  }
+
+  if (player.isEliminated) {
+    return { valid: false, error: "Eliminated players cannot act" };
+  }
+
+  if (state.mulligans && !PRE_GAME_ACTIONS.has(action.type)) {
+    return { valid: false, error: "Wait until every player has kept their opening hand" };
+  }
+
+  if (CARD_ACTIONS.has(action.type)) {
+    const { cardId } = action.payload as unknown as CardPayload;
+    const location = typeof cardId === "string" ? findCard(state, cardId) : null;
+
+    if (!location) {
+      return { valid: false, error: "Card not found" };
+    }
+
+    if (!canActOnCard(location.card, action.playerId)) {
+      return { valid: false, error: "You do not own or control that card" };
+    }
+
+    if (action.type === GameActionTypes.MOVE_CARD) {
+      const { toZone, toPlayerId, index, x, y } = action.payload as unknown as MoveCardPayload;
+      if (toZone !== undefined && !ZONES.includes(toZone)) {
+        return { valid: false, error: "Unknown destination zone" };
+      }
+      if ([index, x, y].some((value) => value !== undefined && !Number.isFinite(value))) {
+        return { valid: false, error: "Invalid card position" };
+      }
+      if (toPlayerId && !state.players[toPlayerId]) {
+        return { valid: false, error: "Unknown destination player" };
+      }
+    }
+
+    if (action.type === GameActionTypes.REVEAL_CARD) {
+      const { to } = action.payload as unknown as RevealCardPayload;
+      if (to !== undefined && (!Array.isArray(to) || !to.every((id) => state.turnOrder.includes(id)))) {
+        return { valid: false, error: "Cards can only be revealed to players in the game" };
+      }
+    }
+
+    if (action.type === GameActionTypes.TRANSFORM_CARD) {
+      if (!location.card.faces || location.card.faces.length < 2) {
+        return { valid: false, error: "That card has only one face" };
+      }
+      if (location.zone === "library") {
+        return { valid: false, error: "Cards in your library cannot be transformed" };
+      }
+    }
+
+    if (action.type === GameActionTypes.CAST_SPELL && location.zone !== "hand") {
+      return { valid: false, error: "Spells are cast from your hand" };
+    }
+
+    if (action.type === GameActionTypes.ADD_COUNTER || action.type === GameActionTypes.REMOVE_COUNTER) {
+      const { counter, amount = 1 } = action.payload as unknown as CounterPayload;
+      if (typeof counter !== "string" || !counter.trim() || counter.length > MAX_COUNTER_NAME_LENGTH) {
+        return { valid: false, error: `Counter names must be 1 to ${MAX_COUNTER_NAME_LENGTH} characters` };
+      }
+      if (!Number.isInteger(amount) || amount < 1) {
+        return { valid: false, error: "Counter amounts must be a positive whole number" };
+      }
+    }
+
+    if (action.type === GameActionTypes.ATTACH_CARD) {
+      const { targetId } = action.payload as unknown as AttachCardPayload;
+      const error = validateAttachment(state, location.card, targetId);
+      if (error) return { valid: false, error };
+    }
+
+    return { valid: true };
+  }
+
+  switch (action.type) {
+    case GameActionTypes.UPDATE_LIFE: {
+      const { playerId, lifeTotal, delta } = action.payload as unknown as UpdateLifePayload;
+      if (playerId !== action.playerId) {
+        return { valid: false, error: "You can only change your own life total" };
+      }
+      if ([lifeTotal, delta].some((value) => value !== undefined && !Number.isInteger(value))) {
+        return { valid: false, error: "Life totals must be whole numbers" };
+      }
+      return { valid: true };
+    }
+
+    case GameActionTypes.DRAW_CARD: {
+      const { count = 1 } = action.payload as DrawCardPayload;
+      if (!Number.isInteger(count) || count < 1) {
+        return { valid: false, error: "Choose how many cards to draw" };
+      }
+      return { valid: true };
+    }
+
+    case GameActionTypes.DEAL_COMMANDER_DAMAGE: {
+      const { targetPlayerId, commanderId, amount } =
+        action.payload as unknown as CommanderDamagePayload;
+      const source = typeof commanderId === "string" ? findCard(state, commanderId) : null;
+      if (!source?.card.isCommander) {
+        return { valid: false, error: "Commander not found" };
+      }
+      if (!state.players[targetPlayerId]) {
+        return { valid: false, error: "Unknown target player" };
+      }
+      if (!Number.isInteger(amount) || amount === 0) {
+        return { valid: false, error: "Commander damage must be a whole number" };
+      }
+      if (targetPlayerId !== action.playerId && !canActOnCard(source.card, action.playerId)) {
+        return {
+          valid: false,
+          error: "Commander damage must be dealt by or to yourself",
+        };
+      }
+      return { valid: true };
+    }
+
+    case GameActionTypes.LOOK_AT_LIBRARY: {
+      const { count } = action.payload as LookAtLibraryPayload;
+      if (player.libraryView) {
+        return { valid: false, error: "You are already looking at your library" };
+      }
+      if (count !== undefined && (!Number.isInteger(count) || count < 1)) {
+        return { valid: false, error: "Choose how many cards to look at" };
+      }
+      return { valid: true };
+    }
+
+    case GameActionTypes.CLOSE_LIBRARY: {
+      const { top = [], bottom = [] } = action.payload as CloseLibraryPayload;
+      if (!player.libraryView) {
+        return { valid: false, error: "You are not looking at your library" };
+      }
+      if (!Array.isArray(top) || !Array.isArray(bottom)) {
+        return { valid: false, error: "Invalid library order" };
+      }
+      const ids = [...top, ...bottom];
+      if (ids.length > 0 && player.libraryView.count === undefined) {
+        return { valid: false, error: "Your library is shuffled after a search" };
+      }
+      const looked = player.zones.library.filter((card) => card.revealedTo?.includes(player.userId));
+      if (
+        new Set(ids).size !== ids.length ||
+        !ids.every((id) => looked.some((card) => card.id === id))
+      ) {
+        return { valid: false, error: "You can only reorder the cards you looked at" };
+      }
+      return { valid: true };
+    }
+
+    case GameActionTypes.MILL_CARDS: {
+      const { count } = action.payload as unknown as MillCardsPayload;
+      if (!Number.isInteger(count) || count < 1) {
+        return { valid: false, error: "Choose how many cards to mill" };
+      }
+      return { valid: true };
+    }
+
+    case GameActionTypes.CREATE_TOKEN: {
+      const { name, imageUrl, count } = action.payload as unknown as CreateTokenPayload;
+      if (typeof name !== "string" || !name.trim()) {
+        return { valid: false, error: "Tokens need a name" };
+      }
+      if (typeof imageUrl !== "string" || !imageUrl.startsWith(TOKEN_IMAGE_HOST)) {
+        return { valid: false, error: "Token images must come from Scryfall" };
+      }
+      if (!Number.isInteger(count) || count < 1 || count > MAX_TOKENS_PER_ACTION) {
+        return { valid: false, error: `Create between 1 and ${MAX_TOKENS_PER_ACTION} tokens at a time` };
+      }
+      return { valid: true };
+    }
+
+    case GameActionTypes.ADD_PLAYER_COUNTER:
+    case GameActionTypes.REMOVE_PLAYER_COUNTER: {
+      const { playerId, counter, amount = 1 } = action.payload as unknown as PlayerCounterPayload;
+      if (!state.players[playerId]) {
+        return { valid: false, error: "Unknown target player" };
+      }
+      if (!PlayerCounterTypes.includes(counter)) {
+        return { valid: false, error: `Unknown player counter: ${counter}` };
+      }
+      if (!Number.isInteger(amount) || amount < 1) {
+        return { valid: false, error: "Counter amounts must be a positive whole number" };
+      }
+      // Infect and toxic give poison counters to opponents, but only
+      // their owner takes counters off
+      if (
+        playerId !== action.playerId &&
+        (action.type === GameActionTypes.REMOVE_PLAYER_COUNTER || counter !== "poison")
+      ) {
+        return { valid: false, error: "You can only give other players poison counters" };
+      }
+      return { valid: true };
+    }
+
+    case GameActionTypes.DRAW_ARROW: {
+      const { from, to } = action.payload as unknown as DrawArrowPayload;
+      if (!isArrowEndpoint(state, from) || !isArrowEndpoint(state, to)) {
+        return { valid: false, error: "Arrows go between cards on the battlefield and players" };
+      }
+      return { valid: true };
+    }
+
+    case GameActionTypes.CLEAR_ARROW: {
+      const { arrowId } = action.payload as ClearArrowPayload;
+      if (arrowId === undefined) return { valid: true };
+      const arrow = state.arrows?.find((a) => a.id === arrowId);
+      if (!arrow) {
+        return { valid: false, error: "Arrow not found" };
+      }
+      if (arrow.playerId !== action.playerId) {
+        return { valid: false, error: "You can only clear your own arrows" };
+      }
+      return { valid: true };
+    }
+
+    case GameActionTypes.ADD_TO_STACK: {
+      const { text } = action.payload as unknown as AddToStackPayload;
+      if (typeof text !== "string" || !text.trim() || text.length > MAX_STACK_TEXT_LENGTH) {
+        return { valid: false, error: `Describe the ability in 1 to ${MAX_STACK_TEXT_LENGTH} characters` };
+      }
+      return { valid: true };
+    }
+
+    case GameActionTypes.REMOVE_FROM_STACK: {
+      // Anyone may counter an item, since counterspells usually come from an opponent
+      const { itemId } = action.payload as unknown as RemoveFromStackPayload;
+      if (!state.stack?.some((item) => item.id === itemId)) {
+        return { valid: false, error: "That is no longer on the stack" };
+      }
+      return { valid: true };
+    }
+
+    case GameActionTypes.PASS_TURN: {
+      if (state.activePlayerId !== action.playerId) {
+        return { valid: false, error: "It is not your turn" };
+      }
+      if (state.stack?.length) {
+        return { valid: false, error: "Wait for the stack to resolve" };
+      }
+      return { valid: true };
+    }
+
+    case GameActionTypes.PASS_PRIORITY: {
+      if (state.priorityPlayerId !== action.playerId) {
+        return { valid: false, error: "You do not have priority" };
+      }
+      return { valid: true };
+    }
+
+    case GameActionTypes.NEXT_STEP: {
+      if (state.activePlayerId !== action.playerId) {
+        return { valid: false, error: "Only the active player can move to the next step" };
+      }
+      if (state.stack?.length) {
+        return { valid: false, error: "Wait for the stack to resolve" };
+      }
+      return { valid: true };
+    }
+
+    case GameActionTypes.SET_AUTO_STOPS: {
+      const { phases } = action.payload as unknown as SetAutoStopsPayload;
+      if (!Array.isArray(phases) || !phases.every((phase) => GamePhases.includes(phase))) {
+        return { valid: false, error: "Unknown step in auto-stops" };
+      }
+      return { valid: true };
+    }
+
+    case GameActionTypes.MULLIGAN:
+    case GameActionTypes.KEEP_HAND: {
+      const status = state.mulligans?.[action.playerId];
+      if (!status) {
+        return { valid: false, error: "The game has already started" };
+      }
+      if (status.kept) {
+        return { valid: false, error: "You already kept your hand" };
+      }
+      if (action.type === GameActionTypes.MULLIGAN && !canMulligan(status)) {
+        return { valid: false, error: "You cannot mulligan any further" };
+      }
+      if (action.type === GameActionTypes.KEEP_HAND) {
+        const { bottomCardIds } = action.payload as unknown as KeepHandPayload;
+        const required = cardsToBottom(status);
+        if (!Array.isArray(bottomCardIds) || bottomCardIds.length !== required) {
+          return { valid: false, error: `Choose ${required} card(s) to put on the bottom of your library` };
+        }
+        if (!bottomCardIds.every((id) => player.zones.hand.some((card) => card.id === id))) {
+          return { valid: false, error: "You can only bottom cards from your hand" };
+        }
+      }
+      return { valid: true };
+    }
+
+    case GameActionTypes.REQUEST_UNDO: {
+      const { count, seqs } = action.payload as unknown as RequestUndoPayload;
+      if (!Number.isInteger(count) || count < 1) {
+        return { valid: false, error: "Choose how many actions to undo" };
+      }
+      if (state.undoRequest) {
+        return { valid: false, error: "An undo request is already pending" };
+      }
+      if (!seqs || seqs.length === 0) {
+        return { valid: false, error: "You have no actions to undo" };
+      }
+      return { valid: true };
+    }
+
+    case GameActionTypes.RESPOND_UNDO: {
+      if (!state.undoRequest) {
+        return { valid: false, error: "There is no undo request to respond to" };
+      }
+      return { valid: true };
+    }
+
+    case GameActionTypes.UNDO:
+      return { valid: false, error: "Undo has to be requested and approved by the table" };
+
+    case GameActionTypes.OFFER_DRAW: {
+      if (state.drawOffer) {
+        return { valid: false, error: "A draw has already been offered" };
+      }
+      return { valid: true };
+    }
+
+    case GameActionTypes.RESPOND_DRAW: {
+      if (!state.drawOffer) {
+        return { valid: false, error: "There is no draw offer to respond to" };
+      }
+      return { valid: true };
+    }
+
+    // Only the player the game has been waiting on since the AFK timeout
+    case GameActionTypes.START_AFK_VOTE: {
+      const { targetId, kind } = action.payload as unknown as StartAfkVotePayload;
+      const target = typeof targetId === "string" ? state.players[targetId] : undefined;
+
+      if (state.afkVote) {
+        return { valid: false, error: "A vote is already in progress" };
+      }
+      if (!target || target.isEliminated) {
+        return { valid: false, error: "That player is not in the game" };
+      }
+      if (targetId === action.playerId) {
+        return { valid: false, error: "You cannot call a vote on yourself" };
+      }
+      if (kind !== "skip" && kind !== "remove") {
+        return { valid: false, error: "Unknown vote" };
+      }
+      if (
+        !hasTimedOut(state, targetId, Date.parse(action.timestamp)) ||
+        (kind === "skip" && !canSkipTurn(state, targetId))
+      ) {
+        return { valid: false, error: "That player is not holding up the game" };
+      }
+      return { valid: true };
+    }
+
+    case GameActionTypes.RESPOND_AFK_VOTE: {
+      const { accept } = action.payload as unknown as RespondAfkVotePayload;
+      const vote = state.afkVote;
+      if (!vote) {
+        return { valid: false, error: "There is no vote to respond to" };
+      }
+      if (
+        accept &&
+        vote.acceptedBy.includes(action.playerId) &&
+        !isAfkVoteAgreed(state, Date.parse(action.timestamp))
+      ) {
+        return { valid: false, error: "The vote cannot go ahead yet" };
+      }
+      return { valid: true };
+    }
+
+    default:
+      // SHUFFLE_LIBRARY and CONCEDE only affect the sender
+      return { valid: true };
+  }
+}
+
+/**
+ * Checks that a card on the battlefield may be attached to the target.
+ * Returns an error message, or null when it is fine. No target detaches.
+ */
+function validateAttachment(
+  state: GameState,
+  card: GameCard,
+  targetId: string | undefined
+): string | null {
+  if (card.zone !== "battlefield") return "Only cards on the battlefield can be attached";
+  if (targetId === undefined) return null;
+  if (typeof targetId !== "string" || targetId === card.id) return "Invalid attachment target";
+
+  // Following the chain of hosts must never lead back to the card itself
+  let host = findCard(state, targetId);
+  if (host?.zone !== "battlefield") return "Cards can only be attached to cards on the battlefield";
+  while (host?.card.attachedTo) {
+    if (host.card.attachedTo === card.id) return "A card cannot be attached to its own attachment";
+    host = findCard(state, host.card.attachedTo);
+  }
+  return null;
+}
+
+function isArrowEndpoint(state: GameState, end: ArrowEndpoint | undefined): boolean {
+  if (!end || typeof end !== "object") return false;
+  if ("playerId" in end) return state.turnOrder.includes(end.playerId);
+  if ("cardId" in end) return findCard(state, end.cardId)?.zone === "battlefield";
+  return false;
+}
+
+/**
+ * A player may act on a card they own or currently control.
+ */
+export function canActOnCard(card: GameCard, playerId: string): boolean {
+  return card.ownerId === playerId || card.controllerId === playerId;
+}
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import { GameActionTypes } from "@/lib/game-state";
+import { applyGameAction } from "@/lib/game-reducer";
+import { isCardVisibleTo, redactGameAction, redactGameState, requiresResync } from "@/lib/game-visibility";
+import { getCard, makeAction, makeCard, makeState, withZone } from "@/lib/game-test-utils";
+
+describe("isCardVisibleTo", () => {
+  it("hides libraries from everyone and hands from everyone but the owner", () => {
+    expect(isCardVisibleTo(makeCard("l1", "alice", "library"), "alice")).toBe(false);
+    expect(isCardVisibleTo(makeCard("h1", "alice", "hand"), "alice")).toBe(true);
+    expect(isCardVisibleTo(makeCard("h1", "alice", "hand"), "bob")).toBe(false);
+  });
+
+  it("shows face-down cards to their owner and controller only", () => {
+    const card = makeCard("morph", "alice", "battlefield", { controllerId: "bob", faceDown: true });
+
+    expect(isCardVisibleTo(card, "alice")).toBe(true);
+    expect(isCardVisibleTo(card, "bob")).toBe(true);
+    expect(isCardVisibleTo(card, "carol")).toBe(false);
+  });
+
+  it("shows revealed cards to the players they were revealed to", () => {
+    const card = makeCard("l1", "alice", "library", { revealedTo: ["bob"] });
+
+    expect(isCardVisibleTo(card, "bob")).toBe(true);
+    expect(isCardVisibleTo(card, "carol")).toBe(false);
+  });
+
+  it("shows every hand but not libraries when hands are revealed", () => {
+    expect(isCardVisibleTo(makeCard("h1", "alice", "hand"), "spectator", true)).toBe(true);
+    expect(isCardVisibleTo(makeCard("l1", "alice", "library"), "spectator", true)).toBe(false);
+  });
+
+  it("shows public cards to everyone", () => {
+    expect(isCardVisibleTo(makeCard("b1", "alice", "battlefield"), "carol")).toBe(true);
+    expect(isCardVisibleTo(makeCard("g1", "alice", "graveyard"), "carol")).toBe(true);
+  });
+});
+
+describe("redactGameState", () => {
+  it("replaces hidden cards with positional card backs", () => {
+    const view = redactGameState(makeState(), "bob");
+    const hand = view.players.alice.zones.hand;
+
+    expect(hand.map((card) => card.id)).toEqual(["hidden-alice-hand-0", "hidden-alice-hand-1"]);
+    expect(hand[0]).toMatchObject({ cardId: "", name: "", imageUrl: "", faceDown: true, hidden: true });
+    expect(view.players.alice.zones.library).toHaveLength(5);
+    expect(view.players.alice.zones.library.every((card) => card.hidden)).toBe(true);
+  });
+
+  it("keeps the viewer's own hand and public zones", () => {
+    const state = makeState();
+    const view = redactGameState(state, "alice");
+
+    expect(view.players.alice.zones.hand).toEqual(state.players.alice.zones.hand);
+    expect(view.players.bob.zones.battlefield).toEqual(state.players.bob.zones.battlefield);
+  });
+
+  it("keeps face-down permanents in place but without their identity", () => {
+    const state = withZone(makeState(), "alice", "battlefield", [
+      makeCard("morph", "alice", "battlefield", { faceDown: true, tapped: true, position: { x: 1, y: 2 } }),
+    ]);
+    const card = getCard(redactGameState(state, "bob"), "alice", "battlefield", "morph");
+
+    expect(card).toMatchObject({ name: "", tapped: true, position: { x: 1, y: 2 }, hidden: true });
+  });
+
+  it("shows spectators every hand when hands are revealed", () => {
+    const state = makeState();
+    const hidden = redactGameState(state, "spectator");
+    const revealed = redactGameState(state, "spectator", true);
+
+    expect(hidden.players.alice.zones.hand.every((card) => card.hidden)).toBe(true);
+    expect(revealed.players.alice.zones.hand).toEqual(state.players.alice.zones.hand);
+    expect(revealed.players.alice.zones.library.every((card) => card.hidden)).toBe(true);
+  });
+
+  it("leaves the full state untouched", () => {
+    const state = makeState();
+    const snapshot = structuredClone(state);
+
+    redactGameState(state, "bob");
+    expect(state).toEqual(snapshot);
+  });
+});
+
+describe("redactGameAction", () => {
+  it("strips the shuffle seed", () => {
+    const action = makeAction(GameActionTypes.SHUFFLE_LIBRARY, "alice", { seed: 42 });
+    expect(redactGameAction(action).payload).toEqual({});
+    expect(action.payload).toEqual({ seed: 42 });
+  });
+
+  it("strips the mulligan seed and the bottomed cards", () => {
+    const mulligan = makeAction(GameActionTypes.MULLIGAN, "alice", { seed: 42 });
+    const keep = makeAction(GameActionTypes.KEEP_HAND, "alice", { bottomCardIds: ["h1"] });
+
+    expect(redactGameAction(mulligan).payload).toEqual({});
+    expect(redactGameAction(keep).payload).toEqual({});
+  });
+
+  it("strips the order and seed when closing a library", () => {
+    const close = makeAction(GameActionTypes.CLOSE_LIBRARY, "alice", { top: ["l2"], bottom: ["l1"], seed: 42 });
+    expect(redactGameAction(close).payload).toEqual({});
+  });
+
+  it("leaves other actions alone", () => {
+    const action = makeAction(GameActionTypes.TAP_CARD, "alice", { cardId: "b1" });
+    expect(redactGameAction(action)).toBe(action);
+  });
+});
+
+describe("requiresResync", () => {
+  it("resyncs the drawing player and everyone after a shuffle or an undo", () => {
+    const state = redactGameState(makeState(), "bob");
+
+    expect(requiresResync(state, makeAction(GameActionTypes.DRAW_CARD, "bob"), "bob")).toBe(true);
+    expect(requiresResync(state, makeAction(GameActionTypes.DRAW_CARD, "alice"), "bob")).toBe(false);
+    expect(requiresResync(state, makeAction(GameActionTypes.SHUFFLE_LIBRARY, "alice"), "bob")).toBe(true);
+    expect(requiresResync(state, makeAction(GameActionTypes.UNDO, "alice", { seqs: [3] }), "bob")).toBe(true);
+  });
+
+  it("resyncs everyone after library tools", () => {
+    const state = redactGameState(makeState(), "bob");
+
+    for (const type of [GameActionTypes.LOOK_AT_LIBRARY, GameActionTypes.CLOSE_LIBRARY, GameActionTypes.MILL_CARDS]) {
+      expect(requiresResync(state, makeAction(type, "alice", { count: 1 }), "bob")).toBe(true);
+    }
+  });
+
+  it("resyncs everyone after a mulligan and opponents after a keep", () => {
+    const state = redactGameState(makeState(), "bob");
+
+    expect(requiresResync(state, makeAction(GameActionTypes.MULLIGAN, "bob"), "bob")).toBe(true);
+    expect(requiresResync(state, makeAction(GameActionTypes.KEEP_HAND, "alice"), "bob")).toBe(true);
+    expect(requiresResync(state, makeAction(GameActionTypes.KEEP_HAND, "bob"), "bob")).toBe(false);
+  });
+
+  it("resyncs when the action targets a card the viewer cannot see", () => {
+    const state = redactGameState(makeState(), "bob");
+    const play = makeAction(GameActionTypes.PLAY_CARD, "alice", { cardId: "h1" });
+    const tap = makeAction(GameActionTypes.TAP_CARD, "alice", { cardId: "b1" });
+
+    expect(requiresResync(state, play, "bob")).toBe(true);
+    expect(requiresResync(state, tap, "bob")).toBe(false);
+  });
+
+  it("lets a viewer apply actions on visible cards to their own view", () => {
+    const full = makeState();
+    const action = makeAction(GameActionTypes.TAP_CARD, "alice", { cardId: "b1" });
+    const local = applyGameAction(redactGameState(full, "bob"), action);
+    const server = applyGameAction(full, action);
+
+    expect(redactGameState(local, "bob").players).toEqual(redactGameState(server, "bob").players);
+  });
+});
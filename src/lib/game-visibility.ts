@@ -0,0 +1,159 @@
+/**
+ * Hidden information rules.
+ * The server keeps the full game state and sends each player a redacted
+ * copy where cards they are not allowed to see are replaced by card backs.
+ * Spectators see what an opponent would, unless the lobby
+ * reveals every hand to them on a delay.
+ */
+
+import {
+  CardPayload,
+  GameAction,
+  GameActionTypes,
+  GameCard,
+  GamePlayer,
+  GameState,
+  Zone,
+} from "@/lib/game-state";
+import { findCard } from "@/lib/game-reducer";
+
+/**
+ * Zones whose contents are hidden by default.
+ */
+export const HIDDEN_ZONES: Zone[] = ["library", "hand"];
+
+/**
+ * What spectators get to see, as set by the lobby host.
+ */
+export type SpectatorView = "hidden" | "delayed";
+
+/**
+ * How far behind the table spectators are when every hand is revealed,
+ * so a stream cannot be used to look at an opponent's hand.
+ */
+export const SPECTATOR_DELAY_SECONDS = 120;
+
+/**
+ * Whether a player may see a card's identity.
+ * Libraries are hidden from everyone, hands from everyone but the owner,
+ * and face-down cards from everyone but their owner and controller.
+ * Revealed cards are visible to the players they were revealed to.
+ * `revealHands` shows every hand, for delayed spectators.
+ */
+export function isCardVisibleTo(card: GameCard, viewerId: string, revealHands = false): boolean {
+  if (card.revealedTo?.includes(viewerId)) return true;
+
+  if (card.zone === "library") return false;
+  if (card.zone === "hand") return revealHands || card.ownerId === viewerId;
+  if (card.faceDown) return card.ownerId === viewerId || card.controllerId === viewerId;
+
+  return true;
+}
+
+/**
+ * Returns the game state as seen by one player or spectator.
+ */
+export function redactGameState(state: GameState, viewerId: string, revealHands = false): GameState {
+  const players: Record<string, GamePlayer> = {};
+
+  for (const [userId, player] of Object.entries(state.players)) {
+    const zones = { ...player.zones };
+    for (const zone of Object.keys(zones) as Zone[]) {
+      zones[zone] = zones[zone].map((card, index) =>
+        isCardVisibleTo(card, viewerId, revealHands) ? card : hideCard(card, index)
+      );
+    }
+    players[userId] = { ...player, zones };
+  }
+
+  return { ...state, players };
+}
+
+/**
+ * Strips fields from an action that would leak hidden information
+ * when broadcast to every player.
+ */
+export function redactGameAction<T extends GameAction>(action: T): T {
+  switch (action.type) {
+    case GameActionTypes.SHUFFLE_LIBRARY:
+    case GameActionTypes.MULLIGAN: {
+      // The seed would let clients follow known cards through the shuffle
+      const payload = { ...action.payload };
+      delete payload.seed;
+      return { ...action, payload };
+    }
+
+    case GameActionTypes.CLOSE_LIBRARY: {
+      // The order would let opponents follow cards put on top or bottom
+      const payload = { ...action.payload };
+      delete payload.seed;
+      delete payload.top;
+      delete payload.bottom;
+      return { ...action, payload };
+    }
+
+    case GameActionTypes.KEEP_HAND: {
+      // Card IDs would let opponents recognize the bottomed cards later
+      const payload = { ...action.payload };
+      delete payload.bottomCardIds;
+      return { ...action, payload };
+    }
+
+    default:
+      return action;
+  }
+}
+
+/**
+ * Whether a broadcast action needs information the viewer does not have
+ * locally, in which case their view must be fetched from the server
+ * instead of being computed by applying the action.
+ */
+export function requiresResync(state: GameState, action: GameAction, viewerId: string): boolean {
+  switch (action.type) {
+    case GameActionTypes.DRAW_CARD:
+      return action.playerId === viewerId;
+
+    case GameActionTypes.KEEP_HAND:
+      return action.playerId !== viewerId;
+
+    case GameActionTypes.SHUFFLE_LIBRARY:
+    case GameActionTypes.LOOK_AT_LIBRARY:
+    case GameActionTypes.CLOSE_LIBRARY:
+    case GameActionTypes.MILL_CARDS:
+    case GameActionTypes.MULLIGAN:
+    case GameActionTypes.UNDO:
+      return true;
+  }
+
+  const { cardId } = action.payload as Partial<CardPayload>;
+  if (typeof cardId !== "string") return false;
+
+  const location = findCard(state, cardId);
+  return !location || !!location.card.hidden;
+}
+
+/**
+ * Replaces a card with a card back. Cards in hidden zones also get a
+ * positional ID so they cannot be followed through shuffles.
+ */
+function hideCard(card: GameCard, index: number): GameCard {
+  const inHiddenZone = HIDDEN_ZONES.includes(card.zone);
+
+  return {
+    id: inHiddenZone ? `hidden-${card.ownerId}-${card.zone}-${index}` : card.id,
+    cardId: "",
+    name: "",
+    imageUrl: "",
+    zone: card.zone,
+    ownerId: card.ownerId,
+    controllerId: card.controllerId,
+    position: card.position,
+    tapped: card.tapped,
+    faceDown: true,
+    counters: inHiddenZone ? {} : card.counters,
+    attachedTo: card.attachedTo,
+    isCommander: false,
+    hidden: true,
+  };
+}
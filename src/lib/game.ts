@@ -1,78 +1,56 @@
 import { createClient } from "@/lib/supabase/client";
 import { RealtimeChannel } from "@supabase/supabase-js";
+import type { AppliedGameAction, GameState, GameStatus } from "@/lib/game-state";
+import type { GameLogEntry } from "@/lib/game-log";
+import type { GameReplay } from "@/lib/game-replay";
+
+export type {
+  GameStatus,
+  Zone,
+  CardPosition,
+  GameCard,
+  PlayerZones,
+  GamePlayer,
+  GameState,
+  GameAction,
+  AppliedGameAction,
+  GameActionType,
+  GamePhase,
+  UndoRequest,
+  GameArrow,
+  ArrowEndpoint,
+  StackItem,
+  GameResult,
+  AfkVote,
+  AfkVoteKind,
+  CommanderIdentity,
+  PlayerCounterType,
+} from "@/lib/game-state";
+export {
+  GameActionTypes,
+  GamePhases,
+  GAME_PHASE_LABELS,
+  DEFAULT_AUTO_STOPS,
+  PlayerCounterTypes,
+  PLAYER_COUNTER_LABELS,
+  CardCounterPresets,
+  MAX_COUNTER_NAME_LENGTH,
+  MAX_STACK_TEXT_LENGTH,
+  DEFAULT_AFK_TIMEOUT_SECONDS,
+  AFK_VOTE_GRACE_SECONDS,
+} from "@/lib/game-state";
+export type { GameLogEntry } from "@/lib/game-log";
 
 // ============================================
 // Types
 // ============================================
 
-export type GameStatus = "active" | "paused" | "finished" | "abandoned";
-
-export type Zone = "library" | "hand" | "battlefield" | "graveyard" | "exile" | "command";
-
-export interface CardPosition {
-  x: number;
-  y: number;
-}
-
-export interface GameCard {
-  id: string; // Unique instance ID for this card in this game
-  cardId: string; // Original card ID from the deck
-  name: string;
-  imageUrl: string;
-  zone: Zone;
-  ownerId: string; // Player who owns this card
-  controllerId: string; // Player who currently controls this card
-  position?: CardPosition; // Position on battlefield (only for battlefield zone)
-  tapped: boolean;
-  faceDown: boolean;
-  counters: Record<string, number>; // e.g., { "+1/+1": 3, "loyalty": 4 }
-  attachedTo?: string; // ID of card this is attached to
-  isCommander: boolean;
-}
-
-export interface PlayerZones {
-  library: GameCard[];
-  hand: GameCard[];
-  battlefield: GameCard[];
-  graveyard: GameCard[];
-  exile: GameCard[];
-  command: GameCard[];
-}
-
-export interface GamePlayer {
-  id: string;
-  userId: string;
-  position: number;
-  deckId: string | null;
-  deckName: string;
-  commanderName: string;
-  commanderImageUrl: string | null;
-  commander2Name: string | null;
-  commander2ImageUrl: string | null;
-  lifeTotal: number;
-  isEliminated: boolean;
-  commanderDamage: Record<string, number>;
-  zones: PlayerZones;
-}
-
-export interface GameState {
-  players: Record<string, GamePlayer>; // Keyed by userId
-  turnOrder: string[]; // Array of userIds in turn order
-  activePlayerId: string;
-  turnNumber: number;
-  phase: string;
-  lastAction?: {
-    playerId: string;
-    action: string;
-    timestamp: string;
-  };
-}
-
 export interface Game {
   id: string;
   lobbyId: string | null;
   status: GameStatus;
   gameState: GameState;
+  stateVersion: number;
   currentTurnPlayerId: string | null;
   turnNumber: number;
   startedAt: string;
@@ -93,44 +71,63 @@ export interface GamePlayerRecord {
   commander2_image_url: string | null;
   life_total: number;
   is_eliminated: boolean;
-  commander_damage: Record<string, number>;
+  commander_damage: Record<string, number>; // Keyed by source commander GameCard id
 }
 
-// ============================================
-// Game Operations
-// ============================================
-
 /**
- * Starts a game from a lobby.
+ * A finished game's result, as stored in the game_results table.
  */
-export async function startGame(lobbyId: string): Promise<string | null> {
-  const supabase = createClient();
-
-  const { data, error } = await supabase.rpc("start_game_from_lobby", {
-    p_lobby_id: lobbyId,
-  });
+export interface GameResultRecord {
+  game_id: string;
+  lobby_id: string | null;
+  winner_id: string | null; // null for a draw
+  placements: { user_id: string; placement: number }[]; // Best first
+  turn_count: number;
+  duration_seconds: number;
+  rematch_game_id: string | null;
+  created_at: string;
+}
 
-  if (error) {
-    console.error("Error starting game:", error);
-    return null;
-  }
+/**
+ * Result type for game operations that may fail with a specific reason.
+ * `status` carries the HTTP status code for server-side operations.
+ */
+export interface GameOperationResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  status?: number;
+}
 
-  return data as string;
+/**
+ * A player's view of the game at a given state version.
+ * Cards the player may not see are replaced by card backs.
+ */
+export interface GameStateView {
+  version: number;
+  gameState: GameState;
+  delaySeconds?: number; // Set for spectators watching with every hand revealed
 }
 
+// ============================================
+// Game Operations
+// ============================================
+
 /**
- * Gets a game by ID with player information.
+ * Gets a game by ID with player information. `delaySeconds` is set
+ * for spectators whose view runs behind the table.
  */
 export async function getGame(gameId: string): Promise<{
   game: Game;
   players: GamePlayerRecord[];
+  delaySeconds?: number;
 } | null> {
   const supabase = createClient();
 
-  // Get game
+  // Get game (game_state is only readable through the state route)
   const { data: game, error: gameError } = await supabase
     .from("games")
-    .select("*")
+    .select("id, lobby_id, status, current_turn_player_id, turn_number, started_at, updated_at, finished_at")
     .eq("id", gameId)
     .single();
 
@@ -151,12 +148,16 @@ export async function getGame(gameId: string): Promise<{
     return null;
   }
 
+  // Get this player's view of the game state
+  const view = await getGameState(gameId);
+
   return {
     game: {
       id: game.id,
       lobbyId: game.lobby_id,
       status: game.status,
-      gameState: game.game_state || {},
+      gameState: view?.gameState || ({} as GameState),
+      stateVersion: view?.version ?? 0,
       currentTurnPlayerId: game.current_turn_player_id,
       turnNumber: game.turn_number,
       startedAt: game.started_at,
@@ -164,55 +165,163 @@ export async function getGame(gameId: string): Promise<{
       finishedAt: game.finished_at,
     },
     players: players || [],
+    delaySeconds: view?.delaySeconds,
   };
 }
 
 /**
- * Gets the current user's active game.
+ * Gets the current user's view of the game state.
+ * Opponents' hands and every library come back as card backs.
  */
-export async function getCurrentGame(): Promise<string | null> {
+export async function getGameState(gameId: string): Promise<GameStateView | null> {
+  try {
+    const response = await fetch(`/api/games/${gameId}/state`);
+
+    if (!response.ok) {
+      console.error("Error fetching game state:", response.status);
+      return null;
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to fetch game state:", error);
+    return null;
+  }
+}
+
+/**
+ * Gets the game log, oldest entry first.
+ * Pass `afterSeq` to only fetch entries newer than the ones already loaded.
+ */
+export async function getGameLog(gameId: string, afterSeq = 0): Promise<GameLogEntry[]> {
   const supabase = createClient();
 
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) return null;
+  const { data, error } = await supabase
+    .from("game_actions")
+    .select("seq, actor_id, type, description, created_at")
+    .eq("game_id", gameId)
+    .gt("seq", afterSeq)
+    .order("seq");
+
+  if (error) {
+    console.error("Error fetching game log:", error);
+    return [];
+  }
+
+  return (data || []).map((row) => ({
+    seq: row.seq,
+    actorId: row.actor_id,
+    type: row.type,
+    description: row.description,
+    createdAt: row.created_at,
+  }));
+}
+
+/**
+ * Gets the initial state and full action log of a finished game.
+ */
+export async function getGameReplay(gameId: string): Promise<GameOperationResult<GameReplay>> {
+  try {
+    const response = await fetch(`/api/games/${gameId}/replay`);
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { success: false, error: data.error || "Failed to load replay", status: response.status };
+    }
+
+    return { success: true, data };
+  } catch (error) {
+    console.error("Error fetching game replay:", error);
+    return { success: false, error: "Failed to load replay" };
+  }
+}
+
+/**
+ * Gets the stored result of a finished game, or null while it is still going.
+ */
+export async function getGameResult(gameId: string): Promise<GameResultRecord | null> {
+  const supabase = createClient();
 
   const { data, error } = await supabase
-    .from("game_players")
-    .select("game_id, games!inner(status)")
-    .eq("user_id", user.id)
-    .eq("games.status", "active")
-    .single();
+    .from("game_results")
+    .select("*")
+    .eq("game_id", gameId)
+    .maybeSingle();
 
-  if (error || !data) {
+  if (error) {
+    console.error("Error fetching game result:", error);
     return null;
   }
 
-  return data.game_id;
+  return data;
 }
 
 /**
- * Updates the game state.
+ * Asks for a rematch of a finished game. Its lobby opens again with the
+ * same seats and decks; once the host started the next game, that game
+ * is returned instead.
  */
-export async function updateGameState(
-  gameId: string,
-  gameState: Partial<GameState>
-): Promise<boolean> {
+export async function requestRematch(
+  gameId: string
+): Promise<GameOperationResult<{ lobbyId: string; gameId: string | null }>> {
+  try {
+    const response = await fetch(`/api/games/${gameId}/rematch`, { method: "POST" });
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { success: false, error: data.error || "Failed to start rematch", status: response.status };
+    }
+
+    return { success: true, data };
+  } catch (error) {
+    console.error("Error requesting rematch:", error);
+    return { success: false, error: "Failed to start rematch" };
+  }
+}
+
+/**
+ * Signs up to watch a game the user is not playing in. Afterwards the
+ * game can be loaded like any other.
+ */
+export async function spectateGame(gameId: string): Promise<GameOperationResult<null>> {
+  try {
+    const response = await fetch(`/api/games/${gameId}/spectate`, { method: "POST" });
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { success: false, error: data.error || "Failed to watch game", status: response.status };
+    }
+
+    return { success: true, data: null };
+  } catch (error) {
+    console.error("Error spectating game:", error);
+    return { success: false, error: "Failed to watch game" };
+  }
+}
+
+/**
+ * Gets the current user's active game, unless they are already out of it.
+ */
+export async function getCurrentGame(): Promise<string | null> {
   const supabase = createClient();
 
-  const { error } = await supabase
-    .from("games")
-    .update({
-      game_state: gameState,
-      updated_at: new Date().toISOString(),
-    })
-    .eq("id", gameId);
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
 
-  if (error) {
-    console.error("Error updating game state:", error);
-    return false;
+  const { data, error } = await supabase
+    .from("game_players")
+    .select("game_id, games!inner(status)")
+    .eq("user_id", user.id)
+    .eq("is_eliminated", false)
+    .eq("games.status", "active")
+    .limit(1)
+    .maybeSingle();
+
+  if (error || !data) {
+    return null;
   }
 
-  return true;
+  return data.game_id;
 }
 
 /**
@@ -243,20 +352,13 @@ export async function updateLifeTotal(
 // Real-time Game Channel
 // ============================================
 
-export interface GameAction {
-  type: string;
-  playerId: string;
-  payload: Record<string, unknown>;
-  timestamp: string;
-}
-
 /**
  * Subscribes to real-time game updates using Supabase Broadcast.
  * Returns a channel that can be used to send and receive game actions.
  */
 export function subscribeToGame(
   gameId: string,
-  onAction: (action: GameAction) => void,
+  onAction: (action: AppliedGameAction) => void,
   onPresence?: (players: Record<string, unknown>) => void
 ): RealtimeChannel {
   const supabase = createClient();
@@ -270,7 +372,7 @@ export function subscribeToGame(
 
   // Listen for broadcast messages (game actions)
   channel.on("broadcast", { event: "game_action" }, ({ payload }) => {
-    onAction(payload as GameAction);
+    onAction(payload as AppliedGameAction);
   });
 
   // Optionally track presence
@@ -287,20 +389,33 @@ export function subscribeToGame(
 }
 
 /**
- * Sends a game action to all players.
+ * Submits a game action to the server.
+ * The server validates and applies it, then broadcasts it to all players.
+ * Returns the sender's view of the resulting state.
  */
 export async function sendGameAction(
-  channel: RealtimeChannel,
-  action: Omit<GameAction, "timestamp">
-): Promise<void> {
-  await channel.send({
-    type: "broadcast",
-    event: "game_action",
-    payload: {
-      ...action,
-      timestamp: new Date().toISOString(),
-    },
-  });
+  gameId: string,
+  type: string,
+  payload: Record<string, unknown>
+): Promise<GameOperationResult<GameStateView>> {
+  try {
+    const response = await fetch(`/api/games/${gameId}/actions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ type, payload }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return { success: false, error: data.error || "Action rejected", status: response.status };
+    }
+
+    return { success: true, data };
+  } catch (error) {
+    console.error("Error sending game action:", error);
+    return { success: false, error: "Failed to send action" };
+  }
 }
 
 /**
@@ -318,102 +433,19 @@ export async function trackPresence(
   });
 }
 
-// ============================================
-// Game Action Types
-// ============================================
-
-export const GameActionTypes = {
-  // Card movement
-  MOVE_CARD: "MOVE_CARD",
-  TAP_CARD: "TAP_CARD",
-  UNTAP_CARD: "UNTAP_CARD",
-  FLIP_CARD: "FLIP_CARD",
-  
-  // Zone changes
-  DRAW_CARD: "DRAW_CARD",
-  PLAY_CARD: "PLAY_CARD",
-  DISCARD_CARD: "DISCARD_CARD",
-  EXILE_CARD: "EXILE_CARD",
-  RETURN_TO_HAND: "RETURN_TO_HAND",
-  RETURN_TO_LIBRARY: "RETURN_TO_LIBRARY",
-  CAST_COMMANDER: "CAST_COMMANDER",
-  RETURN_COMMANDER: "RETURN_COMMANDER",
-  
-  // Counters
-  ADD_COUNTER: "ADD_COUNTER",
-  REMOVE_COUNTER: "REMOVE_COUNTER",
-  
-  // Life
-  UPDATE_LIFE: "UPDATE_LIFE",
-  DEAL_COMMANDER_DAMAGE: "DEAL_COMMANDER_DAMAGE",
-  
-  // Turn management
-  PASS_TURN: "PASS_TURN",
-  
-  // Game state
-  SHUFFLE_LIBRARY: "SHUFFLE_LIBRARY",
-  REVEAL_CARD: "REVEAL_CARD",
-  CONCEDE: "CONCEDE",
-} as const;
-
-// ============================================
-// Helper to initialize game state from players
-// ============================================
-
-export function initializeGameState(
-  players: GamePlayerRecord[],
-  deckCards: Record<string, GameCard[]> // Keyed by userId
-): GameState {
-  const gameState: GameState = {
-    players: {},
-    turnOrder: players.map((p) => p.user_id),
-    activePlayerId: players[0]?.user_id || "",
-    turnNumber: 1,
-    phase: "main",
-  };
-
-  for (const player of players) {
-    const cards = deckCards[player.user_id] || [];
-    
-    // Separate commanders from library
-    const commanders = cards.filter((c) => c.isCommander);
-    const library = cards.filter((c) => !c.isCommander);
-
-    gameState.players[player.user_id] = {
-      id: player.id,
-      userId: player.user_id,
-      position: player.position,
-      deckId: player.deck_id,
-      deckName: player.deck_name,
-      commanderName: player.commander_name,
-      commanderImageUrl: player.commander_image_url,
-      commander2Name: player.commander2_name,
-      commander2ImageUrl: player.commander2_image_url,
-      lifeTotal: player.life_total,
-      isEliminated: player.is_eliminated,
-      commanderDamage: player.commander_damage || {},
-      zones: {
-        library: shuffleArray(library),
-        hand: [],
-        battlefield: [],
-        graveyard: [],
-        exile: [],
-        command: commanders,
-      },
-    };
-  }
-
-  return gameState;
-}
-
 /**
- * Fisher-Yates shuffle algorithm.
+ * Lists the users, players and spectators alike, with at least one tab
+ * tracking presence in the game.
  */
-function shuffleArray<T>(array: T[]): T[] {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+export function getOnlinePlayers(presence: Record<string, unknown>): string[] {
+  const userIds = new Set<string>();
+
+  for (const entries of Object.values(presence)) {
+    if (!Array.isArray(entries)) continue;
+    for (const entry of entries) {
+      if (typeof entry?.userId === "string") userIds.add(entry.userId);
+    }
   }
-  return shuffled;
+
+  return [...userIds];
 }
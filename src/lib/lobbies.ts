@@ -1,5 +1,7 @@
 import { createClient } from "@/lib/supabase/client";
 import { getCurrentProfile } from "@/lib/profiles";
+import { DEFAULT_AFK_TIMEOUT_SECONDS } from "@/lib/game-state";
+import { SpectatorView } from "@/lib/game-visibility";
 
 // ============================================
 // Types
@@ -14,6 +16,10 @@ export interface LobbyRecord {
   rules: string | null;
   password_hash: string | null;
   max_players: number;
+  afk_timeout_seconds: number;
+  allow_spectators: boolean;
+  spectator_view: SpectatorView;
+  current_game_id: string | null; // Game it last started, kept across rematches
   status: LobbyStatus;
   created_at: string;
   updated_at: string;
@@ -47,6 +53,7 @@ export interface CreateLobbyInput {
   rules?: string;
   password?: string;
   maxPlayers?: number;
+  afkTimeoutSeconds?: number;
 }
 
 export interface JoinLobbyInput {
@@ -131,6 +138,7 @@ export async function createLobby(input: CreateLobbyInput): Promise<LobbyOperati
       rules: input.rules || null,
       password_hash: input.password || null, // In production, hash this!
       max_players: input.maxPlayers || 4,
+      afk_timeout_seconds: input.afkTimeoutSeconds || DEFAULT_AFK_TIMEOUT_SECONDS,
       status: "waiting",
     })
     .select()
@@ -416,40 +424,46 @@ export async function selectDeck(
 }
 
 /**
- * Starts the game (host only).
- * Returns the game ID if successful, null otherwise.
+ * Updates who may watch the lobby's games and what they see (host only).
  */
-export async function startGame(lobbyId: string): Promise<string | null> {
+export async function updateSpectatorSettings(
+  lobbyId: string,
+  allowSpectators: boolean,
+  spectatorView: SpectatorView
+): Promise<boolean> {
   const supabase = createClient();
 
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) {
-    return null;
-  }
+  const { error } = await supabase
+    .from("lobbies")
+    .update({ allow_spectators: allowSpectators, spectator_view: spectatorView })
+    .eq("id", lobbyId);
 
-  // Verify user is host
-  const lobby = await getLobby(lobbyId);
-  if (!lobby || lobby.host_id !== user.id) {
-    console.error("Only the host can start the game");
-    return null;
+  if (error) {
+    console.error("Error updating spectator settings:", error);
+    return false;
   }
 
-  // Check all players are ready
-  const allReady = lobby.players.every((p) => p.is_ready || p.is_host);
-  if (!allReady) {
-    console.error("Not all players are ready");
-    return null;
-  }
+  return true;
+}
 
-  // Call the database function to create the game
-  const { data: gameId, error } = await supabase.rpc("start_game_from_lobby", {
-    p_lobby_id: lobbyId,
-  });
+/**
+ * Starts the game (host only).
+ * The server sets up the game state before switching the lobby to in_game.
+ * Returns the game ID if successful, null otherwise.
+ */
+export async function startGame(lobbyId: string): Promise<string | null> {
+  try {
+    const response = await fetch(`/api/lobbies/${lobbyId}/start`, { method: "POST" });
+    const data = await response.json();
 
-  if (error) {
+    if (!response.ok) {
+      console.error("Error starting game:", data.error);
+      return null;
+    }
+
+    return data.gameId as string;
+  } catch (error) {
     console.error("Error starting game:", error);
     return null;
   }
-
-  return gameId as string;
 }
@@ -16,6 +16,7 @@ export interface ScryfallCard {
   type_line: string;
   oracle_text?: string; // Rules text - used to detect "any number of cards" abilities
   color_identity: string[]; // Array of colors: W, U, B, R, G (empty for colorless)
+  layout?: string; // e.g. "normal", "modal_dfc", "transform", "flip" or "meld"
   image_uris?: {
     small: string;
     normal: string;
@@ -38,6 +39,31 @@ export interface ScryfallCard {
       border_crop: string;
     };
   }>;
+  all_parts?: Array<{
+    id: string;
+    component: string; // "meld_part" and "meld_result" for meld cards
+    name: string;
+    type_line: string;
+  }>;
+}
+
+type ImageSize = "small" | "normal" | "large" | "png";
+
+/**
+ * Layouts of cards with more than one face. Every face of these is kept.
+ */
+export const MultiFaceLayouts = ["modal_dfc", "transform", "flip", "meld"] as const;
+
+export type CardLayout = (typeof MultiFaceLayouts)[number];
+
+/**
+ * One face of a double-faced, flip or meld card.
+ */
+export interface CardFace {
+  name: string;
+  imageUrl: string;
+  type: string; // Simplified card type, see parseCardType
+  rotated?: boolean; // Flip cards show their other face by turning the card upside down
 }
 
 /**
@@ -96,7 +122,7 @@ export async function fetchCardByName(name: string): Promise<ScryfallCard | null
  */
 export function getCardImageUrl(
   card: ScryfallCard, 
-  size: "small" | "normal" | "large" | "png" = "png"
+  size: ImageSize = "png"
 ): string {
   // Single-faced cards have image_uris directly
   if (card.image_uris) {
@@ -120,6 +146,53 @@ export function getCardImageUrl(
   return "/assets/card-back.png";
 }
 
+/**
+ * Gets the layout of a card with more than one face, or undefined for
+ * ordinary single-faced cards (including adventures and split cards,
+ * which fit on one image).
+ */
+export function getCardLayout(card: ScryfallCard): CardLayout | undefined {
+  return MultiFaceLayouts.find((layout) => layout === card.layout);
+}
+
+/**
+ * Gets every face of a double-faced, flip or meld card, front face first.
+ * A meld card's back face is the permanent it melds into. Returns
+ * undefined for cards with a single face.
+ */
+export function getCardFaces(card: ScryfallCard, size: ImageSize = "png"): CardFace[] | undefined {
+  const layout = getCardLayout(card);
+  if (!layout) return undefined;
+
+  const front = getCardImageUrl(card, size);
+
+  if (layout === "meld") {
+    // The meld result itself only has the one face
+    const result = card.all_parts?.find((part) => part.component === "meld_result");
+    if (!result || result.id === card.id) return undefined;
+
+    return [
+      { name: card.name, imageUrl: front, type: parseCardType(card.type_line) },
+      {
+        name: result.name,
+        imageUrl: `${SCRYFALL_API_BASE}/cards/${result.id}?format=image&version=${size}`,
+        type: parseCardType(result.type_line),
+      },
+    ];
+  }
+
+  const faces = card.card_faces || [];
+  if (faces.length < 2) return undefined;
+
+  // Flip cards have a single image for both faces
+  return faces.map((face, index) => ({
+    name: face.name,
+    imageUrl: face.image_uris ? face.image_uris[size] || face.image_uris.normal : front,
+    type: parseCardType(face.type_line),
+    ...(layout === "flip" && index > 0 ? { rotated: true } : {}),
+  }));
+}
+
 /**
  * Determines if a card allows multiple copies in a Commander deck.
  * Returns true for:
@@ -173,6 +246,7 @@ export interface CardPrint {
   set_name: string;
   collector_number: string;
   imageUrl: string;
+  faces?: CardFace[];
   artist: string;
 }
 
@@ -207,6 +281,7 @@ export async function fetchCardPrints(cardName: string): Promise<CardPrint[]> {
         set_name: (card as ScryfallCardWithSet).set_name || "Unknown Set",
         collector_number: (card as ScryfallCardWithSet).collector_number || "",
         imageUrl: getCardImageUrl(card), // Uses PNG format by default for clean corners
+        faces: getCardFaces(card),
         artist: (card as ScryfallCardWithSet).artist || "Unknown",
       }));
   } catch (error) {
@@ -251,3 +326,38 @@ export async function fetchCardBySetAndNumber(
     return null;
   }
 }
+
+/**
+ * Searches Scryfall for token cards matching a query (name or Scryfall
+ * search syntax, e.g. `Soldier pow=1 tou=1`).
+ * Returns one print of each token that has an image.
+ */
+export async function searchTokens(query: string): Promise<ScryfallCard[]> {
+  if (!query.trim()) {
+    return [];
+  }
+
+  try {
+    const response = await fetch(
+      `${SCRYFALL_API_BASE}/cards/search?q=${encodeURIComponent(`t:token ${query}`)}&include_extras=true&order=name`
+    );
+
+    // Scryfall answers 404 when nothing matches
+    if (response.status === 404) {
+      return [];
+    }
+
+    if (!response.ok) {
+      console.error("Scryfall token search error:", response.status);
+      return [];
+    }
+
+    const data = await response.json();
+    const cards: ScryfallCard[] = data.data || [];
+
+    return cards.filter((card) => card.image_uris || card.card_faces?.[0]?.image_uris);
+  } catch (error) {
+    console.error("Failed to search tokens:", error);
+    return [];
+  }
+}
@@ -0,0 +1,19 @@
+import { createClient as createSupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Creates a Supabase client authenticated with the service role key.
+ * Bypasses Row Level Security, so it must only be used in Route Handlers
+ * and other server-only code. Requires SUPABASE_SERVICE_ROLE_KEY.
+ */
+export function createClient() {
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  );
+}
@@ -1,3 +1,4 @@
 export { createClient as createBrowserClient } from "./client";
 export { createClient as createServerClient } from "./server";
+export { createClient as createAdminClient } from "./admin";
 
@@ -0,0 +1,43 @@
+-- ============================================
+-- Authoritative Game Actions
+-- Game state is now only written by the server,
+-- which validates every action before applying it
+-- ============================================
+
+-- Version number bumped by the server on every applied action
+ALTER TABLE games
+ADD COLUMN state_version INT NOT NULL DEFAULT 0;
+
+-- Clients may no longer overwrite game_state directly.
+-- The /api/games/[id]/actions route writes with the service role key.
+DROP POLICY IF EXISTS "Players can update their games" ON games;
+
+-- ============================================
+-- Function to store the initial game state
+-- Only writes while the state is still empty
+-- ============================================
+
+CREATE OR REPLACE FUNCTION initialize_game_state(p_game_id UUID, p_game_state JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Only players in the game can set it up
+    IF NOT EXISTS (
+        SELECT 1 FROM game_players
+        WHERE game_id = p_game_id AND user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Only players in this game can initialize it';
+    END IF;
+
+    UPDATE games
+    SET game_state = p_game_state,
+        updated_at = now()
+    WHERE id = p_game_id
+    AND game_state = '{}'::jsonb;
+
+    RETURN FOUND;
+END;
+$$;
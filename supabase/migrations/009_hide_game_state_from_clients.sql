@@ -0,0 +1,21 @@
+-- ============================================
+-- Hidden Information
+-- games.game_state holds every hand and library,
+-- so clients may no longer read it directly.
+-- Each player gets a redacted copy from /api/games/[id]/state.
+-- ============================================
+
+-- Replace the table-wide SELECT grant with a column list without game_state
+REVOKE SELECT ON games FROM anon, authenticated;
+
+GRANT SELECT (
+    id,
+    lobby_id,
+    status,
+    current_turn_player_id,
+    turn_number,
+    state_version,
+    started_at,
+    updated_at,
+    finished_at
+) ON games TO authenticated;
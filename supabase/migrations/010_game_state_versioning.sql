@@ -0,0 +1,59 @@
+-- ============================================
+-- Game State Versioning
+-- Every write to games.game_state must bump state_version by one,
+-- so clients can detect missed broadcasts and writers can
+-- compare-and-swap on the version they read.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION enforce_game_state_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.state_version < OLD.state_version THEN
+        RAISE EXCEPTION 'state_version cannot decrease (% -> %)', OLD.state_version, NEW.state_version;
+    END IF;
+
+    IF NEW.game_state IS DISTINCT FROM OLD.game_state
+       AND NEW.state_version <> OLD.state_version + 1 THEN
+        RAISE EXCEPTION 'game_state changes must bump state_version by exactly one';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS games_state_version ON games;
+CREATE TRIGGER games_state_version
+    BEFORE UPDATE ON games
+    FOR EACH ROW EXECUTE FUNCTION enforce_game_state_version();
+
+-- ============================================
+-- Initial state now counts as version 1
+-- ============================================
+
+CREATE OR REPLACE FUNCTION initialize_game_state(p_game_id UUID, p_game_state JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Only players in the game can set it up
+    IF NOT EXISTS (
+        SELECT 1 FROM game_players
+        WHERE game_id = p_game_id AND user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Only players in this game can initialize it';
+    END IF;
+
+    UPDATE games
+    SET game_state = p_game_state,
+        state_version = state_version + 1,
+        updated_at = now()
+    WHERE id = p_game_id
+    AND game_state = '{}'::jsonb;
+
+    RETURN FOUND;
+END;
+$$;
@@ -0,0 +1,71 @@
+-- ============================================
+-- Server-side Game Setup
+-- The server creates the game, stores the initial state
+-- and only then switches the lobby to in_game, so players
+-- are never redirected to a game without a state
+-- ============================================
+
+CREATE OR REPLACE FUNCTION start_game_from_lobby(p_lobby_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_game_id UUID;
+    v_player RECORD;
+    v_position INT := 0;
+BEGIN
+    -- Create the game
+    INSERT INTO games (lobby_id, status, game_state)
+    VALUES (p_lobby_id, 'active', '{}'::jsonb)
+    RETURNING id INTO v_game_id;
+
+    -- Add all players from the lobby
+    FOR v_player IN
+        SELECT
+            lp.user_id,
+            lp.deck_id,
+            lp.deck_name,
+            lp.commander_name,
+            lp.commander_image_url,
+            d.commander2_name,
+            d.commander2_image_url
+        FROM lobby_players lp
+        LEFT JOIN decks d ON d.id = lp.deck_id
+        WHERE lp.lobby_id = p_lobby_id
+        ORDER BY lp.slot_position
+    LOOP
+        INSERT INTO game_players (
+            game_id, user_id, position,
+            deck_id, deck_name, commander_name, commander_image_url,
+            commander2_name, commander2_image_url
+        )
+        VALUES (
+            v_game_id, v_player.user_id, v_position,
+            v_player.deck_id, v_player.deck_name,
+            v_player.commander_name, v_player.commander_image_url,
+            v_player.commander2_name, v_player.commander2_image_url
+        );
+        v_position := v_position + 1;
+    END LOOP;
+
+    -- Set the first player's turn
+    UPDATE games
+    SET current_turn_player_id = (
+        SELECT user_id FROM game_players
+        WHERE game_id = v_game_id AND position = 0
+    )
+    WHERE id = v_game_id;
+
+    -- The lobby status is updated by the server once the state is stored
+
+    RETURN v_game_id;
+END;
+$$;
+
+-- Only the server (service role) may start games
+REVOKE EXECUTE ON FUNCTION start_game_from_lobby(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Clients no longer set up the initial state themselves
+DROP FUNCTION IF EXISTS initialize_game_state(UUID, JSONB);
@@ -0,0 +1,105 @@
+-- ============================================
+-- Game Actions Table
+-- Append-only log of every applied game action.
+-- seq matches games.state_version after the action,
+-- so the log and the state can never drift apart.
+-- ============================================
+
+CREATE TABLE game_actions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+    seq INT NOT NULL,
+
+    -- Player who performed the action
+    actor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+    -- Action type and full payload (including shuffle seeds)
+    type TEXT NOT NULL,
+    payload JSONB NOT NULL DEFAULT '{}',
+
+    -- Human-readable log line that never names hidden cards
+    description TEXT NOT NULL,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+    UNIQUE(game_id, seq)
+);
+
+CREATE INDEX idx_game_actions_game ON game_actions(game_id, seq);
+
+-- ============================================
+-- Row Level Security
+-- ============================================
+
+ALTER TABLE game_actions ENABLE ROW LEVEL SECURITY;
+
+-- Players can read the log of their games; rows are only
+-- written by the server, so there are no write policies
+CREATE POLICY "Players can view their game actions"
+    ON game_actions FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM game_players
+            WHERE game_players.game_id = game_actions.game_id
+            AND game_players.user_id = auth.uid()
+        )
+    );
+
+-- Payloads can contain hidden information (e.g. shuffle seeds)
+REVOKE SELECT ON game_actions FROM anon, authenticated;
+
+GRANT SELECT (
+    id,
+    game_id,
+    seq,
+    actor_id,
+    type,
+    description,
+    created_at
+) ON game_actions TO authenticated;
+
+-- ============================================
+-- Apply an action: save the state and log the action atomically
+-- ============================================
+
+CREATE OR REPLACE FUNCTION record_game_action(
+    p_game_id UUID,
+    p_expected_version INT,
+    p_game_state JSONB,
+    p_current_turn_player_id UUID,
+    p_turn_number INT,
+    p_actor_id UUID,
+    p_type TEXT,
+    p_payload JSONB,
+    p_description TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Compare-and-swap on state_version
+    UPDATE games
+    SET game_state = p_game_state,
+        state_version = p_expected_version + 1,
+        current_turn_player_id = p_current_turn_player_id,
+        turn_number = p_turn_number,
+        updated_at = now()
+    WHERE id = p_game_id
+    AND state_version = p_expected_version;
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    INSERT INTO game_actions (game_id, seq, actor_id, type, payload, description)
+    VALUES (p_game_id, p_expected_version + 1, p_actor_id, p_type, p_payload, p_description);
+
+    RETURN true;
+END;
+$$;
+
+-- Only the server (service role) may apply actions
+REVOKE EXECUTE ON FUNCTION record_game_action(UUID, INT, JSONB, UUID, INT, UUID, TEXT, JSONB, TEXT)
+    FROM PUBLIC, anon, authenticated;
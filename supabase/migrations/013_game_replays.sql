@@ -0,0 +1,9 @@
+-- ============================================
+-- Game Replays
+-- Keeps the state a game started with, so it can be
+-- rebuilt step by step from the game_actions log.
+-- Like game_state, it is only readable through the server.
+-- ============================================
+
+ALTER TABLE games
+ADD COLUMN initial_state JSONB;
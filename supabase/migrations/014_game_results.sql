@@ -0,0 +1,46 @@
+-- ============================================
+-- Game Results
+-- One row per finished game, written by the server
+-- when the last player standing wins or the table
+-- agrees to a draw.
+-- ============================================
+
+CREATE TABLE game_results (
+    game_id UUID PRIMARY KEY REFERENCES games(id) ON DELETE CASCADE,
+    lobby_id UUID REFERENCES lobbies(id) ON DELETE SET NULL,
+
+    -- NULL when the game ended in a draw
+    winner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+    -- Best first; drawn players share a placement
+    -- Format: [{ "user_id": "...", "placement": 1 }]
+    placements JSONB NOT NULL DEFAULT '[]',
+
+    turn_count INT NOT NULL,
+    duration_seconds INT NOT NULL,
+
+    -- Game started from the same lobby afterwards
+    rematch_game_id UUID REFERENCES games(id) ON DELETE SET NULL,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_game_results_winner ON game_results(winner_id);
+
+-- ============================================
+-- Row Level Security
+-- ============================================
+
+ALTER TABLE game_results ENABLE ROW LEVEL SECURITY;
+
+-- Players can read the results of their games; rows are only
+-- written by the server, so there are no write policies
+CREATE POLICY "Players can view their game results"
+    ON game_results FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM game_players
+            WHERE game_players.game_id = game_results.game_id
+            AND game_players.user_id = auth.uid()
+        )
+    );
@@ -0,0 +1,10 @@
+-- ============================================
+-- Lobby AFK Timeout
+-- How long a player can be disconnected or hold
+-- up the game before the rest of the table may vote
+-- to skip their turn or remove them.
+-- ============================================
+
+ALTER TABLE lobbies
+ADD COLUMN afk_timeout_seconds INTEGER NOT NULL DEFAULT 180
+CHECK (afk_timeout_seconds BETWEEN 30 AND 1800);
@@ -0,0 +1,89 @@
+-- ============================================
+-- Spectators
+-- Lobby hosts can let people who are not playing
+-- watch the game, either with every hand hidden or
+-- with every hand revealed on a delay for streaming.
+-- Spectators sign up through the server, and only
+-- they can read the game besides its players.
+-- ============================================
+
+ALTER TABLE lobbies
+ADD COLUMN allow_spectators BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN spectator_view TEXT NOT NULL DEFAULT 'hidden'
+CHECK (spectator_view IN ('hidden', 'delayed'));
+
+CREATE TABLE game_spectators (
+    game_id UUID NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    joined_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+    PRIMARY KEY (game_id, user_id)
+);
+
+-- ============================================
+-- Helper Functions
+-- Security definer so policies on game_players can
+-- check game_players without recursing into themselves
+-- ============================================
+
+CREATE OR REPLACE FUNCTION is_game_player(p_game_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM game_players
+        WHERE game_id = p_game_id
+        AND user_id = auth.uid()
+    );
+$$;
+
+-- Signed up to watch, and the lobby still allows it
+CREATE OR REPLACE FUNCTION is_game_spectator(p_game_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM game_spectators
+        JOIN games ON games.id = game_spectators.game_id
+        JOIN lobbies ON lobbies.id = games.lobby_id
+        WHERE game_spectators.game_id = p_game_id
+        AND game_spectators.user_id = auth.uid()
+        AND lobbies.allow_spectators
+    );
+$$;
+
+-- ============================================
+-- Row Level Security
+-- ============================================
+
+ALTER TABLE game_spectators ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the server
+CREATE POLICY "Users can view their own spectator records"
+    ON game_spectators FOR SELECT
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Spectators can view games they watch"
+    ON games FOR SELECT
+    USING (is_game_spectator(id));
+
+-- Game players used to be readable by anyone
+DROP POLICY "Anyone can view game players" ON game_players;
+
+-- Seats are only handed out by the server now; a row of your own
+-- would otherwise pass as a seat in any game
+DROP POLICY "System can insert game players" ON game_players;
+
+CREATE POLICY "Players and spectators can view game players"
+    ON game_players FOR SELECT
+    USING (is_game_player(game_id) OR is_game_spectator(game_id));
+
+CREATE POLICY "Spectators can view game actions"
+    ON game_actions FOR SELECT
+    USING (is_game_spectator(game_id));
@@ -0,0 +1,9 @@
+-- ============================================
+-- Lobby Current Game
+-- Points a lobby at the game it last started, so
+-- players are sent to the right game even when the
+-- lobby was reused for a rematch.
+-- ============================================
+
+ALTER TABLE lobbies
+ADD COLUMN current_game_id UUID REFERENCES games(id) ON DELETE SET NULL;